@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { sendJson } from '@/utils/api';
+
+const AccountSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [profilePassword, setProfilePassword] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  const [deletePassword, setDeletePassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setUsername(user.username);
+      setEmail(user.email);
+    }
+  }, [user]);
+
+  if (!user) return null;
+
+  const emailChanged = email.trim().toLowerCase() !== user.email.toLowerCase();
+  const profileChanged = username.trim() !== user.username || email.trim() !== user.email;
+  // Google-linked accounts may confirm changes by having signed in with Google in the last 10 minutes
+  const passwordRequired = !user.googleLinked;
+  const passwordHint = user.googleLinked ? (
+    <>
+      Signed up with Google? Leave the password empty if you signed in within the last 10 minutes,
+      or <a href="/api/auth/google" className="underline">sign in with Google again</a> first.
+    </>
+  ) : null;
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingProfile(true);
+    try {
+      const updated = await sendJson<unknown>('PATCH', '/api/user', {
+        username: username.trim(),
+        email: email.trim(),
+        currentPassword: emailChanged && profilePassword ? profilePassword : undefined,
+      });
+      queryClient.setQueryData(['/api/user'], updated);
+      setProfilePassword('');
+      toast({
+        title: "Profile saved",
+        description: emailChanged ? `We sent a verification link to ${email.trim()}` : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save profile",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChangingPassword(true);
+    try {
+      const { message } = await sendJson('POST', '/api/user/password', {
+        currentPassword: currentPassword || undefined,
+        newPassword,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      setCurrentPassword('');
+      setNewPassword('');
+      toast({ title: message });
+    } catch (error) {
+      toast({
+        title: "Could not change password",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDeleting(true);
+    try {
+      await sendJson('DELETE', '/api/user', { password: deletePassword || undefined });
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+      setLocation('/');
+      toast({ title: "Your account has been deleted" });
+    } catch (error) {
+      toast({
+        title: "Could not delete account",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSaveProfile} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="account-username">Username</Label>
+            <Input
+              id="account-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              minLength={2}
+              maxLength={32}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="account-email">Email</Label>
+            <Input
+              id="account-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+        {emailChanged && (
+          <div>
+            <Label htmlFor="account-email-password">Current password</Label>
+            <Input
+              id="account-email-password"
+              type="password"
+              value={profilePassword}
+              onChange={(e) => setProfilePassword(e.target.value)}
+              autoComplete="current-password"
+              required={passwordRequired}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Needed to change your email. You will have to verify the new address.
+            </p>
+            {passwordHint && <p className="text-xs text-gray-500 mt-1">{passwordHint}</p>}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isSavingProfile || !profileChanged}>
+            {isSavingProfile ? 'Saving...' : 'Save profile'}
+          </Button>
+        </div>
+      </form>
+
+      <form onSubmit={handleChangePassword} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="account-current-password">Current password</Label>
+            <Input
+              id="account-current-password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              required={passwordRequired}
+            />
+          </div>
+          <div>
+            <Label htmlFor="account-new-password">New password</Label>
+            <Input
+              id="account-new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              minLength={8}
+              required
+            />
+          </div>
+        </div>
+        {passwordHint && <p className="text-xs text-gray-500">{passwordHint}</p>}
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isChangingPassword || (passwordRequired && !currentPassword) || newPassword.length < 8}>
+            {isChangingPassword ? 'Changing...' : 'Change password'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="flex items-center justify-between gap-4 border border-red-200 bg-red-50 rounded-lg p-4">
+        <div>
+          <p className="font-medium text-gray-900">Delete account</p>
+          <p className="text-sm text-gray-600">
+            Removes your assignments and uploaded files. Payment records are kept, without your details, for our accounts.
+          </p>
+        </div>
+        <AlertDialog onOpenChange={() => setDeletePassword('')}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="destructive">Delete account</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <form onSubmit={handleDelete} className="space-y-4">
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This cannot be undone. Your assignments, solutions and uploaded files will be deleted
+                  and you will be signed out on every device.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <div>
+                <Label htmlFor="account-delete-password">Password</Label>
+                <Input
+                  id="account-delete-password"
+                  type="password"
+                  value={deletePassword}
+                  onChange={(e) => setDeletePassword(e.target.value)}
+                  autoComplete="current-password"
+                  required={passwordRequired}
+                />
+                {passwordHint && <p className="text-xs text-gray-500 mt-1">{passwordHint}</p>}
+              </div>
+              <AlertDialogFooter>
+                <AlertDialogCancel type="button" disabled={isDeleting}>Cancel</AlertDialogCancel>
+                <Button type="submit" variant="destructive" disabled={isDeleting || (passwordRequired && !deletePassword)}>
+                  {isDeleting ? 'Deleting...' : 'Delete account'}
+                </Button>
+              </AlertDialogFooter>
+            </form>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
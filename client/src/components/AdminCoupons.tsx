@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/utils/payment';
+import { sendJson } from '@/utils/api';
+import type { Coupon, CouponDiscountType } from '@shared/schema';
+
+interface AdminCouponsProps {
+  canEdit: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const AdminCoupons: React.FC<AdminCouponsProps> = ({ canEdit }) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [discountType, setDiscountType] = useState<CouponDiscountType>('percentage');
+  const [discountValue, setDiscountValue] = useState('');
+  const [currency, setCurrency] = useState('INR');
+  const [maxRedemptions, setMaxRedemptions] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: coupons } = useQuery<Coupon[]>({ queryKey: ['/api/admin/coupons'] });
+
+  // Run a coupon change, then refresh the list
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/coupons'] });
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Action failed",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createCoupon = async () => {
+    const done = await runAction(() => sendJson('POST', '/api/admin/coupons', {
+      code,
+      discountType,
+      // Flat discounts are typed in major units and stored in the smallest one
+      discountValue: discountType === 'flat' ? Math.round(Number(discountValue) * 100) : Number(discountValue),
+      currency,
+      maxRedemptions: maxRedemptions ? Number(maxRedemptions) : null,
+      expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+    }), 'Coupon created');
+    if (done) {
+      setCode('');
+      setDiscountValue('');
+      setMaxRedemptions('');
+      setExpiresAt('');
+    }
+  };
+
+  const setActive = (coupon: Coupon, active: boolean) => runAction(
+    () => sendJson('PATCH', `/api/admin/coupons/${coupon.id}`, { active }),
+    active ? `${coupon.code} activated` : `${coupon.code} deactivated`
+  );
+
+  const describeDiscount = (coupon: Coupon) => coupon.discountType === 'percentage'
+    ? `${coupon.discountValue}%`
+    : formatPrice(coupon.discountValue, coupon.currency);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900">Coupons</h2>
+
+      {canEdit && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <p className="font-medium text-gray-900">New coupon</p>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <div>
+              <Label htmlFor="coupon-code">Code</Label>
+              <Input id="coupon-code" value={code} onChange={e => setCode(e.target.value.toUpperCase())} />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={discountType} onValueChange={value => setDiscountType(value as CouponDiscountType)}>
+                <SelectTrigger aria-label="Discount type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="flat">Flat</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="coupon-value">{discountType === 'percentage' ? 'Percent off' : 'Amount off'}</Label>
+              <Input
+                id="coupon-value"
+                type="number"
+                step={discountType === 'flat' ? '0.01' : '1'}
+                value={discountValue}
+                onChange={e => setDiscountValue(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="coupon-currency">Currency</Label>
+              <Input
+                id="coupon-currency"
+                value={currency}
+                maxLength={3}
+                onChange={e => setCurrency(e.target.value.toUpperCase())}
+                disabled={discountType === 'percentage'}
+              />
+            </div>
+            <div>
+              <Label htmlFor="coupon-limit">Uses</Label>
+              <Input
+                id="coupon-limit"
+                type="number"
+                value={maxRedemptions}
+                onChange={e => setMaxRedemptions(e.target.value)}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <Label htmlFor="coupon-expiry">Expires</Label>
+              <Input id="coupon-expiry" type="date" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={createCoupon}
+              disabled={isSaving || code.trim().length < 3 || !(Number(discountValue) > 0)}
+            >
+              Create
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead>Discount</TableHead>
+            <TableHead>Plans</TableHead>
+            <TableHead>Used</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Active</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {coupons?.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="text-gray-500">No coupons</TableCell>
+            </TableRow>
+          )}
+          {coupons?.map(coupon => (
+            <TableRow key={coupon.id}>
+              <TableCell className="font-medium">{coupon.code}</TableCell>
+              <TableCell>{describeDiscount(coupon)}</TableCell>
+              <TableCell>{coupon.planCodes?.join(', ') ?? 'All'}</TableCell>
+              <TableCell>
+                {coupon.redemptionCount}{coupon.maxRedemptions !== null && ` / ${coupon.maxRedemptions}`}
+              </TableCell>
+              <TableCell>{coupon.expiresAt ? formatDate(coupon.expiresAt) : '—'}</TableCell>
+              <TableCell>
+                <Switch
+                  checked={coupon.active}
+                  onCheckedChange={active => setActive(coupon, active)}
+                  disabled={!canEdit || isSaving}
+                  aria-label={`${coupon.code} active`}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default AdminCoupons;
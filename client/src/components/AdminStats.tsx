@@ -0,0 +1,128 @@
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatPrice } from '@/utils/payment';
+import type { DailyRevenue, DailyUsage } from '@shared/schema';
+
+interface AdminStatsResponse {
+  since: string;
+  days: number;
+  usage: DailyUsage[];
+  revenue: DailyRevenue[];
+}
+
+const usageConfig = {
+  assignments: { label: 'Assignments', color: '#238F51' },
+} satisfies ChartConfig;
+
+const currencyColors = ['#6D28D9', '#2563EB', '#D97706', '#DC2626'];
+
+/**
+ * List every day in the range so quiet days show as zero rather than disappearing
+ * @param since First day, as an ISO timestamp
+ * @param days Number of days
+ */
+const dateRange = (since: string, days: number): string[] => {
+  const start = new Date(since);
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + index);
+    return date.toISOString().slice(0, 10);
+  });
+};
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const AdminStats: React.FC = () => {
+  const { data: stats, isLoading } = useQuery<AdminStatsResponse>({
+    queryKey: ['/api/admin/stats?days=30'],
+  });
+
+  if (isLoading || !stats) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="h-72 bg-gray-100 rounded-lg animate-pulse" />
+        <div className="h-72 bg-gray-100 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  const dates = dateRange(stats.since, stats.days);
+  const currencies = Array.from(new Set(stats.revenue.map(row => row.currency)));
+
+  const usageData = dates.map(date => ({
+    date,
+    assignments: stats.usage.find(row => row.date === date)?.assignments ?? 0,
+  }));
+
+  // One bar series per currency, in major units
+  const revenueData = dates.map(date => {
+    const row: Record<string, string | number> = { date };
+    for (const currency of currencies) {
+      const amount = stats.revenue.find(item => item.date === date && item.currency === currency)?.amount ?? 0;
+      row[currency] = amount / 100;
+    }
+    return row;
+  });
+
+  const revenueConfig: ChartConfig = Object.fromEntries(
+    currencies.map((currency, index) => [currency, { label: currency, color: currencyColors[index % currencyColors.length] }])
+  );
+
+  const totalAssignments = stats.usage.reduce((sum, row) => sum + row.assignments, 0);
+  const revenueTotals = currencies.map(currency => ({
+    currency,
+    amount: stats.revenue.filter(row => row.currency === currency).reduce((sum, row) => sum + row.amount, 0),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage</CardTitle>
+          <CardDescription>{totalAssignments} assignments in the last {stats.days} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={usageConfig} className="h-56 w-full">
+            <BarChart data={usageData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+              <Bar dataKey="assignments" fill="var(--color-assignments)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue</CardTitle>
+          <CardDescription>
+            {revenueTotals.length === 0
+              ? `No payments in the last ${stats.days} days`
+              : revenueTotals.map(total => formatPrice(total.amount, total.currency)).join(' + ') + ` net of refunds`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={revenueConfig} className="h-56 w-full">
+            <BarChart data={revenueData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+              {currencies.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+              {currencies.map(currency => (
+                <Bar key={currency} dataKey={currency} stackId="revenue" fill={`var(--color-${currency})`} radius={2} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminStats;
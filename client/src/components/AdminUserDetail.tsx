@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/utils/payment';
+import { sendJson } from '@/utils/api';
+import { userRoles, type AssignmentHistory, type SubscriptionPayment, type UserRole } from '@shared/schema';
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  email: string;
+  role: UserRole;
+  freeAttempts: number;
+  subscriptionStatus: 'free' | 'active' | 'expired' | null;
+  subscriptionExpiresAt: string | null;
+  referralCode: string | null;
+  emailVerified: boolean;
+  deletedAt: string | null;
+}
+
+interface AdminUserDetailProps {
+  userId: number;
+  canEdit: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const AdminUserDetail: React.FC<AdminUserDetailProps> = ({ userId, canEdit }) => {
+  const { toast } = useToast();
+  const [role, setRole] = useState<UserRole>('user');
+  const [subscriptionStatus, setSubscriptionStatus] = useState<'free' | 'active' | 'expired'>('free');
+  const [subscriptionExpiresAt, setSubscriptionExpiresAt] = useState('');
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditReason, setCreditReason] = useState('');
+  const [refundPayment, setRefundPayment] = useState<SubscriptionPayment | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: user } = useQuery<AdminUser>({ queryKey: [`/api/admin/users/${userId}`] });
+  const { data: assignments } = useQuery<AssignmentHistory[]>({
+    queryKey: [`/api/admin/users/${userId}/assignments`],
+  });
+  const { data: payments } = useQuery<SubscriptionPayment[]>({
+    queryKey: [`/api/admin/users/${userId}/payments`],
+  });
+
+  useEffect(() => {
+    if (user) {
+      setRole(user.role);
+      setSubscriptionStatus(user.subscriptionStatus ?? 'free');
+      setSubscriptionExpiresAt(user.subscriptionExpiresAt ? user.subscriptionExpiresAt.slice(0, 10) : '');
+    }
+  }, [user]);
+
+  // Run an admin action, then refresh everything it may have changed
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith('/api/admin/users')
+      });
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Action failed",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveAccount = () => runAction(() => sendJson('PATCH', `/api/admin/users/${userId}`, {
+    role,
+    subscriptionStatus,
+    subscriptionExpiresAt: subscriptionExpiresAt ? new Date(`${subscriptionExpiresAt}T23:59:59`).toISOString() : null,
+  }), 'Account updated');
+
+  const adjustCredits = async () => {
+    const done = await runAction(() => sendJson('POST', `/api/admin/users/${userId}/credits`, {
+      amount: Number(creditAmount),
+      reason: creditReason,
+    }), 'Attempts adjusted');
+    if (done) {
+      setCreditAmount('');
+      setCreditReason('');
+    }
+  };
+
+  const openRefund = (payment: SubscriptionPayment) => {
+    setRefundPayment(payment);
+    setRefundAmount(((payment.amount - payment.refundedAmount) / 100).toFixed(2));
+    setRefundReason('');
+  };
+
+  const submitRefund = async () => {
+    if (!refundPayment) return;
+    const done = await runAction(() => sendJson('POST', `/api/admin/payments/${refundPayment.id}/refund`, {
+      amount: Math.round(Number(refundAmount) * 100),
+      reason: refundReason,
+    }), 'Payment refunded');
+    if (done) setRefundPayment(null);
+  };
+
+  if (!user) {
+    return <div className="h-40 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">{user.username}</h3>
+        <p className="text-sm text-gray-500">
+          {user.email}{!user.emailVerified && ' (unverified)'} · {user.role} · {user.freeAttempts} attempts · {user.subscriptionStatus ?? 'free'}
+          {user.subscriptionExpiresAt && ` until ${formatDate(user.subscriptionExpiresAt)}`}
+        </p>
+        {user.deletedAt && (
+          <p className="text-sm text-red-600">Deleted by its owner on {formatDate(user.deletedAt)}</p>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <p className="font-medium text-gray-900">Role and subscription</p>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label>Role</Label>
+                <Select value={role} onValueChange={value => setRole(value as UserRole)}>
+                  <SelectTrigger aria-label="Role"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {userRoles.map(value => (
+                      <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Subscription</Label>
+                <Select value={subscriptionStatus} onValueChange={value => setSubscriptionStatus(value as typeof subscriptionStatus)}>
+                  <SelectTrigger aria-label="Subscription status"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="free">Free</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="admin-expiry">Expires</Label>
+                <Input
+                  id="admin-expiry"
+                  type="date"
+                  value={subscriptionExpiresAt}
+                  onChange={e => setSubscriptionExpiresAt(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={saveAccount} disabled={isSaving}>Save</Button>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <p className="font-medium text-gray-900">Adjust attempts</p>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="admin-credits">Amount</Label>
+                <Input
+                  id="admin-credits"
+                  type="number"
+                  value={creditAmount}
+                  onChange={e => setCreditAmount(e.target.value)}
+                  placeholder="e.g. 5 or -2"
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="admin-credit-reason">Reason</Label>
+                <Input
+                  id="admin-credit-reason"
+                  value={creditReason}
+                  onChange={e => setCreditReason(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={adjustCredits}
+                disabled={isSaving || !Number(creditAmount) || !creditReason.trim()}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="font-medium text-gray-900 mb-2">Payments</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Refunded</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Provider</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 7 : 6} className="text-gray-500">No payments</TableCell>
+              </TableRow>
+            )}
+            {payments?.map(payment => (
+              <TableRow key={payment.id}>
+                <TableCell>{formatDate(payment.timestamp)}</TableCell>
+                <TableCell>{payment.planType}{payment.couponCode && ` (${payment.couponCode})`}</TableCell>
+                <TableCell>{formatPrice(payment.amount, payment.currency)}</TableCell>
+                <TableCell>{payment.refundedAmount ? formatPrice(payment.refundedAmount, payment.currency) : '—'}</TableCell>
+                <TableCell className="capitalize">{payment.status}</TableCell>
+                <TableCell>{payment.provider}</TableCell>
+                {canEdit && (
+                  <TableCell className="text-right">
+                    {payment.status === 'completed' && payment.refundedAmount < payment.amount && (
+                      <Button size="sm" variant="outline" onClick={() => openRefund(payment)}>Refund</Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <p className="font-medium text-gray-900 mb-2">Assignments</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Attempts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {assignments?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-gray-500">No assignments</TableCell>
+              </TableRow>
+            )}
+            {assignments?.map(assignment => (
+              <TableRow key={assignment.id}>
+                <TableCell>{formatDate(assignment.timestamp)}</TableCell>
+                <TableCell className="max-w-xs truncate">{assignment.fileName}</TableCell>
+                <TableCell>{assignment.subject ?? '—'}</TableCell>
+                <TableCell>{assignment.attemptCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={refundPayment !== null} onOpenChange={open => !open && setRefundPayment(null)}>
+        <DialogContent>
+          <DialogTitle>Refund payment</DialogTitle>
+          <DialogDescription>
+            The user loses the matching share of the attempts or subscription days they bought.
+          </DialogDescription>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="refund-amount">Amount ({refundPayment?.currency})</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                value={refundAmount}
+                onChange={e => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Input
+                id="refund-reason"
+                value={refundReason}
+                onChange={e => setRefundReason(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRefundPayment(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                onClick={submitRefund}
+                disabled={isSaving || !(Number(refundAmount) > 0) || !refundReason.trim()}
+              >
+                Refund
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminUserDetail;
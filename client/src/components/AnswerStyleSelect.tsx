@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { answerStyles, type AnswerStyle } from '@shared/schema';
+
+interface AnswerStyleSelectProps {
+  value: AnswerStyle;
+  onChange: (value: AnswerStyle) => void;
+  disabled?: boolean;
+}
+
+export const answerStyleLabels: Record<AnswerStyle, string> = {
+  'hints': 'Hints only',
+  'step-by-step': 'Step-by-step',
+  'final-answer': 'Final answer',
+  'exam': 'Exam-style',
+};
+
+const AnswerStyleSelect: React.FC<AnswerStyleSelectProps> = ({ value, onChange, disabled }) => {
+  return (
+    <Select value={value} onValueChange={style => onChange(style as AnswerStyle)} disabled={disabled}>
+      <SelectTrigger className="w-[160px]" aria-label="Answer style">
+        <SelectValue placeholder="Answer style" />
+      </SelectTrigger>
+      <SelectContent>
+        {answerStyles.map(style => (
+          <SelectItem key={style} value={style}>{answerStyleLabels[style]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AnswerStyleSelect;
@@ -1,18 +1,23 @@
 import { useEffect, useState } from 'react';
-import { Eye, Download, Calendar, FileText, Clock } from 'lucide-react';
+import { Link } from 'wouter';
+import { Eye, Download, Calendar, FileText, Clock, ExternalLink } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 
 export interface Assignment {
   id: string;
   fileName: string;
+  title: string | null;
+  tags: string[];
   processedDate: string;
   fileUrl: string;
   processedOutputUrl: string;
   question?: string;
   solution?: string;
   extractedText?: string;
+  attemptCount?: number;
 }
 
 interface AssignmentHistoryProps {
@@ -100,7 +105,7 @@ const AssignmentHistory: React.FC<AssignmentHistoryProps> = ({
             <FileText className="h-5 w-5 text-primary-green" />
           </div>
           <div>
-            <h4 className="font-medium text-gray-900 mb-1 line-clamp-1">{assignment.fileName}</h4>
+            <h4 className="font-medium text-gray-900 mb-1 line-clamp-1">{assignment.title || assignment.fileName}</h4>
             <p className="text-sm text-gray-500 flex items-center">
               <Clock className="h-3.5 w-3.5 mr-1 inline" />
               {new Date(assignment.processedDate).toLocaleDateString('en-US', {
@@ -111,6 +116,13 @@ const AssignmentHistory: React.FC<AssignmentHistoryProps> = ({
                 minute: '2-digit'
               })}
             </p>
+            {assignment.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {assignment.tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                ))}
+              </div>
+            )}
           </div>
         </div>
         <div className="flex space-x-1">
@@ -121,6 +133,14 @@ const AssignmentHistory: React.FC<AssignmentHistoryProps> = ({
           >
             <Eye className="h-5 w-5" />
           </button>
+          <Link href={`/assignments/${assignment.id}`}>
+            <a
+              className="p-2 text-gray-600 hover:text-accent-purple rounded-md hover:bg-accent-purple/5 transition-all-smooth"
+              title="Open assignment page"
+            >
+              <ExternalLink className="h-5 w-5" />
+            </a>
+          </Link>
           <button 
             className="p-2 text-gray-600 hover:text-primary-green rounded-md hover:bg-primary-green/5 transition-all-smooth"
             onClick={() => downloadPdf(assignment)}
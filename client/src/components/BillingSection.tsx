@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Download, Receipt } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/utils/payment';
+import type { Plan } from '@shared/schema';
+
+interface BillingDetails {
+  billingName: string;
+  billingAddress: string | null;
+  gstin: string | null;
+}
+
+interface BillingPayment {
+  id: number;
+  planType: string;
+  amount: number;
+  discount: number;
+  currency: string;
+  couponCode: string | null;
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  timestamp: string;
+  invoiceNumber: string | null;
+  invoiceAvailable: boolean;
+}
+
+const statusStyles: Record<BillingPayment['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-200 text-gray-700',
+};
+
+const BillingSection: React.FC = () => {
+  const [billingName, setBillingName] = useState('');
+  const [billingAddress, setBillingAddress] = useState('');
+  const [gstin, setGstin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: details } = useQuery<BillingDetails>({
+    queryKey: ['/api/billing-details'],
+  });
+
+  const { data: payments, isLoading: isLoadingPayments } = useQuery<BillingPayment[]>({
+    queryKey: ['/api/payments'],
+  });
+
+  const { data: plans } = useQuery<Plan[]>({
+    queryKey: ['/api/plans'],
+  });
+
+  useEffect(() => {
+    if (details) {
+      setBillingName(details.billingName);
+      setBillingAddress(details.billingAddress ?? '');
+      setGstin(details.gstin ?? '');
+    }
+  }, [details]);
+
+  const planName = (code: string) => plans?.find(plan => plan.code === code)?.name ?? code;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/billing-details', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ billingName, billingAddress, gstin }),
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Could not save billing details');
+      }
+
+      queryClient.setQueryData(['/api/billing-details'], data);
+      toast({
+        title: "Billing details saved",
+        description: "They will appear on your future invoices",
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save billing details',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSave} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="billing-name">Billing name</Label>
+            <Input
+              id="billing-name"
+              value={billingName}
+              onChange={(e) => setBillingName(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="billing-gstin">GSTIN (optional)</Label>
+            <Input
+              id="billing-gstin"
+              value={gstin}
+              onChange={(e) => setGstin(e.target.value.toUpperCase())}
+              maxLength={15}
+              placeholder="For business purchases"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="billing-address">Billing address (optional)</Label>
+          <Input
+            id="billing-address"
+            value={billingAddress}
+            onChange={(e) => setBillingAddress(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isSaving || !billingName.trim()}>
+            {isSaving ? 'Saving...' : 'Save billing details'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        {isLoadingPayments ? (
+          <div className="h-16 bg-gray-100 animate-pulse" />
+        ) : !payments || payments.length === 0 ? (
+          <div className="flex items-center gap-3 p-4 text-sm text-gray-500">
+            <Receipt className="h-5 w-5" />
+            No payments yet
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">Date</th>
+                <th className="px-4 py-2 font-medium">Plan</th>
+                <th className="px-4 py-2 font-medium">Amount</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium text-right">Invoice</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {payments.map(payment => (
+                <tr key={payment.id}>
+                  <td className="px-4 py-2 text-gray-700">
+                    {new Date(payment.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">
+                    {planName(payment.planType)}
+                    {payment.couponCode && (
+                      <span className="block text-xs text-gray-500">Coupon {payment.couponCode}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">{formatPrice(payment.amount, payment.currency)}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[payment.status]}`}>
+                      {payment.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {payment.invoiceAvailable ? (
+                      <a
+                        href={`/api/payments/${payment.id}/invoice`}
+                        className="inline-flex items-center gap-1 text-accent-purple hover:underline"
+                        download
+                      >
+                        <Download size={14} />
+                        {payment.invoiceNumber ?? 'Download'}
+                      </a>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BillingSection;
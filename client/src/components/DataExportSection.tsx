@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Download, FileArchive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { sendJson } from '@/utils/api';
+import { waitForJob } from '@/utils/jobs';
+
+interface DataExport {
+  downloadUrl: string;
+  fileName: string;
+  size: number;
+  expiresAt: string;
+}
+
+type ExportState =
+  | { status: 'idle' }
+  | { status: 'building'; progress: number; message: string | null }
+  | { status: 'ready'; export: DataExport };
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const DataExportSection: React.FC = () => {
+  const [state, setState] = useState<ExportState>({ status: 'idle' });
+  const { toast } = useToast();
+
+  const requestExport = async () => {
+    setState({ status: 'building', progress: 0, message: null });
+    try {
+      const { jobId } = await sendJson<{ message: string; jobId: string }>('POST', '/api/user/export');
+      const result = await waitForJob<DataExport>(jobId, job => {
+        setState({ status: 'building', progress: job.progress, message: job.message });
+      });
+      setState({ status: 'ready', export: result });
+    } catch (error) {
+      setState({ status: 'idle' });
+      toast({
+        title: "Could not export your data",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <FileArchive className="h-5 w-5 text-gray-500 shrink-0 mt-0.5" />
+        <p className="text-sm text-gray-600">
+          Download a ZIP with your profile, assignments and solutions, the files you uploaded and your payment records.
+        </p>
+      </div>
+
+      {state.status === 'building' && (
+        <div className="space-y-1">
+          <Progress value={state.progress} />
+          <p className="text-xs text-gray-500">{state.message ?? 'Preparing your export...'}</p>
+        </div>
+      )}
+
+      {state.status === 'ready' && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            {state.export.fileName} ({formatSize(state.export.size)}), available until{' '}
+            {new Date(state.export.expiresAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+          </p>
+          <Button size="sm" asChild>
+            <a href={state.export.downloadUrl} download={state.export.fileName}>
+              <Download className="h-4 w-4 mr-1" />
+              Download
+            </a>
+          </Button>
+        </div>
+      )}
+
+      {state.status !== 'ready' && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={requestExport} disabled={state.status === 'building'}>
+            {state.status === 'building' ? 'Preparing...' : 'Export my data'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataExportSection;
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Monitor, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { sendJson } from '@/utils/api';
+
+interface DeviceSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * Name the browser and operating system in a user agent string
+ * @param userAgent User agent sent by the device
+ * @returns A short description such as "Chrome on Windows"
+ */
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Browser';
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'unknown system';
+
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const DevicesSection: React.FC = () => {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [pendingId, setPendingId] = useState<number | 'all' | null>(null);
+
+  const { data: devices, isLoading } = useQuery<DeviceSession[]>({
+    queryKey: ['/api/sessions'],
+  });
+
+  const revoke = async (id: number) => {
+    setPendingId(id);
+    try {
+      const { message } = await sendJson('DELETE', `/api/sessions/${id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({ title: message });
+    } catch (error) {
+      toast({
+        title: "Could not sign out device",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const revokeAll = async () => {
+    setPendingId('all');
+    try {
+      await sendJson('DELETE', '/api/sessions');
+      queryClient.setQueryData(['/api/user'], null);
+      setLocation('/login');
+      toast({
+        title: "Signed out everywhere",
+        description: "Log in again to continue on this device"
+      });
+    } catch (error) {
+      toast({
+        title: "Could not sign out",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {devices?.map(device => {
+        const Icon = isMobile(device.userAgent) ? Smartphone : Monitor;
+        return (
+          <div key={device.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="flex items-center gap-3">
+              <Icon className="h-5 w-5 text-gray-500 shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">
+                  {describeDevice(device.userAgent)}
+                  {device.current && <span className="ml-2 text-xs text-primary-green font-medium">This device</span>}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {device.ipAddress ?? 'Unknown location'} · Last active {formatTime(device.lastSeenAt)}
+                </p>
+              </div>
+            </div>
+            {!device.current && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revoke(device.id)}
+                disabled={pendingId !== null}
+              >
+                {pendingId === device.id ? 'Signing out...' : 'Sign out'}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end p-4 bg-gray-50">
+        <Button size="sm" variant="destructive" onClick={revokeAll} disabled={pendingId !== null}>
+          {pendingId === 'all' ? 'Signing out...' : 'Sign out everywhere'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DevicesSection;
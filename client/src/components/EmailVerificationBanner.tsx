@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { sendJson } from '@/utils/api';
+
+interface EmailVerificationBannerProps {
+  email: string;
+}
+
+const EmailVerificationBanner: React.FC<EmailVerificationBannerProps> = ({ email }) => {
+  const { toast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      const { message } = await sendJson('POST', '/api/auth/resend-verification');
+      toast({
+        title: message,
+        description: `Check ${email} for the link`
+      });
+    } catch (error) {
+      toast({
+        title: "Could not send email",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+      <div className="flex items-center gap-3">
+        <MailWarning className="h-5 w-5 text-amber-600 shrink-0" />
+        <p className="text-sm text-amber-800">
+          Please verify your email address. We sent a link to <span className="font-medium">{email}</span>.
+        </p>
+      </div>
+      <Button size="sm" variant="outline" onClick={resend} disabled={isSending}>
+        {isSending ? 'Sending...' : 'Resend email'}
+      </Button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
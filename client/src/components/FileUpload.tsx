@@ -5,6 +5,13 @@ import { Progress } from '@/components/ui/progress';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { getFileTypeName, isValidFileType, formatFileSize } from '@/utils/fileProcessing';
+import { waitForJob } from '@/utils/jobs';
+
+interface UploadResult {
+  fileUrl: string;
+  extractedText: string;
+  fileName: string;
+}
 
 interface FileUploadProps {
   onFileUploaded: (fileUrl: string, text: string) => void;
@@ -13,6 +20,7 @@ interface FileUploadProps {
 const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
   const [fileSize, setFileSize] = useState<number | null>(null);
   const [fileType, setFileType] = useState<string | null>(null);
@@ -66,19 +74,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
     formData.append('file', file);
     
     try {
-      // Simulate realistic progress with acceleration at the beginning and slowing at the end
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev < 30) {
-            return prev + Math.random() * 15; // Faster at start
-          } else if (prev < 70) {
-            return prev + Math.random() * 10; // Medium speed
-          } else if (prev < 90) {
-            return prev + Math.random() * 5; // Slower near end
-          }
-          return prev; // Hold at 90% until actual completion
-        });
-      }, 300);
+      setProgressMessage('Uploading file');
       
       // Upload the file to server
       const response = await fetch('/api/upload', {
@@ -87,17 +83,21 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
         credentials: 'include',
       });
       
-      clearInterval(progressInterval);
-      
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Failed to upload file');
       }
       
+      // Text extraction runs as a background job on the server
+      const { jobId } = await response.json();
+      const data = await waitForJob<UploadResult>(jobId, job => {
+        setUploadProgress(job.progress);
+        if (job.message) setProgressMessage(job.message);
+      });
+      
       setUploadProgress(100);
       setUploadStatus('success');
       
-      const data = await response.json();
       onFileUploaded(data.fileUrl, data.extractedText);
       
       toast({
@@ -196,7 +196,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
       {(uploading || uploadProgress > 0) && (
         <div className="mt-4 animate-slide-up">
           <div className="flex justify-between text-sm text-gray-600 mb-1">
-            <span>{uploading ? "Uploading file..." : "Upload complete"}</span>
+            <span>{uploading ? `${progressMessage || "Uploading file"}...` : "Upload complete"}</span>
             <span>{Math.round(uploadProgress)}%</span>
           </div>
           <div className="progress-container">
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { FcGoogle } from 'react-icons/fc';
+import { Button } from '@/components/ui/button';
+
+interface AuthProviders {
+  google: boolean;
+}
+
+interface GoogleSignInButtonProps {
+  label: string;
+}
+
+const GoogleSignInButton: React.FC<GoogleSignInButtonProps> = ({ label }) => {
+  const { data: providers } = useQuery<AuthProviders>({
+    queryKey: ['/api/auth/providers'],
+  });
+
+  // Hidden until the server confirms Google sign-in is configured
+  if (!providers?.google) return null;
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" asChild>
+        <a href="/api/auth/google">
+          <FcGoogle className="h-5 w-5 mr-2" />
+          {label}
+        </a>
+      </Button>
+
+      <div className="flex items-center gap-3 text-xs uppercase text-gray-400">
+        <div className="h-px flex-1 bg-gray-200" />
+        or
+        <div className="h-px flex-1 bg-gray-200" />
+      </div>
+    </>
+  );
+};
+
+export default GoogleSignInButton;
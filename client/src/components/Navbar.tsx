@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 
 const Navbar: React.FC = () => {
-  const { isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, logout } = useAuth();
   const [location] = useLocation();
 
   return (
@@ -39,6 +39,11 @@ const Navbar: React.FC = () => {
                 <Link href="/dashboard">
                   <Button variant="ghost">Dashboard</Button>
                 </Link>
+                {(user?.role === 'admin' || user?.role === 'support') && (
+                  <Link href="/admin">
+                    <Button variant="ghost">Admin</Button>
+                  </Link>
+                )}
                 <Button 
                   variant="default" 
                   className="bg-accentBluePurple hover:bg-accentBluePurple/90 text-white"
@@ -0,0 +1,272 @@
+import { useRef, useState } from 'react';
+import { ImagePlus, X, ScrollText, Sigma } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize } from '@/utils/fileProcessing';
+import { waitForJob } from '@/utils/jobs';
+import AnswerStyleSelect from '@/components/AnswerStyleSelect';
+import { subjects, type AnswerStyle, type Subject } from '@shared/schema';
+
+export interface TypedQuestionResult {
+  solution: string;
+  assignmentId: number;
+  extractedText: string;
+}
+
+interface QuestionEditorProps {
+  onSolved: (result: TypedQuestionResult) => void;
+  canSubmit: boolean;
+  onBlocked: () => void;
+}
+
+const subjectLabels: Record<Subject, string> = {
+  general: 'General',
+  math: 'Mathematics',
+  physics: 'Physics',
+  chemistry: 'Chemistry',
+  biology: 'Biology',
+  programming: 'Programming',
+  essay: 'Essay Writing',
+  accounting: 'Accounting',
+};
+
+// LaTeX snippets offered in the toolbar
+const mathSnippets = [
+  { label: 'a/b', title: 'Fraction', latex: '$\\frac{a}{b}$' },
+  { label: '√x', title: 'Square root', latex: '$\\sqrt{x}$' },
+  { label: 'xⁿ', title: 'Power', latex: '$x^{n}$' },
+  { label: 'xᵢ', title: 'Subscript', latex: '$x_{i}$' },
+  { label: '∫', title: 'Integral', latex: '$\\int_{a}^{b} f(x)\\,dx$' },
+  { label: 'Σ', title: 'Sum', latex: '$\\sum_{i=1}^{n} x_i$' },
+  { label: 'lim', title: 'Limit', latex: '$\\lim_{x \\to 0}$' },
+  { label: 'π', title: 'Pi', latex: '$\\pi$' },
+  { label: 'θ', title: 'Theta', latex: '$\\theta$' },
+];
+
+const maxImages = 3;
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ onSolved, canSubmit, onBlocked }) => {
+  const [question, setQuestion] = useState('');
+  const [subject, setSubject] = useState<Subject | 'auto'>('auto');
+  const [answerStyle, setAnswerStyle] = useState<AnswerStyle>('step-by-step');
+  const [images, setImages] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const insertSnippet = (snippet: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      setQuestion(prev => prev + snippet);
+      return;
+    }
+
+    // Insert at the cursor, replacing any selection
+    const { selectionStart, selectionEnd } = textarea;
+    const next = question.slice(0, selectionStart) + snippet + question.slice(selectionEnd);
+    setQuestion(next);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + snippet.length, selectionStart + snippet.length);
+    });
+  };
+
+  const handleImagesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? [])
+      .filter(file => ['image/jpeg', 'image/png'].includes(file.type));
+    event.target.value = '';
+
+    if (images.length + selected.length > maxImages) {
+      toast({
+        title: "Too many images",
+        description: `You can attach up to ${maxImages} images`,
+        variant: "destructive"
+      });
+    }
+
+    setImages(prev => [...prev, ...selected].slice(0, maxImages));
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      onBlocked();
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('question', question);
+    if (subject !== 'auto') formData.append('subject', subject);
+    formData.append('answerStyle', answerStyle);
+    images.forEach(image => formData.append('images', image));
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/process/typed', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to submit question');
+      }
+
+      // The question is solved by a background job on the server
+      const { jobId } = await response.json();
+      const result = await waitForJob<TypedQuestionResult>(jobId, job => {
+        setProgressMessage(job.message);
+      });
+
+      onSolved(result);
+      setImages([]);
+
+      toast({
+        title: "Solution generated",
+        description: "Your question has been solved successfully",
+      });
+    } catch (error) {
+      console.error('Typed question error:', error);
+      toast({
+        title: "Processing failed",
+        description: error instanceof Error ? error.message : "Failed to process question",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+      setProgressMessage(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Type Your Question</h3>
+        <div className="flex flex-wrap gap-2">
+          <Select value={subject} onValueChange={value => setSubject(value as Subject | 'auto')}>
+            <SelectTrigger className="w-[180px]" aria-label="Subject">
+              <SelectValue placeholder="Subject" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect subject</SelectItem>
+              {subjects.map(value => (
+                <SelectItem key={value} value={value}>{subjectLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AnswerStyleSelect value={answerStyle} onChange={setAnswerStyle} disabled={isSubmitting} />
+        </div>
+      </div>
+
+      <Tabs defaultValue="write">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <TabsList>
+            <TabsTrigger value="write">Write</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <div className="flex flex-wrap items-center gap-1">
+            <Sigma className="h-4 w-4 text-gray-400 mr-1" />
+            {mathSnippets.map(snippet => (
+              <button
+                key={snippet.title}
+                type="button"
+                onClick={() => insertSnippet(snippet.latex)}
+                className="px-2 py-1 text-xs rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700 transition-all-smooth"
+                title={`Insert ${snippet.title.toLowerCase()}`}
+              >
+                {snippet.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <TabsContent value="write" className="mt-0">
+          <textarea
+            ref={textareaRef}
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Type your question here. Use $...$ for inline math, e.g. $x^2 + 3x - 4 = 0$"
+            className="w-full min-h-[200px] p-4 font-mono text-sm border border-gray-300 rounded-lg focus:ring-primary-green focus:border-primary-green transition-all-smooth"
+            style={{ resize: 'vertical', lineHeight: '1.5' }}
+          />
+        </TabsContent>
+
+        <TabsContent value="preview" className="mt-0">
+          <div className="min-h-[200px] p-4 border border-gray-200 rounded-lg bg-gray-50 prose prose-sm max-w-none">
+            {question.trim() ? (
+              <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                {question}
+              </ReactMarkdown>
+            ) : (
+              <p className="text-gray-400">Nothing to preview yet</p>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <div className="mt-4 space-y-2">
+        {images.map((image, index) => (
+          <div key={`${image.name}-${index}`} className="flex items-center justify-between border rounded-md px-3 py-2 bg-gray-50 text-sm">
+            <span className="truncate text-gray-700">{image.name} · {formatFileSize(image.size)}</span>
+            <button
+              type="button"
+              onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+              className="text-gray-500 hover:text-red-600"
+              aria-label={`Remove ${image.name}`}
+              disabled={isSubmitting}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/png,image/jpeg"
+          multiple
+          className="hidden"
+          onChange={handleImagesSelected}
+        />
+        <button
+          type="button"
+          onClick={() => imageInputRef.current?.click()}
+          disabled={isSubmitting || images.length >= maxImages}
+          className="text-sm text-accent-purple hover:underline disabled:text-gray-400 disabled:no-underline flex items-center"
+        >
+          <ImagePlus className="h-4 w-4 mr-1" />
+          Attach image ({images.length}/{maxImages})
+        </button>
+      </div>
+
+      <button
+        onClick={handleSubmit}
+        disabled={question.trim().length < 5 || isSubmitting}
+        className="mt-4 w-full py-2.5 bg-primary-green text-white rounded-md font-medium transition-all-smooth hover:bg-primary-green/90 disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? (
+          <span className="flex items-center justify-center">
+            <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
+            {progressMessage || 'Processing'}...
+          </span>
+        ) : (
+          <span className="flex items-center justify-center">
+            <ScrollText className="h-5 w-5 mr-2" />
+            Solve Question
+          </span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default QuestionEditor;
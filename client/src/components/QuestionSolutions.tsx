@@ -0,0 +1,115 @@
+import { RefreshCw, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import type { AssignmentQuestion, QuestionStatus } from '@shared/schema';
+
+interface QuestionSolutionsProps {
+  questions: AssignmentQuestion[];
+  onRegenerate: (index: number) => void;
+  regeneratingIndex: number | null;
+  canRegenerate: boolean;
+}
+
+const statusLabels: Record<QuestionStatus, string> = {
+  pending: 'Queued',
+  solving: 'Solving',
+  solved: 'Solved',
+  failed: 'Failed',
+};
+
+const StatusBadge: React.FC<{ status: QuestionStatus }> = ({ status }) => {
+  const className = {
+    pending: 'bg-gray-100 text-gray-600',
+    solving: 'bg-accent-purple/10 text-accent-purple',
+    solved: 'bg-primary-green/10 text-primary-green',
+    failed: 'bg-red-100 text-red-600',
+  }[status];
+
+  return (
+    <Badge variant="outline" className={`border-0 ${className}`}>
+      {status === 'solving' && (
+        <div className="animate-spin mr-1 h-3 w-3 border-2 border-accent-purple border-t-transparent rounded-full" />
+      )}
+      {status === 'pending' && <Clock className="h-3 w-3 mr-1" />}
+      {status === 'solved' && <CheckCircle2 className="h-3 w-3 mr-1" />}
+      {status === 'failed' && <AlertCircle className="h-3 w-3 mr-1" />}
+      {statusLabels[status]}
+    </Badge>
+  );
+};
+
+const QuestionSolutions: React.FC<QuestionSolutionsProps> = ({
+  questions,
+  onRegenerate,
+  regeneratingIndex,
+  canRegenerate
+}) => {
+  return (
+    <Accordion type="multiple" defaultValue={questions.map((_, index) => `question-${index}`)} className="mb-4 space-y-2">
+      {questions.map((question, index) => (
+        <AccordionItem
+          key={index}
+          value={`question-${index}`}
+          className="border border-gray-200 rounded-lg overflow-hidden"
+        >
+          <AccordionTrigger className="py-3 px-4 bg-gray-50 hover:bg-gray-100">
+            <div className="flex items-center justify-between flex-1 mr-2 gap-2 text-left">
+              <span className="text-sm font-medium line-clamp-1">
+                Q{question.number}. {question.text}
+              </span>
+              <StatusBadge status={regeneratingIndex === index ? 'solving' : question.status} />
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="px-4 py-3 bg-white border-t border-gray-200">
+            <div className="text-sm text-gray-700 space-y-3">
+              {(question.subParts.length > 0 || question.options.length > 0) && (
+                <ul className="space-y-1 text-gray-600">
+                  {question.subParts.map(part => (
+                    <li key={`part-${part.label}`}>({part.label}) {part.text}</li>
+                  ))}
+                  {question.options.map(option => (
+                    <li key={`option-${option.label}`}>{option.label}. {option.text}</li>
+                  ))}
+                </ul>
+              )}
+
+              {question.solution && (
+                <div className="p-3 bg-primary-green/5 border border-primary-green/20 rounded-lg prose prose-sm max-w-none">
+                  <ReactMarkdown>
+                    {question.solution}
+                  </ReactMarkdown>
+                </div>
+              )}
+
+              {question.status === 'failed' && question.error && (
+                <div className="error-message text-sm">
+                  <AlertCircle className="h-4 w-4 inline-block mr-1" />
+                  {question.error}
+                </div>
+              )}
+
+              {(question.status === 'solved' || question.status === 'failed') && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-accent-purple text-accent-purple hover:bg-accent-purple/10"
+                    onClick={() => onRegenerate(index)}
+                    disabled={!canRegenerate || regeneratingIndex !== null}
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-2 ${regeneratingIndex === index ? 'animate-spin' : ''}`} />
+                    Regenerate
+                  </Button>
+                </div>
+              )}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+};
+
+export default QuestionSolutions;
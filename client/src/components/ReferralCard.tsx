@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Copy, Check, Gift } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReferralSummary {
+  code: string;
+  referred: number;
+  rewarded: number;
+  bonusAttempts: number;
+}
+
+const ReferralCard: React.FC = () => {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const { data: referral, isLoading } = useQuery<ReferralSummary>({
+    queryKey: ['/api/referral'],
+  });
+
+  const inviteLink = referral ? `${window.location.origin}/signup?ref=${referral.code}` : '';
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+      toast({
+        title: "Copied to clipboard",
+        description: "Share the link with your classmates",
+      });
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Clipboard error:', error);
+      toast({
+        title: "Copy failed",
+        description: "Could not copy the invite link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start gap-3">
+        <Gift className="h-5 w-5 text-accent-purple mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-gray-900">Invite your classmates</p>
+          <p className="text-sm text-gray-500 mb-3">
+            You both get 5 bonus attempts when they make their first purchase.
+          </p>
+
+          {isLoading || !referral ? (
+            <div className="h-9 bg-gray-200 rounded-md animate-pulse" />
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={inviteLink}
+                  readOnly
+                  className="flex-1 min-w-0 p-2 bg-white border border-gray-300 rounded-md text-sm"
+                  aria-label="Invite link"
+                />
+                <button
+                  onClick={copyInviteLink}
+                  className="px-3 py-1.5 border border-gray-300 bg-white rounded-md text-gray-700 hover:bg-gray-100"
+                  aria-label="Copy invite link"
+                >
+                  {copied ? <Check size={18} /> : <Copy size={18} />}
+                </button>
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                Code <span className="font-mono font-medium text-gray-700">{referral.code}</span>
+                {' · '}{referral.referred} joined · {referral.bonusAttempts} bonus attempts earned
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferralCard;
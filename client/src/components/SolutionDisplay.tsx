@@ -1,32 +1,62 @@
 import React, { useState } from 'react';
-import { Download, RefreshCw, FileText, Share, Copy, Check, FileDown, AlertCircle } from 'lucide-react';
+import { Download, RefreshCw, FileText, Share, Copy, Check, FileDown, AlertCircle, Square, MessageSquare, Send } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import QuestionSolutions from '@/components/QuestionSolutions';
+import type { AssignmentQuestion } from '@shared/schema';
+
+export interface SolutionRevision {
+  id: number;
+  feedback: string;
+  solution: string;
+  timestamp: string;
+}
 
 interface SolutionDisplayProps {
   solution: string | null;
   question: string;
   fileUrl: string | null;
+  assignmentId?: number | null; // the generated PDF is saved with the assignment when set
   attemptCount: number;
   maxAttempts: number;
-  onRefine: () => void;
+  onRefine: (feedback: string) => Promise<void>;
   extractedText?: string; // Add extracted text
+  revisions?: SolutionRevision[];
+  questions?: AssignmentQuestion[];
+  onRegenerateQuestion?: (index: number) => void;
+  regeneratingIndex?: number | null;
+  isRefining?: boolean;
+  isStreaming?: boolean;
+  onCancel?: () => void;
 }
 
 const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
   solution,
   question,
   fileUrl,
+  assignmentId,
   attemptCount,
   maxAttempts,
   onRefine,
-  extractedText
+  extractedText,
+  revisions = [],
+  questions = [],
+  onRegenerateQuestion,
+  regeneratingIndex = null,
+  isRefining = false,
+  isStreaming = false,
+  onCancel
 }) => {
-  const [isLoading, setIsLoading] = useState(false);
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [feedback, setFeedback] = useState('');
   const [isPdfLoading, setIsPdfLoading] = useState(false);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -40,11 +70,17 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
       const response = await apiRequest('POST', '/api/generate-pdf', {
         solution,
         question,
-        fileUrl
+        fileUrl,
+        assignmentId: assignmentId ?? undefined
       });
       
       const data = await response.json();
       setDownloadUrl(data.pdfUrl);
+      if (assignmentId) {
+        queryClient.invalidateQueries({
+          predicate: query => String(query.queryKey[0]).startsWith('/api/assignments')
+        });
+      }
       
       // Trigger download
       const link = document.createElement('a');
@@ -70,6 +106,19 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
     }
   };
 
+  const submitFeedback = async () => {
+    if (!feedback.trim()) return;
+    
+    try {
+      await onRefine(feedback.trim());
+      setFeedback('');
+      setShowFeedback(false);
+    } catch (error) {
+      // Error is already handled by the parent
+      console.error(error);
+    }
+  };
+
   const copyToClipboard = async () => {
     if (!solution) return;
     
@@ -92,7 +141,7 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
   };
 
   // Show placeholder if no solution is available
-  if (!solution) {
+  if (!solution && !isStreaming && questions.length === 0) {
     return (
       <div className="bg-white rounded-xl shadow-md p-6 sticky top-24 animate-fade-in">
         <div className="text-center py-8">
@@ -153,12 +202,64 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
         </div>
       )}
       
-      <div className="p-4 bg-primary-green/5 border border-primary-green/20 rounded-lg mb-4">
-        <div className="text-sm">
-          <p className="font-medium mb-2 text-primary-green">Solution:</p>
-          <div className="whitespace-pre-line text-gray-800 prose prose-sm max-w-none">{solution}</div>
+      {questions.length > 0 ? (
+        <QuestionSolutions
+          questions={questions}
+          onRegenerate={index => onRegenerateQuestion?.(index)}
+          regeneratingIndex={regeneratingIndex}
+          canRegenerate={!!onRegenerateQuestion && attemptCount < maxAttempts}
+        />
+      ) : (
+        <div className="p-4 bg-primary-green/5 border border-primary-green/20 rounded-lg mb-4">
+          <div className="text-sm">
+            <p className="font-medium mb-2 text-primary-green">Solution:</p>
+            <div className="text-gray-800 prose prose-sm max-w-none">
+              <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                {solution || ''}
+              </ReactMarkdown>
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 bg-primary-green/60 animate-pulse align-middle" />
+              )}
+            </div>
+          </div>
         </div>
-      </div>
+      )}
+      
+      {/* Refinement Thread */}
+      {revisions.length > 0 && (
+        <Accordion type="single" collapsible className="mb-4">
+          <AccordionItem value="revisions" className="border border-gray-200 rounded-lg overflow-hidden">
+            <AccordionTrigger className="py-3 px-4 bg-gray-50 hover:bg-gray-100">
+              <div className="flex items-center">
+                <MessageSquare className="mr-2 h-4 w-4 text-gray-500" />
+                <span className="text-sm font-medium">Refinement History ({revisions.length - 1})</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="px-4 py-3 bg-white border-t border-gray-200">
+              <div className="max-h-[400px] overflow-y-auto space-y-4 text-sm text-gray-700">
+                {revisions.map((revision, index) => (
+                  <div key={revision.id} className="space-y-2">
+                    {revision.feedback ? (
+                      <div className="ml-6 p-3 rounded-lg bg-accent-purple/5 border border-accent-purple/20">
+                        <p className="font-medium text-accent-purple mb-1">You asked:</p>
+                        <p className="whitespace-pre-wrap">{revision.feedback}</p>
+                      </div>
+                    ) : (
+                      <p className="font-medium text-gray-900">Original solution</p>
+                    )}
+                    <div className="p-3 rounded-lg bg-gray-50 border border-gray-100 prose prose-sm max-w-none">
+                      <ReactMarkdown>
+                        {revision.solution}
+                      </ReactMarkdown>
+                    </div>
+                    {index < revisions.length - 1 && <Separator />}
+                  </div>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
       
       {/* Extracted Text Display */}
       {extractedText && (
@@ -191,47 +292,84 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({
 
       <Separator className="my-4" />
       
-      <div className="flex flex-wrap gap-3">
-        <Button 
-          className="flex-1 min-w-[140px] bg-primary-green hover:bg-primary-green/90 text-white transition-all"
-          onClick={generatePdf}
-          disabled={isPdfLoading}
-        >
-          {isPdfLoading ? (
-            <>
-              <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
-              Generating...
-            </>
-          ) : (
-            <>
-              <Download className="h-5 w-5 mr-2" />
-              Download PDF
-            </>
-          )}
-        </Button>
-        
+      {isStreaming ? (
         <Button 
           variant="outline" 
-          className="flex-1 min-w-[140px] border-accent-purple text-accent-purple hover:bg-accent-purple/10 transition-all"
-          onClick={onRefine}
-          disabled={attemptCount >= maxAttempts || isLoading || isPdfLoading}
+          className="w-full border-gray-300 text-gray-700 hover:bg-gray-100 transition-all"
+          onClick={onCancel}
         >
-          {isLoading ? (
-            <>
-              <div className="animate-spin mr-2 h-4 w-4 border-2 border-accent-purple border-t-transparent rounded-full" />
-              Refining...
-            </>
-          ) : (
-            <>
-              <RefreshCw className="h-5 w-5 mr-2" />
-              Refine Solution
-              {attemptCount >= maxAttempts && " (None left)"}
-            </>
-          )}
+          <Square className="h-4 w-4 mr-2" />
+          Stop Generating
         </Button>
-      </div>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          <Button 
+            className="flex-1 min-w-[140px] bg-primary-green hover:bg-primary-green/90 text-white transition-all"
+            onClick={generatePdf}
+            disabled={isPdfLoading}
+          >
+            {isPdfLoading ? (
+              <>
+                <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
+                Generating...
+              </>
+            ) : (
+              <>
+                <Download className="h-5 w-5 mr-2" />
+                Download PDF
+              </>
+            )}
+          </Button>
+        
+          <Button 
+            variant="outline" 
+            className="flex-1 min-w-[140px] border-accent-purple text-accent-purple hover:bg-accent-purple/10 transition-all"
+            onClick={() => setShowFeedback(prev => !prev)}
+            disabled={attemptCount >= maxAttempts || isRefining || isPdfLoading}
+          >
+            {isRefining ? (
+              <>
+                <div className="animate-spin mr-2 h-4 w-4 border-2 border-accent-purple border-t-transparent rounded-full" />
+                Refining...
+              </>
+            ) : (
+              <>
+                <RefreshCw className="h-5 w-5 mr-2" />
+                Refine Solution
+                {attemptCount >= maxAttempts && " (None left)"}
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+      
+      {!isStreaming && showFeedback && (
+        <div className="mt-4 space-y-2">
+          <Textarea
+            value={feedback}
+            onChange={e => setFeedback(e.target.value)}
+            placeholder='What should change? e.g. "explain step 3 more" or "use calculus instead"'
+            className="min-h-[80px] text-sm"
+            disabled={isRefining}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowFeedback(false)} disabled={isRefining}>
+              Cancel
+            </Button>
+            <Button 
+              size="sm"
+              className="bg-accent-purple hover:bg-accent-purple/90 text-white"
+              onClick={submitFeedback}
+              disabled={!feedback.trim() || isRefining}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Refine
+            </Button>
+          </div>
+        </div>
+      )}
       
-      {attemptCount >= maxAttempts && (
+      {!isStreaming && attemptCount >= maxAttempts && (
         <div className="mt-3 text-center text-xs text-gray-500">
           You've used all your free refinements. Subscribe to get unlimited access.
         </div>
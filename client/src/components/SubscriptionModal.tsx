@@ -1,11 +1,16 @@
-import { useState } from 'react';
-import { X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { apiRequest } from '@/lib/queryClient';
+import { Input } from '@/components/ui/input';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatPrice, initializeRazorpay, planPeriodLabel, verifyPayment, type PaymentVerificationResult } from '@/utils/payment';
+import type { Plan } from '@shared/schema';
 
 interface SubscriptionModalProps {
   open: boolean;
@@ -13,39 +18,130 @@ interface SubscriptionModalProps {
   remainingAttempts: number;
 }
 
-type SubscriptionPlan = 'monthly' | 'pack';
+interface CouponQuote {
+  couponCode: string;
+  price: number;
+  discount: number;
+  total: number;
+  currency: string;
+}
+
+const currency = 'INR';
 
 const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ open, onClose, remainingAttempts }) => {
-  const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan>('monthly');
+  const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [couponQuote, setCouponQuote] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: plans, isLoading: isLoadingPlans } = useQuery<Plan[]>({
+    queryKey: ['/api/plans'],
+    enabled: open,
+  });
+
+  // Preselect the first plan once the catalogue has loaded
+  useEffect(() => {
+    if (plans && plans.length > 0 && !plans.some(plan => plan.code === selectedPlan)) {
+      setSelectedPlan(plans[0].code);
+    }
+  }, [plans, selectedPlan]);
+
+  const plan = plans?.find(item => item.code === selectedPlan);
+
+  // A quote is only valid for the plan it was made for
+  useEffect(() => {
+    setCouponQuote(null);
+    setCouponError(null);
+  }, [selectedPlan]);
+
+  const handleApplyCoupon = async () => {
+    if (!plan || !couponCode.trim()) return;
+    
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const response = await fetch('/api/coupons/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan: plan.code, currency, couponCode }),
+        credentials: 'include',
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Invalid coupon code');
+      }
+      setCouponQuote(data);
+    } catch (error) {
+      setCouponQuote(null);
+      setCouponError(error instanceof Error ? error.message : 'Invalid coupon code');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
 
   const handlePayment = async () => {
+    if (!plan) return;
+    
     setIsLoading(true);
     
     try {
       const response = await apiRequest('POST', '/api/payment/initiate', {
-        plan: selectedPlan
+        plan: plan.code,
+        currency,
+        couponCode: couponQuote?.couponCode
       });
       
       const data = await response.json();
       
-      // Handle Razorpay integration
-      if (data.order_id) {
-        // In a real implementation, this would open the Razorpay modal
-        // For now, we'll simulate a successful payment
-        const simulateSuccessfulPayment = true;
-        
-        if (simulateSuccessfulPayment) {
-          toast({
-            title: "Payment Successful",
-            description: selectedPlan === 'monthly' 
-              ? "Your monthly subscription has been activated" 
-              : "20 attempts have been added to your account",
-          });
-          onClose();
-        }
+      // Hosted checkouts take over the page and come back to the dashboard
+      if (data.checkout_url) {
+        window.location.assign(data.checkout_url);
+        return;
+      }
+      
+      let result: PaymentVerificationResult;
+      if (data.provider === 'razorpay') {
+        const checkout = await initializeRazorpay({
+          key: data.key,
+          amount: data.amount,
+          currency: data.currency,
+          name: 'SolveM8',
+          description: plan.name,
+          orderId: data.order_id,
+          prefill: {
+            name: user?.username ?? '',
+            email: user?.email ?? '',
+          },
+          theme: {
+            color: '#238F51',
+          },
+        });
+        result = await verifyPayment({
+          order_id: checkout.razorpay_order_id,
+          payment_id: checkout.razorpay_payment_id,
+          signature: checkout.razorpay_signature,
+        });
+      } else {
+        result = await verifyPayment({ order_id: data.order_id });
       }
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+      
+      toast({
+        title: result.status === 'completed' ? "Payment Successful" : "Payment Processing",
+        description: result.status !== 'completed'
+          ? "We'll activate your purchase as soon as the payment clears"
+          : plan.durationDays 
+            ? `Your ${plan.name} has been activated` 
+            : `${plan.credits} attempts have been added to your account`,
+      });
+      onClose();
     } catch (error) {
       console.error('Payment initiation error:', error);
       toast({
@@ -83,41 +179,100 @@ const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ open, onClose, re
             </div>
           </div>
           
-          <RadioGroup value={selectedPlan} onValueChange={(value) => setSelectedPlan(value as SubscriptionPlan)}>
-            <div className={`border rounded-lg p-4 cursor-pointer relative mb-4 ${
-              selectedPlan === 'monthly' ? 'border-accentBluePurple' : 'border-gray-200'
-            }`}>
-              <div className="flex items-start">
-                <RadioGroupItem 
-                  id="monthly-plan" 
-                  value="monthly" 
-                  className="mt-1 text-accentBluePurple"
-                />
-                <Label htmlFor="monthly-plan" className="ml-3 cursor-pointer block flex-1">
-                  <div className="text-lg font-medium text-gray-900 mb-1">Monthly Subscription</div>
-                  <div className="text-sm text-gray-500 mb-2">Unlimited attempts for a full month</div>
-                  <div className="text-xl font-bold text-accentBluePurple">₹199/month</div>
-                </Label>
-              </div>
+          {isLoadingPlans ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin h-6 w-6 border-2 border-accentBluePurple border-t-transparent rounded-full" />
             </div>
-            
-            <div className={`border rounded-lg p-4 cursor-pointer relative ${
-              selectedPlan === 'pack' ? 'border-accentBluePurple' : 'border-gray-200'
-            }`}>
-              <div className="flex items-start">
-                <RadioGroupItem 
-                  id="pack-plan" 
-                  value="pack" 
-                  className="mt-1 text-accentBluePurple"
+          ) : (
+            <RadioGroup value={selectedPlan ?? undefined} onValueChange={setSelectedPlan} className="space-y-4">
+              {plans?.map(item => {
+                const price = item.prices[currency];
+                
+                return (
+                  <div 
+                    key={item.code}
+                    className={`border rounded-lg p-4 cursor-pointer relative ${
+                      selectedPlan === item.code ? 'border-accentBluePurple' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-start">
+                      <RadioGroupItem 
+                        id={`${item.code}-plan`} 
+                        value={item.code} 
+                        className="mt-1 text-accentBluePurple"
+                        disabled={price === undefined}
+                      />
+                      <Label htmlFor={`${item.code}-plan`} className="ml-3 cursor-pointer block flex-1">
+                        <div className="text-lg font-medium text-gray-900 mb-1">{item.name}</div>
+                        <div className="text-sm text-gray-500 mb-2">{item.description}</div>
+                        {item.features.length > 0 && (
+                          <ul className="text-sm text-gray-600 mb-2 space-y-1">
+                            {item.features.map(feature => (
+                              <li key={feature} className="flex items-center">
+                                <Check className="h-3.5 w-3.5 mr-1.5 text-primaryGreen" />
+                                {feature}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <div className="text-xl font-bold text-accentBluePurple">
+                          {price === undefined 
+                            ? 'Not available in your currency' 
+                            : `${formatPrice(price, currency)}${planPeriodLabel(item)}`}
+                        </div>
+                      </Label>
+                    </div>
+                  </div>
+                );
+              })}
+            </RadioGroup>
+          )}
+          
+          {plan && (
+            <div className="mt-6">
+              <Label htmlFor="coupon-code" className="text-sm text-gray-700">Coupon code</Label>
+              <div className="flex gap-2 mt-1">
+                <Input 
+                  id="coupon-code"
+                  value={couponCode}
+                  onChange={e => {
+                    setCouponCode(e.target.value.toUpperCase());
+                    setCouponQuote(null);
+                    setCouponError(null);
+                  }}
+                  placeholder="Enter coupon code"
+                  disabled={isApplyingCoupon}
                 />
-                <Label htmlFor="pack-plan" className="ml-3 cursor-pointer block flex-1">
-                  <div className="text-lg font-medium text-gray-900 mb-1">20 Attempts Pack</div>
-                  <div className="text-sm text-gray-500 mb-2">One-time purchase, no renewal</div>
-                  <div className="text-xl font-bold text-accentBluePurple">₹299</div>
-                </Label>
+                <Button 
+                  variant="outline" 
+                  onClick={handleApplyCoupon}
+                  disabled={!couponCode.trim() || isApplyingCoupon}
+                >
+                  {isApplyingCoupon ? "Checking..." : "Apply"}
+                </Button>
               </div>
+              {couponError && (
+                <p className="text-sm text-errorRed mt-1">{couponError}</p>
+              )}
+              
+              {couponQuote && (
+                <div className="bg-gray-50 rounded-lg p-3 mt-3 text-sm space-y-1">
+                  <div className="flex justify-between text-gray-600">
+                    <span>{plan.name}</span>
+                    <span>{formatPrice(couponQuote.price, couponQuote.currency)}</span>
+                  </div>
+                  <div className="flex justify-between text-primaryGreen">
+                    <span>Coupon {couponQuote.couponCode}</span>
+                    <span>-{formatPrice(couponQuote.discount, couponQuote.currency)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium text-gray-900 border-t border-gray-200 pt-1">
+                    <span>Total</span>
+                    <span>{formatPrice(couponQuote.total, couponQuote.currency)}</span>
+                  </div>
+                </div>
+              )}
             </div>
-          </RadioGroup>
+          )}
         </div>
         
         <div className="flex justify-end space-x-3 mt-4">
@@ -127,7 +282,7 @@ const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ open, onClose, re
           <Button 
             className="bg-accentBluePurple hover:bg-accentBluePurple/90"
             onClick={handlePayment}
-            disabled={isLoading}
+            disabled={isLoading || !plan}
           >
             {isLoading ? "Processing..." : "Proceed to Payment"}
           </Button>
@@ -8,7 +8,12 @@ interface User {
   id: number;
   username: string;
   email: string;
+  role: 'user' | 'support' | 'admin';
+  emailVerified: boolean;
+  googleLinked: boolean;
   freeAttempts: number;
+  subscriptionStatus: 'free' | 'active' | 'expired' | null;
+  subscriptionExpiresAt: string | null;
 }
 
 interface AuthContextType {
@@ -16,7 +21,7 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  signup: (username: string, email: string, password: string) => Promise<void>;
+  signup: (username: string, email: string, password: string, referralCode?: string) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -55,9 +60,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const signup = async (username: string, email: string, password: string) => {
+  const signup = async (username: string, email: string, password: string, referralCode?: string) => {
     try {
-      await apiRequest('POST', '/api/auth/signup', { username, email, password });
+      await apiRequest('POST', '/api/auth/signup', { username, email, password, referralCode });
       // After registration, automatically log in
       await login(email, password);
       
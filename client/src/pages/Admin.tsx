@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Navbar from "@/components/Navbar";
+import AdminStats from "@/components/AdminStats";
+import AdminCoupons from "@/components/AdminCoupons";
+import AdminUserDetail, { AdminUser } from "@/components/AdminUserDetail";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface AdminUserPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 20;
+
+const Admin: React.FC = () => {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+
+  const isStaff = user?.role === 'admin' || user?.role === 'support';
+
+  // Only staff may see this page
+  useEffect(() => {
+    if (isLoading) return;
+    if (!isAuthenticated) {
+      setLocation('/login');
+    } else if (!isStaff) {
+      setLocation('/dashboard');
+    }
+  }, [isAuthenticated, isLoading, isStaff, setLocation]);
+
+  const { data: results } = useQuery<AdminUserPage>({
+    queryKey: [`/api/admin/users?q=${encodeURIComponent(query)}&page=${page}&pageSize=${PAGE_SIZE}`],
+    enabled: isStaff,
+  });
+
+  const pageCount = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+  // Show up to five page numbers around the current one
+  const firstPage = Math.max(1, Math.min(page - 2, pageCount - 4));
+  const pages = Array.from({ length: Math.min(5, pageCount) }, (_, index) => firstPage + index);
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) {
+      setPage(target);
+    }
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setQuery(search.trim());
+    setPage(1);
+  };
+
+  if (isLoading || !user || !isStaff) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-green"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Navbar />
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <AdminStats />
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Users</h2>
+            <form onSubmit={handleSearch} className="flex gap-2 w-full sm:w-auto">
+              <Input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search by name or email"
+                className="sm:w-72"
+              />
+              <Button type="submit" variant="outline">Search</Button>
+            </form>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Subscription</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results?.users.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-gray-500">No users found</TableCell>
+                </TableRow>
+              )}
+              {results?.users.map(row => (
+                <TableRow
+                  key={row.id}
+                  onClick={() => setSelectedUserId(row.id)}
+                  data-state={row.id === selectedUserId ? 'selected' : undefined}
+                  className="cursor-pointer"
+                >
+                  <TableCell className="font-medium">{row.username}</TableCell>
+                  <TableCell>{row.email}</TableCell>
+                  <TableCell className="capitalize">{row.role}</TableCell>
+                  <TableCell>{row.freeAttempts}</TableCell>
+                  <TableCell className="capitalize">{row.subscriptionStatus ?? 'free'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {pageCount > 1 && (
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={e => goToPage(e, page - 1)} />
+                </PaginationItem>
+                {pages.map(number => (
+                  <PaginationItem key={number}>
+                    <PaginationLink href="#" isActive={number === page} onClick={e => goToPage(e, number)}>
+                      {number}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={e => goToPage(e, page + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
+
+        {selectedUserId !== null && (
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <AdminUserDetail userId={selectedUserId} canEdit={user.role === 'admin'} />
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <AdminCoupons canEdit={user.role === 'admin'} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
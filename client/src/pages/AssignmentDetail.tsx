@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Clock, Download, FileText, Link2, Trash2, X } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import Navbar from "@/components/Navbar";
+import { SolutionRevision } from "@/components/SolutionDisplay";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/utils/api";
+
+interface AssignmentRecord {
+  id: number;
+  fileName: string;
+  fileUrl: string;
+  title: string | null;
+  tags: string[];
+  subject: string | null;
+  answerStyle: string | null;
+  processedOutputUrl: string | null;
+  timestamp: string;
+  attemptCount: number;
+  extractedText: string | null;
+  solution: string | null;
+}
+
+const AssignmentDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const assignmentKey = `/api/assignments/${id}`;
+
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated) {
+      setLocation('/login');
+    }
+  }, [isAuthenticated, isAuthLoading, setLocation]);
+
+  const { data: assignment, isLoading, error } = useQuery<AssignmentRecord>({
+    queryKey: [assignmentKey],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: revisions = [] } = useQuery<SolutionRevision[]>({
+    queryKey: [`/api/assignments/${id}/revisions`],
+    enabled: !!assignment,
+  });
+
+  useEffect(() => {
+    if (assignment) {
+      setTitle(assignment.title ?? '');
+    }
+  }, [assignment]);
+
+  const save = async (update: { title?: string; tags?: string[] }) => {
+    setIsSaving(true);
+    try {
+      const updated = await sendJson<AssignmentRecord>('PATCH', assignmentKey, update);
+      queryClient.setQueryData([assignmentKey], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could not save assignment",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await save({ title })) {
+      toast({ title: "Assignment renamed" });
+    }
+  };
+
+  const handleAddTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = newTag.trim().toLowerCase();
+    if (!assignment || !tag || assignment.tags.includes(tag)) return;
+
+    if (await save({ tags: [...assignment.tags, tag] })) {
+      setNewTag('');
+    }
+  };
+
+  const handleRemoveTag = async (tag: string) => {
+    if (!assignment) return;
+    await save({ tags: assignment.tags.filter(existing => existing !== tag) });
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await sendJson('DELETE', assignmentKey);
+      queryClient.removeQueries({ queryKey: [assignmentKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      setLocation('/dashboard');
+      toast({ title: "Assignment deleted" });
+    } catch (error) {
+      toast({
+        title: "Could not delete assignment",
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: "destructive"
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone opening it will need to sign in to your account" });
+    } catch (error) {
+      console.error('Clipboard error:', error);
+    }
+  };
+
+  if (isAuthLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-green"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-100 min-h-screen">
+      <Navbar />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link href="/dashboard">
+          <a className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to dashboard
+          </a>
+        </Link>
+
+        {error || !assignment ? (
+          <div className="bg-white rounded-xl shadow-md p-6 text-center">
+            <FileText className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600 font-medium">Assignment not found</p>
+            <p className="text-sm text-gray-500 mt-1">It may have been deleted.</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div>
+                  <h1 className="text-2xl font-semibold text-gray-900">{assignment.title || assignment.fileName}</h1>
+                  <p className="text-sm text-gray-500 flex items-center mt-1">
+                    <Clock className="h-3.5 w-3.5 mr-1 inline" />
+                    {new Date(assignment.timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                    {assignment.subject && ` · ${assignment.subject}`}
+                    {assignment.answerStyle && ` · ${assignment.answerStyle}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={copyLink}>
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Copy link
+                  </Button>
+                  {assignment.processedOutputUrl && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={assignment.processedOutputUrl} download>
+                        <Download className="h-4 w-4 mr-1" />
+                        PDF
+                      </a>
+                    </Button>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="destructive" disabled={isDeleting}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this assignment?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The solution, its refinements, the uploaded file and the generated PDF will be deleted.
+                          This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+
+              <form onSubmit={handleRename} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="assignment-title">Title</Label>
+                  <Input
+                    id="assignment-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder={assignment.fileName}
+                    maxLength={200}
+                  />
+                </div>
+                <Button type="submit" size="sm" disabled={isSaving || title.trim() === (assignment.title ?? '')}>
+                  Rename
+                </Button>
+              </form>
+
+              <div>
+                <Label htmlFor="assignment-tag">Tags</Label>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {assignment.tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="gap-1">
+                      {tag}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveTag(tag)}
+                        disabled={isSaving}
+                        aria-label={`Remove tag ${tag}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  {assignment.tags.length < 10 && (
+                    <form onSubmit={handleAddTag} className="flex gap-2">
+                      <Input
+                        id="assignment-tag"
+                        value={newTag}
+                        onChange={(e) => setNewTag(e.target.value)}
+                        placeholder="Add a tag"
+                        maxLength={32}
+                        className="h-8 w-32"
+                      />
+                      <Button type="submit" size="sm" variant="outline" disabled={isSaving || !newTag.trim()}>
+                        Add
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {assignment.extractedText && (
+              <div className="bg-white rounded-xl shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Question</h2>
+                <div className="max-h-[400px] overflow-y-auto text-sm text-gray-700 whitespace-pre-wrap">
+                  {assignment.extractedText}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Solution</h2>
+              <div className="text-gray-800 prose prose-sm max-w-none">
+                <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                  {assignment.solution || 'No solution was saved for this assignment.'}
+                </ReactMarkdown>
+              </div>
+            </div>
+
+            {revisions.length > 0 && (
+              <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">Refinement History</h2>
+                {revisions.map(revision => (
+                  <div key={revision.id} className="space-y-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      {revision.feedback ? `You asked: ${revision.feedback}` : 'Original solution'}
+                    </p>
+                    <div className="p-3 rounded-lg bg-gray-50 border border-gray-100 prose prose-sm max-w-none">
+                      <ReactMarkdown>{revision.solution}</ReactMarkdown>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AssignmentDetail;
@@ -1,16 +1,30 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import Navbar from "@/components/Navbar";
 import FileUpload from "@/components/FileUpload";
-import SolutionDisplay from "@/components/SolutionDisplay";
+import QuestionEditor, { TypedQuestionResult } from "@/components/QuestionEditor";
+import AnswerStyleSelect from "@/components/AnswerStyleSelect";
+import SolutionDisplay, { SolutionRevision } from "@/components/SolutionDisplay";
 import AssignmentHistory, { Assignment } from "@/components/AssignmentHistory";
 import SubscriptionModal from "@/components/SubscriptionModal";
+import ReferralCard from "@/components/ReferralCard";
+import BillingSection from "@/components/BillingSection";
+import DevicesSection from "@/components/DevicesSection";
+import AccountSettings from "@/components/AccountSettings";
+import DataExportSection from "@/components/DataExportSection";
+import EmailVerificationBanner from "@/components/EmailVerificationBanner";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
+import { streamSolution } from "@/utils/streaming";
+import { waitForJob } from "@/utils/jobs";
+import { verifyPayment } from "@/utils/payment";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { AnswerStyle, AssignmentQuestion } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { User, BarChart3, Clock, ScrollText } from "lucide-react";
+import { User, BarChart3, Clock, ScrollText, Upload, Keyboard } from "lucide-react";
 
 const Dashboard: React.FC = () => {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -18,13 +32,42 @@ const Dashboard: React.FC = () => {
   const { toast } = useToast();
   
   const [currentFileUrl, setCurrentFileUrl] = useState<string | null>(null);
+  const [currentAssignmentId, setCurrentAssignmentId] = useState<number | null>(null);
   const [extractedText, setExtractedText] = useState<string>('');
   const [solution, setSolution] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [solveByQuestion, setSolveByQuestion] = useState(false);
+  const [inputMode, setInputMode] = useState<'upload' | 'typed'>('upload');
+  const [answerStyle, setAnswerStyle] = useState<AnswerStyle>('step-by-step');
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
   const [attemptCount, setAttemptCount] = useState(0);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
 
+  // Subscribers are not limited by their free attempts
+  const hasSubscription = user?.subscriptionStatus === 'active';
+  const subscriptionExpiry = user?.subscriptionExpiresAt
+    ? new Date(user.subscriptionExpiresAt).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      })
+    : null;
+
+  const revisionsQueryKey = [`/api/assignments/${currentAssignmentId}/revisions`];
+  const { data: revisions } = useQuery<SolutionRevision[]>({
+    queryKey: revisionsQueryKey,
+    enabled: currentAssignmentId !== null,
+  });
+
+  const questionsQueryKey = [`/api/assignments/${currentAssignmentId}/questions`];
+  const { data: questions } = useQuery<AssignmentQuestion[]>({
+    queryKey: questionsQueryKey,
+    enabled: currentAssignmentId !== null,
+  });
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -32,34 +75,172 @@ const Dashboard: React.FC = () => {
     }
   }, [isAuthenticated, isLoading, setLocation]);
 
+  // Confirm a hosted checkout once the provider sends the user back here
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const paymentResult = params.get('payment');
+    const orderId = params.get('order_id');
+    if (!paymentResult) return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (paymentResult !== 'success' || !orderId) {
+      toast({
+        title: "Payment cancelled",
+        description: "You have not been charged",
+      });
+      return;
+    }
+
+    verifyPayment({ order_id: orderId })
+      .then(result => {
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+        toast({
+          title: result.status === 'completed' ? "Payment Successful" : "Payment Processing",
+          description: result.status === 'completed'
+            ? "Your purchase has been activated"
+            : "We'll activate your purchase as soon as the payment clears",
+        });
+      })
+      .catch(error => {
+        toast({
+          title: "Payment Failed",
+          description: error instanceof Error ? error.message : "Failed to verify payment",
+          variant: "destructive"
+        });
+      });
+  }, [isAuthenticated, toast]);
+
   const handleFileUploaded = (fileUrl: string, text: string) => {
     setCurrentFileUrl(fileUrl);
     setExtractedText(text);
     // Reset solution when a new file is uploaded
     setSolution(null);
+    setCurrentAssignmentId(null);
     setAttemptCount(0);
     
     // Auto-process the file if there's extracted text
     if (text) {
+      generateSolution(text);
+    }
+  };
+
+  const handleTypedQuestionSolved = (result: TypedQuestionResult) => {
+    setCurrentFileUrl(null);
+    setExtractedText(result.extractedText);
+    setSolution(result.solution);
+    setCurrentAssignmentId(result.assignmentId);
+    setAttemptCount(1);
+    
+    queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+  };
+
+  const generateSolution = (text: string) => {
+    if (solveByQuestion) {
+      processQuestions(text);
+    } else {
       processAssignment(text);
     }
   };
 
-  const processAssignment = async (text: string) => {
-    if (!user || (user.freeAttempts <= 0 && attemptCount === 0)) {
+  const processQuestions = async (text: string) => {
+    if (!user || (!hasSubscription && user.freeAttempts <= 0 && attemptCount === 0)) {
       setShowSubscriptionModal(true);
       return;
     }
     
     setIsProcessing(true);
+    setSolution(null);
     try {
-      const response = await apiRequest('POST', '/api/process', { 
+      const response = await apiRequest('POST', '/api/process/questions', { 
         text,
-        fileUrl: currentFileUrl
+        fileUrl: currentFileUrl,
+        answerStyle
       });
       
-      const data = await response.json();
+      const { jobId, assignmentId } = await response.json();
+      setCurrentAssignmentId(assignmentId);
+      
+      // Refresh the per-question status as the job moves through the questions
+      const data = await waitForJob<{ solution: string }>(jobId, () => {
+        queryClient.invalidateQueries({ queryKey: [`/api/assignments/${assignmentId}/questions`] });
+      });
+      setSolution(data.solution);
+      setAttemptCount(prev => prev + 1);
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      
+      toast({
+        title: "Solutions generated",
+        description: "Each question has been solved separately",
+      });
+    } catch (error) {
+      console.error('Processing error:', error);
+      toast({
+        title: "Processing failed",
+        description: error instanceof Error ? error.message : "Failed to process assignment",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRegenerateQuestion = async (index: number) => {
+    if (!currentAssignmentId) return;
+    
+    if (user && !hasSubscription && user.freeAttempts <= 0) {
+      setShowSubscriptionModal(true);
+      return;
+    }
+    
+    setRegeneratingIndex(index);
+    try {
+      await apiRequest('POST', `/api/assignments/${currentAssignmentId}/questions/${index}/regenerate`);
+      setAttemptCount(prev => prev + 1);
+      
+      queryClient.invalidateQueries({ queryKey: questionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    } catch (error) {
+      console.error('Regeneration error:', error);
+      toast({
+        title: "Regeneration failed",
+        description: error instanceof Error ? error.message : "Failed to regenerate the answer",
+        variant: "destructive"
+      });
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const processAssignment = async (text: string) => {
+    if (!user || (!hasSubscription && user.freeAttempts <= 0 && attemptCount === 0)) {
+      setShowSubscriptionModal(true);
+      return;
+    }
+    
+    // Keep the current solution so it can be restored if generation is cancelled
+    const previousSolution = solution;
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    
+    setIsProcessing(true);
+    setSolution('');
+    try {
+      const data = await streamSolution(
+        '/api/process/stream',
+        { text, fileUrl: currentFileUrl, answerStyle },
+        chunk => setSolution(prev => (prev || '') + chunk),
+        controller.signal
+      );
       setSolution(data.solution);
+      setCurrentAssignmentId(data.assignmentId);
       setAttemptCount(prev => prev + 1);
       
       // Invalidate assignments query to reflect updated attempt count
@@ -71,6 +252,16 @@ const Dashboard: React.FC = () => {
         description: "Your assignment has been processed successfully",
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        setSolution(previousSolution);
+        toast({
+          title: "Generation stopped",
+          description: "No attempt was used for the cancelled solution",
+        });
+        return;
+      }
+      
+      setSolution(previousSolution);
       console.error('Processing error:', error);
       toast({
         title: "Processing failed",
@@ -79,19 +270,57 @@ const Dashboard: React.FC = () => {
       });
     } finally {
       setIsProcessing(false);
+      streamControllerRef.current = null;
     }
   };
 
-  const handleRefineSolution = () => {
-    if (!extractedText) return;
+  const handleCancelProcessing = () => {
+    streamControllerRef.current?.abort();
+  };
+
+  // Stop any in-flight generation when leaving the dashboard
+  useEffect(() => {
+    return () => streamControllerRef.current?.abort();
+  }, []);
+
+  const handleRefineSolution = async (feedback: string) => {
+    if (!currentAssignmentId) return;
     
     // Check if user has enough attempts
-    if (user && (user.freeAttempts <= 0 || attemptCount >= 3)) {
+    if (user && ((!hasSubscription && user.freeAttempts <= 0) || attemptCount >= 3)) {
       setShowSubscriptionModal(true);
       return;
     }
     
-    processAssignment(extractedText);
+    setIsRefining(true);
+    try {
+      const response = await apiRequest('POST', `/api/assignments/${currentAssignmentId}/refine`, {
+        feedback
+      });
+      
+      const data = await response.json();
+      setSolution(data.solution);
+      setAttemptCount(prev => prev + 1);
+      
+      queryClient.invalidateQueries({ queryKey: revisionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      
+      toast({
+        title: "Solution refined",
+        description: "Your feedback has been applied to the solution",
+      });
+    } catch (error) {
+      console.error('Refinement error:', error);
+      toast({
+        title: "Refinement failed",
+        description: error instanceof Error ? error.message : "Failed to refine solution",
+        variant: "destructive"
+      });
+      throw error;
+    } finally {
+      setIsRefining(false);
+    }
   };
 
   const handleViewAssignment = (assignment: Assignment) => {
@@ -99,7 +328,8 @@ const Dashboard: React.FC = () => {
     // If extractedText is available in the assignment, use it; otherwise fall back to question
     setExtractedText(assignment.extractedText || assignment.question || '');
     setSolution(assignment.solution || null);
-    setAttemptCount(3); // Set to max to disable refine button for history items
+    setCurrentAssignmentId(Number(assignment.id));
+    setAttemptCount(assignment.attemptCount ?? 1);
   };
 
   if (isLoading) {
@@ -129,10 +359,17 @@ const Dashboard: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-3">
-              <div className="bg-primary-green/10 rounded-full px-4 py-2 flex items-center">
-                <span className="text-primary-green font-medium">{user.freeAttempts}</span>
-                <span className="text-primary-green ml-1">free attempts left</span>
-              </div>
+              {hasSubscription ? (
+                <div className="bg-accent-purple/10 rounded-full px-4 py-2 flex items-center">
+                  <span className="text-accent-purple font-medium">Monthly plan</span>
+                  <span className="text-accent-purple ml-1">until {subscriptionExpiry}</span>
+                </div>
+              ) : (
+                <div className="bg-primary-green/10 rounded-full px-4 py-2 flex items-center">
+                  <span className="text-primary-green font-medium">{user.freeAttempts}</span>
+                  <span className="text-primary-green ml-1">free attempts left</span>
+                </div>
+              )}
               
               <button 
                 onClick={() => setShowSubscriptionModal(true)}
@@ -144,6 +381,8 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
         
+        {!user.emailVerified && <EmailVerificationBanner email={user.email} />}
+        
         <Tabs defaultValue="dashboard" className="mb-6 animate-fade-in">
           <TabsList className="bg-white border border-gray-200 shadow-sm">
             <TabsTrigger 
@@ -175,85 +414,133 @@ const Dashboard: React.FC = () => {
           <TabsContent value="dashboard" className="mt-6">
             <div className="flex flex-col lg:flex-row lg:space-x-6">
               <div className="lg:w-2/3 space-y-6">
-                {/* File Upload Component */}
-                <FileUpload onFileUploaded={handleFileUploaded} />
+                {/* Input Mode Toggle */}
+                <div className="inline-flex bg-white border border-gray-200 rounded-lg p-1 shadow-sm">
+                  <button
+                    onClick={() => setInputMode('upload')}
+                    className={`flex items-center px-3 py-1.5 rounded-md text-sm font-medium transition-all-smooth ${
+                      inputMode === 'upload' ? 'bg-primary-green/10 text-primary-green' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload File
+                  </button>
+                  <button
+                    onClick={() => setInputMode('typed')}
+                    className={`flex items-center px-3 py-1.5 rounded-md text-sm font-medium transition-all-smooth ${
+                      inputMode === 'typed' ? 'bg-primary-green/10 text-primary-green' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Keyboard className="h-4 w-4 mr-2" />
+                    Type Question
+                  </button>
+                </div>
                 
-                {/* Text Input Section */}
-                <div className="bg-white rounded-xl shadow-md p-6 animate-fade-in">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-gray-900">Enter Assignment Question</h3>
-                  </div>
+                {inputMode === 'typed' ? (
+                  <QuestionEditor 
+                    onSolved={handleTypedQuestionSolved}
+                    canSubmit={hasSubscription || user.freeAttempts > 0 || attemptCount > 0}
+                    onBlocked={() => setShowSubscriptionModal(true)}
+                  />
+                ) : (
+                  <>
+                  {/* File Upload Component */}
+                  <FileUpload onFileUploaded={handleFileUploaded} />
+                
+                  {/* Text Input Section */}
+                  <div className="bg-white rounded-xl shadow-md p-6 animate-fade-in">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-900">Enter Assignment Question</h3>
+                    </div>
                   
-                  <div className="space-y-4">
-                    <div className="relative border border-gray-300 rounded-lg overflow-hidden">
-                      <textarea 
-                        value={extractedText} 
-                        onChange={e => setExtractedText(e.target.value)}
-                        placeholder="Type or paste your question here..."
-                        className="w-full min-h-[250px] p-4 font-mono text-sm focus:ring-primary-green focus:border-primary-green transition-all-smooth"
-                        style={{ 
-                          resize: 'vertical',
-                          lineHeight: '1.5',
-                          overflowY: 'auto'
-                        }}
-                      />
-                      
-                      <div className="absolute bottom-2 right-2 flex gap-2">
-                        <button
-                          onClick={() => {
-                            const textarea = document.querySelector('textarea');
-                            if (textarea) {
-                              textarea.style.height = `${Math.max(250, textarea.scrollHeight + 20)}px`;
-                            }
+                    <div className="space-y-4">
+                      <div className="relative border border-gray-300 rounded-lg overflow-hidden">
+                        <textarea 
+                          value={extractedText} 
+                          onChange={e => setExtractedText(e.target.value)}
+                          placeholder="Type or paste your question here..."
+                          className="w-full min-h-[250px] p-4 font-mono text-sm focus:ring-primary-green focus:border-primary-green transition-all-smooth"
+                          style={{ 
+                            resize: 'vertical',
+                            lineHeight: '1.5',
+                            overflowY: 'auto'
                           }}
-                          className="p-1.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 transition-all-smooth"
-                          title="Expand editor"
+                        />
+                      
+                        <div className="absolute bottom-2 right-2 flex gap-2">
+                          <button
+                            onClick={() => {
+                              const textarea = document.querySelector('textarea');
+                              if (textarea) {
+                                textarea.style.height = `${Math.max(250, textarea.scrollHeight + 20)}px`;
+                              }
+                            }}
+                            className="p-1.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 transition-all-smooth"
+                            title="Expand editor"
+                          >
+                            <span className="sr-only">Expand</span>
+                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                              <path d="m21 21-6-6m6 6v-4.8m0 4.8h-4.8"/>
+                              <path d="M3 16.2V21m0 0h4.8M3 21l6-6"/>
+                              <path d="M21 7.8V3m0 0h-4.8M21 3l-6 6"/>
+                              <path d="M3 7.8V3m0 0h4.8M3 3l6 6"/>
+                            </svg>
+                          </button>
+                        </div>
+                      </div>
+                    
+                      <div className="flex items-center justify-between">
+                        <div className="text-xs text-gray-500">
+                          {extractedText.length > 0 ? `${extractedText.length} characters` : ''}
+                        </div>
+                      
+                        <button 
+                          onClick={() => setExtractedText('')}
+                          className={`text-xs text-red-500 hover:text-red-700 transition-all-smooth ${
+                            !extractedText ? 'opacity-0 pointer-events-none' : ''
+                          }`}
                         >
-                          <span className="sr-only">Expand</span>
-                          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                            <path d="m21 21-6-6m6 6v-4.8m0 4.8h-4.8"/>
-                            <path d="M3 16.2V21m0 0h4.8M3 21l6-6"/>
-                            <path d="M21 7.8V3m0 0h-4.8M21 3l-6 6"/>
-                            <path d="M3 7.8V3m0 0h4.8M3 3l6 6"/>
-                          </svg>
+                          Clear
                         </button>
                       </div>
-                    </div>
                     
-                    <div className="flex items-center justify-between">
-                      <div className="text-xs text-gray-500">
-                        {extractedText.length > 0 ? `${extractedText.length} characters` : ''}
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox 
+                            id="solve-by-question" 
+                            checked={solveByQuestion}
+                            onCheckedChange={checked => setSolveByQuestion(checked === true)}
+                          />
+                          <label htmlFor="solve-by-question" className="text-sm text-gray-700 cursor-pointer">
+                            Solve each question separately
+                          </label>
+                        </div>
+                        
+                        <AnswerStyleSelect value={answerStyle} onChange={setAnswerStyle} disabled={isProcessing} />
                       </div>
-                      
+                    
                       <button 
-                        onClick={() => setExtractedText('')}
-                        className={`text-xs text-red-500 hover:text-red-700 transition-all-smooth ${
-                          !extractedText ? 'opacity-0 pointer-events-none' : ''
-                        }`}
+                        onClick={() => generateSolution(extractedText)}
+                        disabled={!extractedText || isProcessing}
+                        className="w-full py-2.5 bg-primary-green text-white rounded-md font-medium transition-all-smooth hover:bg-primary-green/90 disabled:bg-gray-300 disabled:cursor-not-allowed"
                       >
-                        Clear
+                        {isProcessing ? (
+                          <span className="flex items-center justify-center">
+                            <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
+                            Generating...
+                          </span>
+                        ) : (
+                          <span className="flex items-center justify-center">
+                            <ScrollText className="h-5 w-5 mr-2" />
+                            Generate Solution
+                          </span>
+                        )}
                       </button>
                     </div>
-                    
-                    <button 
-                      onClick={() => processAssignment(extractedText)}
-                      disabled={!extractedText || isProcessing}
-                      className="w-full py-2.5 bg-primary-green text-white rounded-md font-medium transition-all-smooth hover:bg-primary-green/90 disabled:bg-gray-300 disabled:cursor-not-allowed"
-                    >
-                      {isProcessing ? (
-                        <span className="flex items-center justify-center">
-                          <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
-                          Processing...
-                        </span>
-                      ) : (
-                        <span className="flex items-center justify-center">
-                          <ScrollText className="h-5 w-5 mr-2" />
-                          Generate Solution
-                        </span>
-                      )}
-                    </button>
                   </div>
-                </div>
+                  </>
+                )}
+                
                 
                 {/* Recent Assignments */}
                 <AssignmentHistory onViewAssignment={handleViewAssignment} />
@@ -265,10 +552,18 @@ const Dashboard: React.FC = () => {
                   solution={solution}
                   question={extractedText}
                   fileUrl={currentFileUrl}
+                  assignmentId={currentAssignmentId}
                   attemptCount={attemptCount}
                   maxAttempts={3}
                   onRefine={handleRefineSolution}
                   extractedText={extractedText}
+                  revisions={revisions}
+                  questions={questions}
+                  onRegenerateQuestion={handleRegenerateQuestion}
+                  regeneratingIndex={regeneratingIndex}
+                  isRefining={isRefining}
+                  isStreaming={isProcessing}
+                  onCancel={handleCancelProcessing}
                 />
               </div>
             </div>
@@ -287,26 +582,7 @@ const Dashboard: React.FC = () => {
               <div className="space-y-6">
                 <div>
                   <h3 className="text-md font-medium text-gray-700 mb-2">Profile Information</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
-                      <input 
-                        type="text" 
-                        value={user.username} 
-                        disabled
-                        className="w-full p-2 bg-gray-100 border border-gray-300 rounded-md"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
-                      <input 
-                        type="email" 
-                        value={user.email} 
-                        disabled
-                        className="w-full p-2 bg-gray-100 border border-gray-300 rounded-md"
-                      />
-                    </div>
-                  </div>
+                  <AccountSettings />
                 </div>
                 
                 <div>
@@ -314,18 +590,52 @@ const Dashboard: React.FC = () => {
                   <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                     <div className="flex justify-between items-center">
                       <div>
-                        <p className="font-medium text-gray-900">Free Plan</p>
-                        <p className="text-sm text-gray-500">3 free attempts per month</p>
+                        {hasSubscription ? (
+                          <>
+                            <p className="font-medium text-gray-900">Monthly Plan</p>
+                            <p className="text-sm text-gray-500">Active until {subscriptionExpiry}</p>
+                          </>
+                        ) : user.subscriptionStatus === 'expired' ? (
+                          <>
+                            <p className="font-medium text-gray-900">Free Plan</p>
+                            <p className="text-sm text-gray-500">Your monthly plan expired on {subscriptionExpiry}</p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="font-medium text-gray-900">Free Plan</p>
+                            <p className="text-sm text-gray-500">3 free attempts per month</p>
+                          </>
+                        )}
                       </div>
                       <button 
                         onClick={() => setShowSubscriptionModal(true)}
                         className="bg-accent-purple text-white px-3 py-1.5 rounded-md text-sm font-medium"
                       >
-                        Upgrade
+                        {hasSubscription ? 'Renew' : 'Upgrade'}
                       </button>
                     </div>
                   </div>
                 </div>
+                
+                <div>
+                  <h3 className="text-md font-medium text-gray-700 mb-2">Referrals</h3>
+                  <ReferralCard />
+                </div>
+                
+                <div>
+                  <h3 className="text-md font-medium text-gray-700 mb-2">Billing</h3>
+                  <BillingSection />
+                </div>
+                
+                <div>
+                  <h3 className="text-md font-medium text-gray-700 mb-2">Devices</h3>
+                  <DevicesSection />
+                </div>
+                
+                <div>
+                  <h3 className="text-md font-medium text-gray-700 mb-2">Your Data</h3>
+                  <DataExportSection />
+                </div>
               </div>
             </div>
           </TabsContent>
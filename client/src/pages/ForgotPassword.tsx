@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Navbar from "@/components/Navbar";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/utils/api";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword: React.FC = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit = async (values: ForgotPasswordFormValues) => {
+    setIsLoading(true);
+    try {
+      const { message } = await sendJson('POST', '/api/auth/forgot-password', values);
+      setSentMessage(message);
+    } catch (error) {
+      toast({
+        title: "Request failed",
+        description: error instanceof Error ? error.message : "Could not send the reset link",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-100 min-h-screen">
+      <Navbar />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md mx-auto py-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Forgot Password</h2>
+
+          {sentMessage ? (
+            <p className="text-gray-600">
+              {sentMessage}. Check your inbox and follow the link to choose a new password.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-6">Enter your email and we will send you a link to reset your password.</p>
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Enter your email"
+                            type="email"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-accentBluePurple hover:bg-accentBluePurple/90"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? "Sending..." : "Send reset link"}
+                  </Button>
+                </form>
+              </Form>
+            </>
+          )}
+
+          <div className="mt-4 text-center text-sm text-gray-600">
+            Remembered it?{" "}
+            <Link href="/login">
+              <a className="text-accentBluePurple hover:underline">
+                Log in
+              </a>
+            </Link>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ForgotPassword;
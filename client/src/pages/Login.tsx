@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
@@ -7,7 +7,9 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import Navbar from "@/components/Navbar";
+import GoogleSignInButton from "@/components/GoogleSignInButton";
 import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -20,6 +22,20 @@ const Login: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Google sign-in failures come back as a query parameter
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get('error');
+    if (error) {
+      toast({
+        title: "Login failed",
+        description: error,
+        variant: "destructive"
+      });
+      window.history.replaceState({}, '', '/login');
+    }
+  }, [toast]);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -51,6 +67,8 @@ const Login: React.FC = () => {
           
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <GoogleSignInButton label="Continue with Google" />
+              
               <FormField
                 control={form.control}
                 name="email"
@@ -83,9 +101,11 @@ const Login: React.FC = () => {
                       />
                     </FormControl>
                     <div className="mt-1 text-sm text-right">
-                      <a href="#" className="text-accentBluePurple hover:underline">
-                        Forgot password?
-                      </a>
+                      <Link href="/forgot-password">
+                        <a className="text-accentBluePurple hover:underline">
+                          Forgot password?
+                        </a>
+                      </Link>
                     </div>
                     <FormMessage />
                   </FormItem>
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Navbar from "@/components/Navbar";
+import { useToast } from "@/hooks/use-toast";
+import { sendJson } from "@/utils/api";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine(values => values.password === values.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+const ResetPassword: React.FC = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get('token');
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (values: ResetPasswordFormValues) => {
+    setIsLoading(true);
+    try {
+      const { message } = await sendJson('POST', '/api/auth/reset-password', {
+        token,
+        password: values.password,
+      });
+      toast({
+        title: "Password reset",
+        description: message
+      });
+      setLocation('/login');
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Could not reset your password",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-100 min-h-screen">
+      <Navbar />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md mx-auto py-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Choose a New Password</h2>
+
+          {!token ? (
+            <p className="text-gray-600">
+              This reset link is incomplete.{" "}
+              <Link href="/forgot-password">
+                <a className="text-accentBluePurple hover:underline">Request a new one</a>
+              </Link>
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="At least 8 characters"
+                          type="password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Repeat the new password"
+                          type="password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-accentBluePurple hover:bg-accentBluePurple/90"
+                  disabled={isLoading}
+                >
+                  {isLoading ? "Saving..." : "Reset password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import Navbar from "@/components/Navbar";
+import GoogleSignInButton from "@/components/GoogleSignInButton";
 import { useAuth } from "@/contexts/AuthContext";
 
 const signupSchema = z.object({
@@ -14,6 +15,7 @@ const signupSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
   password: z.string().min(8, "Password must be at least 8 characters"),
   confirmPassword: z.string().min(8, "Password must be at least 8 characters"),
+  referralCode: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -33,13 +35,15 @@ const Signup: React.FC = () => {
       email: "",
       password: "",
       confirmPassword: "",
+      // Invite links look like /signup?ref=CODE
+      referralCode: new URLSearchParams(window.location.search).get("ref") ?? "",
     },
   });
 
   const onSubmit = async (values: SignupFormValues) => {
     setIsLoading(true);
     try {
-      await signup(values.name, values.email, values.password);
+      await signup(values.name, values.email, values.password, values.referralCode?.trim() || undefined);
       setLocation("/dashboard");
     } catch (error) {
       // Error is already handled in the signup function
@@ -58,6 +62,8 @@ const Signup: React.FC = () => {
           
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <GoogleSignInButton label="Sign up with Google" />
+              
               <FormField
                 control={form.control}
                 name="name"
@@ -132,6 +138,24 @@ const Signup: React.FC = () => {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="referralCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referral Code (optional)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="Got a code from a friend?" 
+                        {...field}
+                        onChange={e => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <Button 
                 type="submit" 
                 className="w-full bg-accentBluePurple hover:bg-accentBluePurple/90"
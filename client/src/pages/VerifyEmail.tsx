@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { CheckCircle2, AlertCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import Navbar from "@/components/Navbar";
+import { queryClient } from "@/lib/queryClient";
+import { sendJson } from "@/utils/api";
+
+type VerificationState =
+  | { status: 'verifying' }
+  | { status: 'verified' }
+  | { status: 'failed'; message: string };
+
+const VerifyEmail: React.FC = () => {
+  const [state, setState] = useState<VerificationState>({ status: 'verifying' });
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so make sure a re-render does not send it twice
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState({ status: 'failed', message: 'This verification link is incomplete' });
+      return;
+    }
+
+    sendJson('POST', '/api/auth/verify-email', { token })
+      .then(() => {
+        setState({ status: 'verified' });
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      })
+      .catch(error => {
+        setState({
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Could not verify your email'
+        });
+      });
+  }, []);
+
+  return (
+    <div className="bg-gray-100 min-h-screen">
+      <Navbar />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <Card className="max-w-md mx-auto my-8">
+          <CardContent className="pt-6">
+            {state.status === 'verifying' && (
+              <div className="flex items-center gap-3 text-gray-600">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-green"></div>
+                Verifying your email...
+              </div>
+            )}
+
+            {state.status === 'verified' && (
+              <div>
+                <div className="flex items-center gap-2 mb-4">
+                  <CheckCircle2 className="h-6 w-6 text-primaryGreen" />
+                  <h2 className="text-xl font-semibold text-gray-900">Email verified</h2>
+                </div>
+                <Link href="/dashboard">
+                  <a className="text-accentBluePurple hover:underline">Go to your dashboard</a>
+                </Link>
+              </div>
+            )}
+
+            {state.status === 'failed' && (
+              <div>
+                <div className="flex items-center gap-2 mb-4">
+                  <AlertCircle className="h-6 w-6 text-red-500" />
+                  <h2 className="text-xl font-semibold text-gray-900">Verification failed</h2>
+                </div>
+                <p className="text-gray-600">
+                  {state.message}. You can request a new link from your dashboard.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default VerifyEmail;
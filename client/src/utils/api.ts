@@ -0,0 +1,25 @@
+/**
+ * Utility functions for calling the JSON API
+ */
+
+/**
+ * Send a JSON request and surface the server's message when it fails
+ * @param method HTTP method
+ * @param url Endpoint
+ * @param body Optional request body
+ * @returns Parsed response body
+ */
+export const sendJson = async <T = { message: string }>(method: string, url: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : {},
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: 'include',
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for following background jobs
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  progress: number;
+  message: string | null;
+  attempts: number;
+  maxAttempts: number;
+  result: T | null;
+  error: string | null;
+}
+
+/**
+ * Follow a background job until it finishes
+ * @param jobId ID returned by the endpoint that queued the job
+ * @param onUpdate Optional callback for every status/progress update
+ * @returns Promise that resolves with the job result
+ */
+export const waitForJob = <T>(jobId: string, onUpdate?: (job: Job<T>) => void): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+
+    source.onmessage = (event) => {
+      const job: Job<T> = JSON.parse(event.data);
+      onUpdate?.(job);
+
+      if (job.status === 'completed') {
+        source.close();
+        resolve(job.result as T);
+      } else if (job.status === 'failed') {
+        source.close();
+        reject(new Error(job.error || 'Job failed'));
+      }
+    };
+
+    source.onerror = () => {
+      source.close();
+      // The stream dropped; fall back to fetching the final state once
+      fetch(`/api/jobs/${jobId}`, { credentials: 'include' })
+        .then(async (res) => {
+          if (!res.ok) throw new Error('Lost connection to the job');
+          const job: Job<T> = await res.json();
+          onUpdate?.(job);
+          if (job.status === 'completed') {
+            resolve(job.result as T);
+          } else if (job.status === 'failed') {
+            reject(new Error(job.error || 'Job failed'));
+          } else {
+            resolve(await waitForJob(jobId, onUpdate));
+          }
+        })
+        .catch(reject);
+    };
+  });
+};
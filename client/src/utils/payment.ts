@@ -16,15 +16,26 @@ interface RazorpayOptions {
   theme: {
     color: string;
   };
-  handler: (response: any) => void;
+}
+
+// What Razorpay Checkout hands back after a successful payment
+export interface RazorpayResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+export interface PaymentVerificationResult {
+  message: string;
+  status: 'completed' | 'pending';
 }
 
 /**
  * Initialize Razorpay payment
  * @param options Configuration for Razorpay
- * @returns Promise that resolves when payment completes
+ * @returns Promise that resolves with the checkout response when payment completes
  */
-export const initializeRazorpay = (options: RazorpayOptions): Promise<void> => {
+export const initializeRazorpay = (options: RazorpayOptions): Promise<RazorpayResponse> => {
   return new Promise((resolve, reject) => {
     try {
       // Check if Razorpay is loaded
@@ -60,36 +71,70 @@ const loadRazorpayScript = (): Promise<void> => {
  */
 const processPayment = (
   options: RazorpayOptions, 
-  resolve: (value: void) => void, 
+  resolve: (value: RazorpayResponse) => void, 
   reject: (reason?: any) => void
 ): void => {
   try {
-    const razorpay = new (window as any).Razorpay(options);
+    const { orderId, ...checkoutOptions } = options;
+    const razorpay = new (window as any).Razorpay({
+      ...checkoutOptions,
+      order_id: orderId,
+      handler: (response: RazorpayResponse) => resolve(response),
+      modal: {
+        ondismiss: () => reject(new Error('Payment cancelled')),
+      },
+    });
     razorpay.on('payment.failed', (response: any) => {
       reject(new Error(`Payment failed: ${response.error.description}`));
     });
     razorpay.open();
-    
-    // Resolve will be called by the handler function when payment completes
   } catch (err) {
     reject(err);
   }
 };
 
 /**
- * Calculate subscription prices
- * @param plan The subscription plan type
- * @returns The price in rupees
+ * Ask the server to confirm a checkout with the payment provider
+ * @param body Order ID, plus the payment ID and signature for providers that send them
+ * @returns Whether the payment is complete or still settling
  */
-export const calculatePrice = (plan: 'monthly' | 'pack'): number => {
-  return plan === 'monthly' ? 199 : 299;
+export const verifyPayment = async (body: { order_id: string; payment_id?: string; signature?: string }): Promise<PaymentVerificationResult> => {
+  const response = await fetch('/api/payment/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include',
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Payment verification failed');
+  }
+  return data;
 };
 
 /**
  * Format price for display
- * @param amount The price in rupees
+ * @param amount The price in the smallest currency unit (e.g. paise)
+ * @param currency Currency code (default: INR)
  * @returns Formatted price string
  */
-export const formatPrice = (amount: number): string => {
-  return `₹${amount}`;
+export const formatPrice = (amount: number, currency: string = 'INR'): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: amount % 100 === 0 ? 0 : 2,
+  }).format(amount / 100);
+};
+
+/**
+ * Describe how long a plan lasts or what it adds
+ * @param plan Plan from the catalogue
+ * @returns Suffix shown after the price, e.g. '/month'
+ */
+export const planPeriodLabel = (plan: { durationDays: number | null }): string => {
+  if (!plan.durationDays) return '';
+  if (plan.durationDays === 30) return '/month';
+  if (plan.durationDays === 365) return '/year';
+  return ` for ${plan.durationDays} days`;
 };
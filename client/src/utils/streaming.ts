@@ -0,0 +1,75 @@
+/**
+ * Utility functions for streamed AI responses
+ */
+
+export interface StreamedSolution {
+  solution: string;
+  assignmentId: number;
+}
+
+type StreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; solution: string; assignmentId: number }
+  | { type: 'error'; message: string };
+
+/**
+ * Request a solution and receive it chunk by chunk
+ * @param url Streaming endpoint
+ * @param data Request body
+ * @param onToken Called with every chunk of generated text
+ * @param signal Optional signal that cancels generation
+ * @returns Promise that resolves with the complete solution
+ */
+export const streamSolution = async (
+  url: string,
+  data: unknown,
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamedSolution> => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+    credentials: 'include',
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const line = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      if (line.startsWith('data:')) {
+        const event: StreamEvent = JSON.parse(line.slice(5).trim());
+
+        if (event.type === 'token') {
+          onToken(event.text);
+        } else if (event.type === 'done') {
+          return { solution: event.solution, assignmentId: event.assignmentId };
+        } else if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  throw new Error('The solution stream ended unexpectedly');
+};
@@ -0,0 +1,23 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+// Database configuration
+const databaseUrl = process.env.DATABASE_URL || '';
+
+// Neon's serverless driver needs a WebSocket implementation outside the browser
+neonConfig.webSocketConstructor = ws;
+
+// Initialize the connection pool (with fallback to in-memory storage for development)
+export const pool = databaseUrl
+  ? new Pool({ connectionString: databaseUrl })
+  : null;
+
+export const db = pool
+  ? drizzle({ client: pool, schema })
+  : null;
+
+// Any Drizzle Postgres database, so tests can run the storage against an embedded one
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
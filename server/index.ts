@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { subscriptionService } from "./services/subscriptions";
+import { paymentProcessor } from "./services/paymentProcessor";
+import { rateLimitService } from "./services/rateLimits";
+import { dataExportService } from "./services/dataExport";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Webhook signatures are computed over the exact bytes that were sent
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -66,4 +81,16 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Downgrade lapsed subscriptions even for users who never come back
+  subscriptionService.start();
+
+  // Settle orders whose checkout tab was closed before it reported back
+  paymentProcessor.start();
+
+  // Drop rate limit counters whose window has ended
+  rateLimitService.start();
+
+  // Delete personal data exports once their download link has expired
+  dataExportService.startCleanup();
 })();
@@ -0,0 +1,523 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import crypto from 'crypto';
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerRoutes } from './routes';
+import { storage } from './storage';
+import { aiService } from './services/aiService';
+import { paymentService } from './services/payment';
+import { RazorpayProvider } from './services/paymentProviders';
+import { subscriptionService } from './services/subscriptions';
+import type { Job } from './services/jobQueue';
+import type {
+  CreateOrderRequest,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderOrder,
+  ProviderPayment,
+  ProviderRefund,
+} from './services/paymentProviders';
+
+// Confirms every checkout it is asked about as a captured payment of the given amount
+class CheckoutStandIn implements PaymentProvider {
+  readonly name = 'razorpay';
+  readonly publicKey = 'rzp_test_standin';
+  readonly orders: CreateOrderRequest[] = [];
+
+  constructor(private readonly capturedAmount: number) {}
+
+  async createOrder(request: CreateOrderRequest): Promise<ProviderOrder> {
+    this.orders.push(request);
+    return { id: `order_${this.orders.length}`, amount: request.amount, currency: request.currency, checkoutUrl: null };
+  }
+
+  async confirmCheckout(orderId: string, confirmation: { paymentId?: string }): Promise<ProviderPayment | null> {
+    return { id: confirmation.paymentId!, orderId, status: 'captured', amount: this.capturedAmount, currency: 'INR' };
+  }
+
+  async fetchOrderPayments(): Promise<ProviderPayment[]> {
+    return [];
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+    return { id: `rfnd_${paymentId}`, paymentId, amount };
+  }
+
+  parseWebhook(): PaymentWebhookEvent | null {
+    return null;
+  }
+}
+
+let server: Server;
+let baseUrl: string;
+let userCount = 0;
+
+beforeAll(async () => {
+  const app = express();
+  // Keeps the raw body for webhook signatures, as server/index.ts does
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }));
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  // Every request comes from the same address, so IP buckets would fill up across tests
+  await storage.clearRateLimit('login:ip:127.0.0.1');
+  await storage.clearRateLimit('password-reset:ip:127.0.0.1');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const createMember = () => {
+  userCount++;
+  return storage.createUser({ username: `member${userCount}`, email: `member${userCount}@example.com`, password: 'password1' });
+};
+
+const logIn = (email: string, password: string, cookie = '') =>
+  fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: cookie },
+    body: JSON.stringify({ email, password }),
+  });
+
+const sessionCookie = (response: Response) => response.headers.get('set-cookie')!.split(';')[0];
+
+// Create a user and sign them in, returning their session cookie
+const signIn = async () => {
+  const user = await createMember();
+  const response = await logIn(user.email, 'password1');
+  expect(response.status).toBe(200);
+  return { user, cookie: sessionCookie(response) };
+};
+
+const request = (method: string, path: string, cookie: string, body?: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: cookie },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const post = (path: string, cookie: string, body: unknown) => request('POST', path, cookie, body);
+
+// Poll a background job until it finishes
+const waitForJob = async (cookie: string, jobId: string): Promise<Job> => {
+  for (let poll = 0; poll < 500; poll++) {
+    const job: Job = await (await request('GET', `/api/jobs/${jobId}`, cookie)).json();
+    if (job.status === 'completed' || job.status === 'failed') return job;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${jobId} did not finish`);
+};
+
+describe('payment routes', () => {
+  const useProvider = (provider: PaymentProvider) => {
+    vi.spyOn(paymentService, 'get').mockReturnValue(provider);
+    vi.spyOn(paymentService, 'forCurrency').mockReturnValue(provider);
+  };
+
+  it('sends the checkout back to the configured app URL rather than the host the request came to', async () => {
+    const provider = new CheckoutStandIn(29900);
+    useProvider(provider);
+    const { cookie } = await signIn();
+
+    const response = await post('/api/payment/initiate', cookie, { plan: 'pack' });
+
+    expect(response.status).toBe(200);
+    expect(provider.orders[0].returnUrl).toBe('http://localhost:5000/dashboard');
+  });
+
+  it('grants the plan once when the same checkout is verified again', async () => {
+    useProvider(new CheckoutStandIn(29900));
+    const { user, cookie } = await signIn();
+    await storage.createPayment({ userId: user.id, amount: 29900, planType: 'pack', orderId: `order_replay_${user.id}` });
+    const body = { order_id: `order_replay_${user.id}`, payment_id: 'pay_1', signature: 'sig' };
+
+    const first = await post('/api/payment/verify', cookie, body);
+    expect(first.status).toBe(200);
+    expect((await first.json()).message).toBe('Payment verified successfully');
+
+    const replay = await post('/api/payment/verify', cookie, body);
+    expect(replay.status).toBe(200);
+    expect((await replay.json()).message).toBe('Payment already verified');
+
+    const otherPayment = await post('/api/payment/verify', cookie, { ...body, payment_id: 'pay_2' });
+    expect(otherPayment.status).toBe(409);
+
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+  });
+
+  it('counts an unpaid order against the per-user limit of its coupon', async () => {
+    useProvider(new CheckoutStandIn(19900));
+    const { cookie } = await signIn();
+    await storage.createCoupon({ code: `ONCEEACH${userCount}`, discountType: 'flat', discountValue: 10000, perUserLimit: 1 });
+
+    const first = await post('/api/payment/initiate', cookie, { plan: 'pack', couponCode: `ONCEEACH${userCount}` });
+    expect(first.status).toBe(200);
+
+    const second = await post('/api/payment/initiate', cookie, { plan: 'pack', couponCode: `ONCEEACH${userCount}` });
+    expect(second.status).toBe(400);
+    expect((await second.json()).message).toBe('You have already used this coupon');
+  });
+
+  it('gives the coupon use back when the order cannot be recorded', async () => {
+    useProvider(new CheckoutStandIn(19900));
+    const { cookie } = await signIn();
+    const coupon = await storage.createCoupon({ code: `LASTONE${userCount}`, discountType: 'flat', discountValue: 10000, maxRedemptions: 1 });
+    vi.spyOn(storage, 'createPayment').mockRejectedValueOnce(new Error('Database unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await post('/api/payment/initiate', cookie, { plan: 'pack', couponCode: coupon.code });
+
+    expect(response.status).toBe(500);
+    expect((await storage.getCoupon(coupon.id))?.redemptionCount).toBe(0);
+  });
+
+  it("will not verify another user's order", async () => {
+    useProvider(new CheckoutStandIn(29900));
+    const owner = await signIn();
+    const other = await signIn();
+    const payment = await storage.createPayment({ userId: owner.user.id, amount: 29900, planType: 'pack', orderId: `order_owned_${owner.user.id}` });
+
+    const response = await post('/api/payment/verify', other.cookie, { order_id: payment.orderId, payment_id: 'pay_1', signature: 'sig' });
+
+    expect(response.status).toBe(404);
+    expect((await storage.getPayment(payment.id))?.status).toBe('pending');
+    expect((await storage.getUser(other.user.id))?.freeAttempts).toBe(3);
+    expect((await storage.getUser(owner.user.id))?.freeAttempts).toBe(3);
+  });
+
+  describe('admin refunds', () => {
+    // Buy a plan through checkout, then sign in an admin to refund it
+    const buyAndSignInAdmin = async (plan: string, amount: number) => {
+      useProvider(new CheckoutStandIn(amount));
+      const buyer = await signIn();
+      const payment = await storage.createPayment({ userId: buyer.user.id, amount, planType: plan, orderId: `order_refund_${buyer.user.id}` });
+      const verified = await post('/api/payment/verify', buyer.cookie, { order_id: payment.orderId, payment_id: `pay_refund_${buyer.user.id}`, signature: 'sig' });
+      expect(verified.status).toBe(200);
+
+      const admin = await signIn();
+      await storage.updateUser(admin.user.id, { role: 'admin' });
+      return { buyer: buyer.user, payment, adminCookie: admin.cookie };
+    };
+
+    it('takes back the attempts a refunded pack granted', async () => {
+      const { buyer, payment, adminCookie } = await buyAndSignInAdmin('pack', 29900);
+      expect((await storage.getUser(buyer.id))?.freeAttempts).toBe(23);
+
+      const response = await post(`/api/admin/payments/${payment.id}/refund`, adminCookie, { reason: 'Bought by mistake' });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: 'refunded', refundedAmount: 29900, attemptsRevoked: 20 });
+      expect((await storage.getUser(buyer.id))?.freeAttempts).toBe(3);
+    });
+
+    it('ends the subscription a refunded month granted', async () => {
+      const { buyer, payment, adminCookie } = await buyAndSignInAdmin('monthly', 19900);
+      expect(subscriptionService.isActive((await storage.getUser(buyer.id))!)).toBe(true);
+
+      const response = await post(`/api/admin/payments/${payment.id}/refund`, adminCookie, { reason: 'Not what I expected' });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: 'refunded', daysRevoked: 30 });
+      expect(subscriptionService.isActive((await storage.getUser(buyer.id))!)).toBe(false);
+    });
+
+    it('refuses to refund the same payment twice', async () => {
+      const { buyer, payment, adminCookie } = await buyAndSignInAdmin('pack', 29900);
+      expect((await post(`/api/admin/payments/${payment.id}/refund`, adminCookie, { reason: 'Duplicate charge' })).status).toBe(200);
+
+      const again = await post(`/api/admin/payments/${payment.id}/refund`, adminCookie, { reason: 'Duplicate charge' });
+
+      expect(again.status).toBe(409);
+      expect((await storage.getUser(buyer.id))?.freeAttempts).toBe(3);
+    });
+  });
+});
+
+describe('payment webhook route', () => {
+  const webhookSecret = 'whsec_test';
+  let deliveryCount = 0;
+
+  beforeEach(() => {
+    vi.spyOn(paymentService, 'get').mockReturnValue(new RazorpayProvider('rzp_test_key', 'rzp_test_secret', webhookSecret));
+  });
+
+  // Deliver a payment.captured event for an order the way Razorpay signs it
+  const deliverCapture = (orderId: string, amount: number, eventId: string, secret: string = webhookSecret) => {
+    const body = JSON.stringify({
+      event: 'payment.captured',
+      payload: {
+        payment: { entity: { id: `pay_${orderId}`, order_id: orderId, status: 'captured', amount, currency: 'INR' } },
+      },
+    });
+    return fetch(`${baseUrl}/api/payment/webhook/razorpay`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Event-Id': eventId,
+        'X-Razorpay-Signature': crypto.createHmac('sha256', secret).update(body).digest('hex'),
+      },
+      body,
+    });
+  };
+
+  const startOrder = async () => {
+    const { user } = await signIn();
+    deliveryCount++;
+    const payment = await storage.createPayment({ userId: user.id, amount: 29900, planType: 'pack', orderId: `order_webhook_${deliveryCount}`, provider: 'razorpay' });
+    return { user, payment };
+  };
+
+  it('rejects a delivery with a bad signature', async () => {
+    const { user, payment } = await startOrder();
+
+    const response = await deliverCapture(payment.orderId!, 29900, `evt_forged_${deliveryCount}`, 'not-the-secret');
+
+    expect(response.status).toBe(400);
+    expect((await storage.getPayment(payment.id))?.status).toBe('pending');
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(3);
+  });
+
+  it('completes the order of a valid event', async () => {
+    const { user, payment } = await startOrder();
+
+    const response = await deliverCapture(payment.orderId!, 29900, `evt_valid_${deliveryCount}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+    expect((await storage.getPayment(payment.id))?.status).toBe('completed');
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+  });
+
+  it('applies an event delivered twice at once only once', async () => {
+    const { user, payment } = await startOrder();
+    const eventId = `evt_twice_${deliveryCount}`;
+
+    const responses = await Promise.all([
+      deliverCapture(payment.orderId!, 29900, eventId),
+      deliverCapture(payment.orderId!, 29900, eventId),
+    ]);
+
+    const statuses = await Promise.all(responses.map(response => response.json()));
+    expect(statuses.map(body => body.status).sort()).toEqual(['duplicate', 'ok']);
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+
+    const later = await deliverCapture(payment.orderId!, 29900, eventId);
+    expect(await later.json()).toEqual({ status: 'duplicate' });
+  });
+});
+
+describe('assignment processing routes', () => {
+  it('solves an assignment offline with the stub provider and uses one attempt', async () => {
+    const { user, cookie } = await signIn();
+
+    const response = await post('/api/process', cookie, { text: 'What is 2 + 2?' });
+    expect(response.status).toBe(202);
+    const job = await waitForJob(cookie, (await response.json()).jobId);
+
+    expect(job.status).toBe('completed');
+    const result = job.result as { solution: string; assignmentId: number };
+    expect(result.solution).toContain('What is 2 + 2?');
+    expect(result.solution).toContain('simulated AI response from the stub provider');
+    expect((await storage.getAssignment(result.assignmentId))?.solution).toBe(result.solution);
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(2);
+  });
+
+  it('gives the attempt back when the solving job fails for good', async () => {
+    const { user, cookie } = await signIn();
+    vi.spyOn(aiService, 'processAssignment').mockRejectedValue(new Error('Model unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await post('/api/process', cookie, { text: 'What is 2 + 2?' });
+    expect(response.status).toBe(202);
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(2);
+    const job = await waitForJob(cookie, (await response.json()).jobId);
+
+    expect(job.status).toBe('failed');
+    await vi.waitFor(async () => expect((await storage.getUser(user.id))?.freeAttempts).toBe(3));
+    expect(await storage.getAssignmentHistory(user.id)).toEqual([]);
+  }, 15000);
+
+  it('gives the attempt back when a streamed generation fails', async () => {
+    const { user, cookie } = await signIn();
+    vi.spyOn(aiService, 'streamAssignment').mockImplementation(async function* () {
+      yield 'Step 1: ';
+      throw new Error('Model unavailable');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await post('/api/process/stream', cookie, { text: 'What is 2 + 2?' });
+    const events = await response.text();
+
+    expect(events).toContain('"type":"error"');
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(3);
+  });
+
+  it('gives the attempt back and saves nothing when the client abandons a streamed generation', async () => {
+    const { user, cookie } = await signIn();
+    // Sends one chunk, then waits until the request is cancelled
+    vi.spyOn(aiService, 'streamAssignment').mockImplementation(async function* (_text, _selection, signal) {
+      yield 'Step 1: ';
+      await new Promise(resolve => signal!.addEventListener('abort', resolve));
+    });
+    const client = new AbortController();
+
+    const response = await fetch(`${baseUrl}/api/process/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ text: 'What is 2 + 2?' }),
+      signal: client.signal,
+    });
+    await response.body!.getReader().read();
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(2);
+    client.abort();
+
+    await vi.waitFor(async () => expect((await storage.getUser(user.id))?.freeAttempts).toBe(3));
+    expect(await storage.getAssignmentHistory(user.id)).toEqual([]);
+  });
+});
+
+describe('login lockout and rate limits', () => {
+  it('locks the account after five failed logins, even for the right password', async () => {
+    const user = await createMember();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await logIn(user.email, 'wrong-password')).status).toBe(401);
+    }
+
+    const locked = await logIn(user.email, 'password1');
+    expect(locked.status).toBe(429);
+    expect(locked.headers.get('retry-after')).toBe('60');
+    expect(await locked.json()).toEqual({ message: 'Too many failed logins, please try again later', retryAfter: 60 });
+  });
+
+  it('forgets failed logins once the right password is given', async () => {
+    const user = await createMember();
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await logIn(user.email, 'wrong-password')).status).toBe(401);
+    }
+    expect((await logIn(user.email, 'password1')).status).toBe(200);
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await logIn(user.email, 'wrong-password')).status).toBe(401);
+    }
+    expect((await logIn(user.email, 'password1')).status).toBe(200);
+  });
+
+  it('answers 429 with Retry-After once a bucket is used up', async () => {
+    const forgotPassword = () => fetch(`${baseUrl}/api/auth/forgot-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'nobody@example.com' }),
+    });
+
+    for (let request = 1; request <= 5; request++) {
+      const response = await forgotPassword();
+      expect(response.status).toBe(200);
+      expect(response.headers.get('ratelimit-remaining')).toBe(String(5 - request));
+    }
+
+    const limited = await forgotPassword();
+    expect(limited.status).toBe(429);
+    const retryAfter = Number(limited.headers.get('retry-after'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60 * 60);
+    expect((await limited.json()).message).toBe('Too many requests, please try again later');
+  });
+});
+
+describe('signed-in device routes', () => {
+  // Sign an existing user in again, as from another device
+  const signInAgain = async (email: string, cookie = '') => {
+    const response = await logIn(email, 'password1', cookie);
+    expect(response.status).toBe(200);
+    return sessionCookie(response);
+  };
+
+  const devices = async (cookie: string): Promise<Array<{ id: number; current: boolean }>> =>
+    (await request('GET', '/api/sessions', cookie)).json();
+
+  const isSignedIn = async (cookie: string) => (await request('GET', '/api/user', cookie)).status === 200;
+
+  it('gives the device a new session on login and ends the one it had', async () => {
+    const { user, cookie } = await signIn();
+
+    const rotated = await signInAgain(user.email, cookie);
+
+    expect(rotated).not.toBe(cookie);
+    expect(await isSignedIn(cookie)).toBe(false);
+    expect(await isSignedIn(rotated)).toBe(true);
+    expect(await devices(rotated)).toEqual([expect.objectContaining({ current: true })]);
+  });
+
+  it('signs out one other device but refuses to end the current one', async () => {
+    const { user, cookie: laptop } = await signIn();
+    const phone = await signInAgain(user.email);
+    const tablet = await signInAgain(user.email);
+    const signedIn = await devices(laptop);
+    expect(signedIn).toHaveLength(3);
+
+    const phoneId = (await devices(phone)).find(device => device.current)!.id;
+    expect((await request('DELETE', `/api/sessions/${phoneId}`, laptop)).status).toBe(200);
+
+    expect(await isSignedIn(phone)).toBe(false);
+    expect(await isSignedIn(tablet)).toBe(true);
+    expect(await devices(laptop)).toHaveLength(2);
+
+    const laptopId = signedIn.find(device => device.current)!.id;
+    const own = await request('DELETE', `/api/sessions/${laptopId}`, laptop);
+    expect(own.status).toBe(400);
+    expect(await isSignedIn(laptop)).toBe(true);
+  });
+
+  it('signs out the other devices when the password is changed, keeping this one', async () => {
+    const { user, cookie: laptop } = await signIn();
+    const phone = await signInAgain(user.email);
+    const tablet = await signInAgain(user.email);
+
+    const response = await post('/api/user/password', laptop, { currentPassword: 'password1', newPassword: 'password2' });
+    expect(response.status).toBe(200);
+
+    expect(await isSignedIn(laptop)).toBe(true);
+    expect(await isSignedIn(phone)).toBe(false);
+    expect(await isSignedIn(tablet)).toBe(false);
+    expect(await devices(laptop)).toEqual([expect.objectContaining({ current: true })]);
+  });
+
+  it('signs out every device, including this one', async () => {
+    const { user, cookie: laptop } = await signIn();
+    const phone = await signInAgain(user.email);
+
+    const response = await request('DELETE', '/api/sessions', laptop);
+    expect(response.status).toBe(200);
+    expect((await response.json()).count).toBe(2);
+
+    expect(await isSignedIn(laptop)).toBe(false);
+    expect(await isSignedIn(phone)).toBe(false);
+  });
+
+  it("does not let a user sign out another user's device", async () => {
+    const { cookie: owner } = await signIn();
+    const { cookie: intruder } = await signIn();
+    const ownerDevice = (await devices(owner))[0].id;
+
+    const response = await request('DELETE', `/api/sessions/${ownerDevice}`, intruder);
+
+    expect(response.status).toBe(404);
+    expect(await isSignedIn(owner)).toBe(true);
+    expect(await devices(owner)).toHaveLength(1);
+  });
+});
@@ -1,16 +1,60 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import * as bcrypt from 'bcrypt';
 import session from 'express-session';
-import MemoryStore from 'memorystore';
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
 import multer from 'multer';
 import { z } from 'zod';
-import { loginSchema, registrationSchema } from "@shared/schema";
+import { 
+  loginSchema, 
+  registrationSchema, 
+  refineSchema, 
+  assignmentUpdateSchema, 
+  typedQuestionSchema, 
+  solveOptionsSchema, 
+  paymentInitiationSchema, 
+  couponQuoteSchema, 
+  paymentVerificationSchema, 
+  billingDetailsSchema, 
+  refundRequestSchema, 
+  creditAdjustmentSchema, 
+  adminUserSearchSchema, 
+  adminUserUpdateSchema, 
+  insertCouponSchema, 
+  couponUpdateSchema, 
+  emailRequestSchema, 
+  emailVerificationSchema, 
+  passwordResetSchema, 
+  profileUpdateSchema, 
+  passwordChangeSchema, 
+  accountDeletionSchema, 
+  type AssignmentQuestion, 
+  type Coupon, 
+  type User, 
+  type UserRole 
+} from "@shared/schema";
 import { fileProcessor } from "./services/fileProcessor";
-import { aiService } from "./services/aiService";
+import { aiService, type PromptSelection } from "./services/aiService";
 import { pdfGenerator } from "./services/pdfGenerator";
 import { paymentService } from "./services/payment";
+import { paymentProcessor } from "./services/paymentProcessor";
+import { planService } from "./services/plans";
+import { couponService } from "./services/coupons";
+import { referralService } from "./services/referrals";
+import { invoiceService } from "./services/invoices";
+import { auditService } from "./services/audit";
+import { jobQueue, type Job } from "./services/jobQueue";
+import { creditService, type CreditReservation } from "./services/credits";
+import { subscriptionService } from "./services/subscriptions";
+import { authTokenService } from "./services/authTokens";
+import { authService, createGoogleStrategy } from "./services/auth";
+import { sessionService, sessionSecret, sessionMaxAgeMs } from "./services/sessions";
+import { appUrl } from "./services/appUrl";
+import { rateLimitService, type RateLimitResult } from "./services/rateLimits";
+import { accountService } from "./services/account";
+import { dataExportService } from "./services/dataExport";
+import { assignmentService } from "./services/assignments";
 
 // Setup multer for file uploads
 const upload = multer({
@@ -20,31 +64,202 @@ const upload = multer({
   },
 });
 
+// Setup multer for images attached to typed questions
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max per image
+    files: 3,
+  },
+  fileFilter: (_req, file, callback) => {
+    callback(null, ['image/jpeg', 'image/png'].includes(file.mimetype));
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup session middleware
-  const MemorySessionStore = MemoryStore(session);
+  // Behind a load balancer, rate limits must see the client's address rather than the proxy's
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+  }
+
+  // Setup session middleware; throws at startup if production has no secret
   app.use(
     session({
-      secret: process.env.SESSION_SECRET || 'dev-secret-solvem8',
+      secret: sessionSecret(),
       resave: false,
       saveUninitialized: false,
-      cookie: { secure: process.env.NODE_ENV === 'production', maxAge: 86400000 }, // 24 hours
-      store: new MemorySessionStore({
-        checkPeriod: 86400000, // Clear expired sessions every 24h
-      }),
+      cookie: { secure: process.env.NODE_ENV === 'production', sameSite: 'lax', maxAge: sessionMaxAgeMs },
+      store: sessionService.store,
     })
   );
 
+  // Passport checks credentials; the session itself only stores the user ID
+  passport.use(new LocalStrategy({ usernameField: 'email' }, (email, password, done) => {
+    authService.verifyPassword(email, password)
+      .then(user => done(null, user ?? false, { message: 'Invalid email or password' }))
+      .catch(done);
+  }));
+  
+  const googleStrategy = createGoogleStrategy((_req, profile, done) => {
+    authService.signInWithGoogle(profile)
+      .then(result => result.ok ? done(null, result.user) : done(null, false, { message: result.message }))
+      .catch(done);
+  });
+  if (googleStrategy) {
+    passport.use(googleStrategy);
+  }
+  
+  app.use(passport.initialize());
+  
+  // Run a passport strategy and hand back the user it authenticated, if any
+  const authenticateWith = (strategy: string, req: Request, res: Response) =>
+    new Promise<{ user: User | false; info?: { message?: string } }>((resolve, reject) => {
+      passport.authenticate(strategy, { session: false }, (error: unknown, user: User | false, info?: { message?: string }) => {
+        if (error) return reject(error);
+        resolve({ user, info });
+      })(req, res, () => undefined);
+    });
+
   // Authentication Middleware
   const authenticate = (req: Request, res: Response, next: NextFunction) => {
     if (!req.session || !req.session.userId) {
       return res.status(401).json({ message: 'Authentication required' });
     }
+    sessionService.touch(req).catch(error => console.error('Session touch error:', error));
     next();
   };
 
+  // Reply 429 with the standard Retry-After header
+  const tooManyRequests = (res: Response, retryAfter: number, message: string) => {
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ message, retryAfter });
+  };
+
+  // Tell clients how much of a bucket is left
+  const setRateLimitHeaders = (res: Response, result: Extract<RateLimitResult, { allowed: true }>) => {
+    res.set('RateLimit-Limit', String(result.limit));
+    res.set('RateLimit-Remaining', String(result.remaining));
+    res.set('RateLimit-Reset', String(Math.max(0, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000))));
+  };
+
+  // Rate Limiting Middleware; counters live in storage so every instance shares them.
+  // User buckets need authenticate to run first
+  const rateLimit = (bucket: string, limit: number, windowMs: number, scope: 'ip' | 'user') =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const subject = scope === 'user' ? req.session.userId : req.ip;
+        const result = await rateLimitService.hit(`${bucket}:${scope}:${subject}`, limit, windowMs);
+        if (!result.allowed) {
+          return tooManyRequests(res, result.retryAfter, 'Too many requests, please try again later');
+        }
+        setRateLimitHeaders(res, result);
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+
+  // AI Quota Middleware; limits AI calls per hour by plan. Use after authenticate
+  const aiQuota = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await storage.getUser(req.session.userId as number);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const result = await rateLimitService.hitAiQuota(user);
+      if (!result.allowed) {
+        return tooManyRequests(res, result.retryAfter, `You have reached your limit of ${result.limit} AI requests per hour`);
+      }
+      setRateLimitHeaders(res, result);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Accounts made admins when they log in, so a fresh install has someone to grant roles
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  // Role Middleware; use after authenticate
+  const authorize = (...roles: UserRole[]) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await storage.getUser(req.session.userId as number);
+      if (!user || !roles.includes(user.role)) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Start a session for a user who has proven who they are
+  const signIn = async (req: Request, existingUser: User): Promise<User> => {
+    let user = await subscriptionService.refresh(existingUser);
+    
+    if (adminEmails.includes(user.email.toLowerCase()) && user.role !== 'admin') {
+      user = await storage.updateUser(user.id, { role: 'admin' }) ?? user;
+    }
+    
+    await sessionService.start(req, user);
+    return user;
+  };
+
+  // Origin for links in emails and payment redirects; throws at startup if production has no APP_URL
+  const publicUrl = appUrl();
+
+  // What operators see of an account; never the password hash
+  const adminUserView = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    freeAttempts: user.freeAttempts,
+    subscriptionStatus: user.subscriptionStatus,
+    subscriptionExpiresAt: user.subscriptionExpiresAt,
+    referralCode: user.referralCode,
+    emailVerified: user.emailVerifiedAt !== null,
+    deletedAt: user.deletedAt
+  });
+
+  // What users see of their own account
+  const accountView = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    emailVerified: user.emailVerifiedAt !== null,
+    googleLinked: user.googleId !== null,
+    freeAttempts: user.freeAttempts,
+    subscriptionStatus: user.subscriptionStatus,
+    subscriptionExpiresAt: user.subscriptionExpiresAt
+  });
+
+  // File URLs sent by the browser must point at a file stored for the signed-in user
+  const isForeignFile = (userId: number, fileUrl: unknown): boolean =>
+    !!fileUrl && (typeof fileUrl !== 'string' || !assignmentService.ownsFile(userId, fileUrl));
+
+  // Give a reserved attempt back if the background job solving it fails for good
+  const refundIfJobFails = (job: Job, reservation: CreditReservation) => {
+    const unsubscribe = jobQueue.subscribe(job.id, current => {
+      if (current.status === 'completed') {
+        unsubscribe();
+      } else if (current.status === 'failed') {
+        unsubscribe();
+        creditService.refund(reservation, `Refund for failed ${job.type} job`).catch(error => {
+          console.error('Credit refund error:', error);
+        });
+      }
+    });
+  };
+
   // User Authentication Routes
-  app.post('/api/auth/signup', async (req: Request, res: Response) => {
+  app.post('/api/auth/signup', rateLimit('signup', 5, 60 * 60 * 1000, 'ip'), async (req: Request, res: Response) => {
     try {
       const validatedData = registrationSchema.parse(req.body);
       
@@ -60,15 +275,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(409).json({ message: 'Username already taken' });
       }
       
+      // Check the referral code before creating anything
+      const referrer = validatedData.referralCode
+        ? await referralService.findReferrer(validatedData.referralCode)
+        : undefined;
+      if (validatedData.referralCode && !referrer) {
+        return res.status(400).json({ message: 'Invalid referral code' });
+      }
+      
       // Create new user
       const user = await storage.createUser({
         username: validatedData.username,
         email: validatedData.email,
         password: validatedData.password,
         freeAttempts: 3,
-        subscriptionStatus: 'free'
+        subscriptionStatus: 'free',
+        referralCode: referralService.generateCode()
       });
       
+      if (referrer) {
+        await referralService.recordSignup(referrer, user);
+      }
+      
+      // The account works without it, so a mail failure should not fail the signup
+      try {
+        await authTokenService.sendVerification(user, publicUrl);
+      } catch (error) {
+        console.error('Verification email error:', error);
+      }
+      
       return res.status(201).json({ 
         message: 'User created successfully',
         userId: user.id 
@@ -82,24 +317,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/login', async (req: Request, res: Response) => {
+  app.post('/api/auth/login', rateLimit('login', 20, 15 * 60 * 1000, 'ip'), async (req: Request, res: Response) => {
     try {
-      const validatedData = loginSchema.parse(req.body);
+      const { email } = loginSchema.parse(req.body);
       
-      // Find user by email
-      const user = await storage.getUserByEmail(validatedData.email);
-      if (!user) {
-        return res.status(401).json({ message: 'Invalid email or password' });
+      const lockedFor = await rateLimitService.loginLockedFor(email);
+      if (lockedFor > 0) {
+        return tooManyRequests(res, lockedFor, 'Too many failed logins, please try again later');
       }
       
-      // Compare passwords
-      const passwordMatch = await bcrypt.compare(validatedData.password, user.password);
-      if (!passwordMatch) {
+      const { user: existingUser } = await authenticateWith('local', req, res);
+      if (!existingUser) {
+        await rateLimitService.recordLoginFailure(email);
         return res.status(401).json({ message: 'Invalid email or password' });
       }
       
-      // Set user session
-      req.session.userId = user.id;
+      await rateLimitService.recordLoginSuccess(email);
+      
+      const user = await signIn(req, existingUser);
       
       return res.status(200).json({ 
         message: 'Login successful',
@@ -107,8 +342,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: user.id,
           username: user.username,
           email: user.email,
+          role: user.role,
+          emailVerified: user.emailVerifiedAt !== null,
           freeAttempts: user.freeAttempts,
-          subscriptionStatus: user.subscriptionStatus
+          subscriptionStatus: user.subscriptionStatus,
+          subscriptionExpiresAt: user.subscriptionExpiresAt
         }
       });
     } catch (error) {
@@ -120,18 +358,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/logout', (req: Request, res: Response) => {
-    req.session.destroy(err => {
-      if (err) {
-        return res.status(500).json({ message: 'Failed to logout' });
+  // Sign-in methods the login page should offer
+  app.get('/api/auth/providers', (_req: Request, res: Response) => {
+    return res.status(200).json({ google: googleStrategy !== undefined });
+  });
+
+  // Google Sign-in; the strategy redirects to Google and back to the callback
+  app.get('/api/auth/google', (req: Request, res: Response, next: NextFunction) => {
+    if (!googleStrategy) {
+      return res.status(404).json({ message: 'Google sign-in is not available' });
+    }
+    passport.authenticate('google', { session: false })(req, res, next);
+  });
+
+  app.get('/api/auth/google/callback', async (req: Request, res: Response) => {
+    if (!googleStrategy) {
+      return res.status(404).json({ message: 'Google sign-in is not available' });
+    }
+    
+    try {
+      const { user: existingUser, info } = await authenticateWith('google', req, res);
+      if (!existingUser) {
+        const message = info?.message || 'Google sign-in failed';
+        return res.redirect(`/login?error=${encodeURIComponent(message)}`);
       }
+      
+      await signIn(req, existingUser);
+      return res.redirect('/dashboard');
+    } catch (error) {
+      console.error('Google sign-in error:', error);
+      return res.redirect(`/login?error=${encodeURIComponent('Google sign-in failed, please try again')}`);
+    }
+  });
+
+  app.post('/api/auth/logout', async (req: Request, res: Response) => {
+    try {
+      await sessionService.end(req);
       res.clearCookie('connect.sid');
       return res.status(200).json({ message: 'Logged out successfully' });
-    });
+    } catch (error) {
+      console.error('Logout error:', error);
+      return res.status(500).json({ message: 'Failed to logout' });
+    }
   });
 
-  // Current User Info
-  app.get('/api/user', authenticate, async (req: Request, res: Response) => {
+  // Email Verification
+  app.post('/api/auth/verify-email', rateLimit('auth-token', 20, 60 * 60 * 1000, 'ip'), async (req: Request, res: Response) => {
+    try {
+      const { token } = emailVerificationSchema.parse(req.body);
+      
+      const result = await authTokenService.verifyEmail(token);
+      if (!result.valid) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      return res.status(200).json({ message: 'Email verified' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Verify email error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/resend-verification', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
       const user = await storage.getUser(userId);
@@ -140,250 +431,1171 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'User not found' });
       }
       
-      return res.status(200).json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        freeAttempts: user.freeAttempts,
-        subscriptionStatus: user.subscriptionStatus
-      });
+      if (user.emailVerifiedAt) {
+        return res.status(409).json({ message: 'Email is already verified' });
+      }
+      
+      const result = await authTokenService.sendVerification(user, publicUrl);
+      if (!result.sent) {
+        return tooManyRequests(res, result.retryAfter, 'Too many verification emails, please try again later');
+      }
+      
+      return res.status(200).json({ message: 'Verification email sent' });
     } catch (error) {
-      console.error('Get user error:', error);
+      console.error('Resend verification error:', error);
       return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // File Upload Endpoint
-  app.post('/api/upload', authenticate, upload.single('file'), async (req: Request, res: Response) => {
+  // Password Reset
+  app.post('/api/auth/forgot-password', rateLimit('password-reset', 5, 60 * 60 * 1000, 'ip'), async (req: Request, res: Response) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: 'No file uploaded' });
-      }
+      const { email } = emailRequestSchema.parse(req.body);
       
-      const userId = req.session.userId as number;
-      const file = req.file;
+      await authTokenService.requestPasswordReset(email, publicUrl);
       
-      // Process the uploaded file
-      const { fileUrl, extractedText } = await fileProcessor.processFile(file);
+      // Same answer whether or not the account exists
+      return res.status(200).json({ message: 'If an account uses that email, a reset link is on its way' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Forgot password error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', rateLimit('auth-token', 20, 60 * 60 * 1000, 'ip'), async (req: Request, res: Response) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
       
-      return res.status(200).json({ 
-        message: 'File uploaded successfully',
-        fileUrl,
-        extractedText,
-        fileName: file.originalname
-      });
+      const result = await authTokenService.resetPassword(token, password);
+      if (!result.valid) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      return res.status(200).json({ message: 'Password updated, you can now log in' });
     } catch (error) {
-      console.error('File upload error:', error);
-      return res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to process file'
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Reset password error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Assignment Processing Endpoint
-  app.post('/api/process', authenticate, async (req: Request, res: Response) => {
+  // Current User Info
+  app.get('/api/user', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const { text, fileUrl } = req.body;
+      const existingUser = await storage.getUser(userId);
       
-      if (!text) {
-        return res.status(400).json({ message: 'No text provided for processing' });
+      if (!existingUser) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      // Log the extracted text for debugging
-      console.log('EXTRACTED TEXT FROM DOCUMENT:');
-      console.log('==============================');
-      console.log(text);
-      console.log('==============================');
+      // Downgrade a lapsed subscription before reporting it
+      const user = await subscriptionService.refresh(existingUser);
+      
+      return res.status(200).json(accountView(user));
+    } catch (error) {
+      console.error('Get user error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Account Settings
+  app.patch('/api/user', authenticate, rateLimit('password-check', 10, 15 * 60 * 1000, 'user'), async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const update = profileUpdateSchema.parse(req.body);
       
-      // Get user and check remaining attempts
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
       
-      // Only decrement free attempts if subscription is not active
-      if (user.subscriptionStatus === 'free' && user.freeAttempts <= 0) {
-        return res.status(403).json({ message: 'No free attempts remaining' });
+      const result = await accountService.updateProfile(user, update, publicUrl, req.session.signedInAt);
+      if (!result.ok) {
+        return res.status(result.reason === 'password' ? 401 : 409).json({ message: result.message });
       }
       
-      // Process the assignment with AI
-      const solution = await aiService.processAssignment(text);
+      return res.status(200).json(accountView(result.user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Update user error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/user/password', authenticate, rateLimit('password-check', 10, 15 * 60 * 1000, 'user'), async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
       
-      // Create or update assignment history entry
-      const fileName = fileUrl ? fileUrl.split('/').pop() : 'Text Input';
-      const assignment = await storage.createAssignment({
-        userId,
-        fileName,
-        fileUrl: fileUrl || '',
-        extractedText: text,
-        solution,
-        attemptCount: 1
-      });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
       
-      // Decrement free attempts if subscription is not active
-      if (user.subscriptionStatus === 'free') {
-        await storage.updateUser(userId, { 
-          freeAttempts: Math.max(0, user.freeAttempts - 1) 
-        });
+      const result = await accountService.changePassword(
+        user,
+        { password: currentPassword, signedInAt: req.session.signedInAt },
+        newPassword,
+        req.sessionID
+      );
+      if (!result.ok) {
+        return res.status(401).json({ message: result.message });
       }
       
-      return res.status(200).json({
-        message: 'Assignment processed successfully',
-        solution,
-        assignmentId: assignment.id,
-        extractedText: text // Return the extracted text to the client
-      });
+      return res.status(200).json({ message: 'Password changed, other devices have been signed out' });
     } catch (error) {
-      console.error('Assignment processing error:', error);
-      return res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to process assignment'
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Change password error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // PDF Generation Endpoint
-  app.post('/api/generate-pdf', authenticate, async (req: Request, res: Response) => {
+  app.delete('/api/user', authenticate, rateLimit('password-check', 10, 15 * 60 * 1000, 'user'), async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const { solution, question, fileUrl } = req.body;
+      const { password } = accountDeletionSchema.parse(req.body);
       
-      if (!solution) {
-        return res.status(400).json({ message: 'No solution provided' });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      // Generate PDF from solution
-      const pdfUrl = await pdfGenerator.generatePDF({
-        userId,
-        question,
-        solution,
-        fileUrl
-      });
+      const result = await accountService.deleteAccount(user, { password, signedInAt: req.session.signedInAt });
+      if (!result.ok) {
+        return res.status(401).json({ message: result.message });
+      }
       
-      return res.status(200).json({
-        message: 'PDF generated successfully',
-        pdfUrl
-      });
+      await sessionService.end(req);
+      res.clearCookie('connect.sid');
+      return res.status(200).json({ message: 'Your account has been deleted' });
     } catch (error) {
-      console.error('PDF generation error:', error);
-      return res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to generate PDF'
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Delete user error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Get Assignment History
-  app.get('/api/assignments', authenticate, async (req: Request, res: Response) => {
+  // Personal Data Export; built in the background, then downloaded from the link in the job result
+  app.post('/api/user/export', authenticate, rateLimit('export', 3, 24 * 60 * 60 * 1000, 'user'), async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const assignments = await storage.getAssignmentHistory(userId);
+      const job = dataExportService.start(userId);
       
-      return res.status(200).json(assignments);
+      return res.status(202).json({
+        message: 'Data export queued',
+        jobId: job.id
+      });
     } catch (error) {
-      console.error('Get assignments error:', error);
+      console.error('Data export error:', error);
       return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Payment Routes
-  app.post('/api/payment/initiate', authenticate, async (req: Request, res: Response) => {
+  app.get('/api/user/export/:id', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const { plan } = req.body;
-      
-      if (!plan || !['monthly', 'pack'].includes(plan)) {
-        return res.status(400).json({ message: 'Invalid plan type' });
-      }
+      const archive = await dataExportService.download(userId, req.params.id);
       
-      // Get user
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!archive) {
+        return res.status(404).json({ message: 'This export has expired, please request a new one' });
       }
       
-      // Determine amount based on plan
-      const amount = plan === 'monthly' ? 19900 : 29900; // in paise (₹199 or ₹299)
-      
-      // Create order with Razorpay
-      const order = await paymentService.createOrder(amount);
-      
-      // Store payment details
-      await storage.createPayment({
-        userId,
-        amount,
-        orderId: order.id,
-        status: 'pending',
-        planType: plan
-      });
-      
-      return res.status(200).json({
-        message: 'Payment initiated',
-        order_id: order.id,
-        amount
-      });
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', 'attachment; filename="solvem8-data.zip"');
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).send(archive);
     } catch (error) {
-      console.error('Payment initiation error:', error);
-      return res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to initiate payment'
-      });
+      console.error('Data export download error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/payment/verify', authenticate, async (req: Request, res: Response) => {
+  // Signed-in Devices
+  app.get('/api/sessions', authenticate, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId as number;
-      const { razorpay_payment_id, razorpay_order_id, razorpay_signature } = req.body;
-      
-      // Verify payment with Razorpay
-      const isValid = paymentService.verifyPayment(
-        razorpay_order_id,
-        razorpay_payment_id,
-        razorpay_signature
-      );
+      const devices = await sessionService.list(userId, req.sessionID);
+      return res.status(200).json(devices);
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/sessions/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const devices = await sessionService.list(userId, req.sessionID);
+      const device = devices.find(item => item.id === Number(req.params.id));
       
-      if (!isValid) {
-        return res.status(400).json({ message: 'Invalid payment signature' });
+      if (!device) {
+        return res.status(404).json({ message: 'Session not found' });
       }
       
-      // Get payment record
-      const payment = await storage.getPaymentByOrderId(razorpay_order_id);
-      if (!payment) {
-        return res.status(404).json({ message: 'Payment record not found' });
+      if (device.current) {
+        return res.status(400).json({ message: 'Use log out to end the session on this device' });
       }
       
-      // Update payment status
-      await storage.updatePayment(payment.id, {
-        status: 'completed',
-        paymentId: razorpay_payment_id
-      });
+      await sessionService.revoke(userId, device.id);
+      return res.status(200).json({ message: 'Device signed out' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Sign Out Everywhere, including this device
+  app.delete('/api/sessions', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const count = await sessionService.revokeAll(userId);
+      
+      await sessionService.end(req);
+      res.clearCookie('connect.sid');
+      return res.status(200).json({ message: 'Signed out everywhere', count });
+    } catch (error) {
+      console.error('Revoke all sessions error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Referral Code and Progress
+  app.get('/api/referral', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const user = await storage.getUser(userId);
       
-      // Update user subscription or attempts based on plan
-      const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
       
-      if (payment.planType === 'monthly') {
-        // Set subscription to active for 30 days
-        const expiryDate = new Date();
-        expiryDate.setDate(expiryDate.getDate() + 30);
-        
-        await storage.updateUser(userId, {
-          subscriptionStatus: 'active',
-          subscriptionExpiresAt: expiryDate
+      const summary = await referralService.summary(user);
+      return res.status(200).json(summary);
+    } catch (error) {
+      console.error('Get referral error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Credit Balance and History
+  app.get('/api/credits', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const entries = await creditService.getHistory(userId);
+      return res.status(200).json({
+        balance: user.freeAttempts,
+        unlimited: subscriptionService.isActive(user),
+        entries
+      });
+    } catch (error) {
+      console.error('Get credits error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // File Upload Endpoint
+  app.post('/api/upload', authenticate, rateLimit('upload', 30, 60 * 60 * 1000, 'user'), upload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      
+      const userId = req.session.userId as number;
+      const file = req.file;
+      
+      // Store the file once, so retries of the extraction below do not upload it again
+      const fileUrl = await fileProcessor.uploadFile(file, userId);
+      
+      // Extract the file in the background; OCR can take a while
+      const job = jobQueue.enqueue('upload', userId, async ({ reportProgress }) => {
+        const extractedText = await fileProcessor.extractFile(file, reportProgress);
+        
+        return {
+          fileUrl,
+          extractedText,
+          fileName: file.originalname
+        };
+      });
+      
+      return res.status(202).json({ 
+        message: 'File upload queued',
+        jobId: job.id
+      });
+    } catch (error) {
+      console.error('File upload error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to process file'
+      });
+    }
+  });
+
+  // Assignment Processing Endpoint
+  app.post('/api/process', authenticate, aiQuota, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { text, fileUrl } = req.body;
+      
+      if (!text) {
+        return res.status(400).json({ message: 'No text provided for processing' });
+      }
+      if (isForeignFile(userId, fileUrl)) {
+        return res.status(400).json({ message: 'File not found' });
+      }
+      
+      // Pick the prompt template and answer style up front so bad options fail fast
+      const selection = aiService.selectPrompt(text, solveOptionsSchema.parse(req.body));
+      
+      // Take the attempt before calling the AI so concurrent requests cannot double-spend
+      const reservation = await creditService.reserve(userId, 'Assignment solution');
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+      
+      // Solve the assignment in the background
+      const job = jobQueue.enqueue('process', userId, async ({ reportProgress }) => {
+        // Process the assignment with AI
+        reportProgress(10, 'Generating solution');
+        const solution = await aiService.processAssignment(text, selection);
+        
+        // Create or update assignment history entry
+        reportProgress(90, 'Saving solution');
+        const fileName = fileUrl ? fileUrl.split('/').pop() : 'Text Input';
+        const assignment = await storage.createAssignment({
+          userId,
+          fileName,
+          fileUrl: fileUrl || '',
+          subject: selection.subject,
+          promptTemplate: selection.templateId,
+          answerStyle: selection.answerStyle,
+          extractedText: text,
+          solution,
+          attemptCount: 1
+        });
+        
+        return {
+          solution,
+          assignmentId: assignment.id,
+          extractedText: text // Return the extracted text to the client
+        };
+      });
+      refundIfJobFails(job, reservation);
+      
+      return res.status(202).json({
+        message: 'Assignment processing queued',
+        jobId: job.id
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Assignment processing error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to process assignment'
+      });
+    }
+  });
+
+  // Typed Question Endpoint
+  app.post('/api/process/typed', authenticate, aiQuota, imageUpload.array('images', 3), async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { question, ...options } = typedQuestionSchema.parse(req.body);
+      const images = (req.files as Express.Multer.File[] | undefined) ?? [];
+      
+      const reservation = await creditService.reserve(userId, 'Typed question');
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+      
+      // Only the first image is linked to the assignment, so only it is stored; kept across retries
+      let fileUrl: string | undefined;
+      
+      const job = jobQueue.enqueue('typed', userId, async ({ reportProgress }) => {
+        fileUrl ??= images.length > 0 ? await fileProcessor.uploadFile(images[0], userId) : '';
+        
+        // Read any attached images so the AI sees them alongside the question
+        let text = question;
+        for (let i = 0; i < images.length; i++) {
+          reportProgress((i / images.length) * 50, `Reading image ${i + 1} of ${images.length}`);
+          
+          const extractedText = await fileProcessor.extractFile(images[i]);
+          text += `\n\nAttached image ${i + 1}:\n${extractedText}`;
+        }
+        
+        // Process the assignment with AI
+        reportProgress(50, 'Generating solution');
+        const selection = aiService.selectPrompt(text, options);
+        const solution = await aiService.processAssignment(text, selection);
+        
+        // Record the assignment the same way as an uploaded file
+        reportProgress(90, 'Saving solution');
+        const assignment = await storage.createAssignment({
+          userId,
+          fileName: 'Typed Question',
+          fileUrl,
+          subject: selection.subject,
+          promptTemplate: selection.templateId,
+          answerStyle: selection.answerStyle,
+          extractedText: text,
+          solution,
+          attemptCount: 1
+        });
+        
+        return {
+          solution,
+          assignmentId: assignment.id,
+          extractedText: text
+        };
+      });
+      refundIfJobFails(job, reservation);
+      
+      return res.status(202).json({
+        message: 'Question processing queued',
+        jobId: job.id
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Typed question error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to process question'
+      });
+    }
+  });
+
+  // Per-Question Assignment Processing Endpoint
+  app.post('/api/process/questions', authenticate, aiQuota, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { text, fileUrl } = req.body;
+      
+      if (!text) {
+        return res.status(400).json({ message: 'No text provided for processing' });
+      }
+      if (isForeignFile(userId, fileUrl)) {
+        return res.status(400).json({ message: 'File not found' });
+      }
+      
+      const selection = aiService.selectPrompt(text, solveOptionsSchema.parse(req.body));
+      const parsedQuestions = fileProcessor.parseQuestions(text);
+      if (parsedQuestions.length === 0) {
+        return res.status(400).json({ message: 'No questions found in the text' });
+      }
+      
+      // The whole document costs one attempt, however many questions it has
+      const reservation = await creditService.reserve(userId, 'Assignment solved question by question');
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+      
+      // Record the assignment up front so clients can show each question's status
+      const questions: AssignmentQuestion[] = parsedQuestions.map(question => ({
+        ...question,
+        status: 'pending',
+        solution: null,
+        error: null
+      }));
+      const fileName = fileUrl ? fileUrl.split('/').pop() : 'Text Input';
+      const assignment = await storage.createAssignment({
+        userId,
+        fileName,
+        fileUrl: fileUrl || '',
+        subject: selection.subject,
+        promptTemplate: selection.templateId,
+        answerStyle: selection.answerStyle,
+        extractedText: text,
+        questions,
+        attemptCount: 1
+      });
+      
+      // Questions are solved one at a time; a failed question does not fail the job
+      const job = jobQueue.enqueue('questions', userId, async ({ reportProgress }) => {
+        for (let i = 0; i < questions.length; i++) {
+          reportProgress((i / questions.length) * 100, `Solving question ${i + 1} of ${questions.length}`);
+          
+          questions[i] = { ...questions[i], status: 'solving' };
+          await storage.updateAssignment(assignment.id, { questions: [...questions] });
+          
+          try {
+            const solution = await aiService.solveQuestion(questions[i], selection);
+            questions[i] = { ...questions[i], status: 'solved', solution, error: null };
+          } catch (error) {
+            questions[i] = { 
+              ...questions[i], 
+              status: 'failed', 
+              error: error instanceof Error ? error.message : 'Failed to solve question'
+            };
+          }
+          
+          await storage.updateAssignment(assignment.id, { questions: [...questions] });
+        }
+        
+        const solvedCount = questions.filter(question => question.status === 'solved').length;
+        if (solvedCount === 0) {
+          throw new Error('Failed to solve any of the questions');
+        }
+        
+        const solution = aiService.combineSolutions(questions);
+        await storage.updateAssignment(assignment.id, { solution });
+        
+        return {
+          solution,
+          assignmentId: assignment.id,
+          questions
+        };
+      }, { maxAttempts: 1 });
+      refundIfJobFails(job, reservation);
+      
+      return res.status(202).json({
+        message: 'Assignment processing queued',
+        jobId: job.id,
+        assignmentId: assignment.id,
+        questions
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Assignment processing error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to process assignment'
+      });
+    }
+  });
+
+  // Streaming Assignment Processing Endpoint (Server-Sent Events)
+  app.post('/api/process/stream', authenticate, aiQuota, async (req: Request, res: Response) => {
+    const userId = req.session.userId as number;
+    const { text, fileUrl } = req.body;
+    
+    if (!text) {
+      return res.status(400).json({ message: 'No text provided for processing' });
+    }
+    if (isForeignFile(userId, fileUrl)) {
+      return res.status(400).json({ message: 'File not found' });
+    }
+    
+    let selection: PromptSelection;
+    let reservation: CreditReservation | undefined;
+    try {
+      selection = aiService.selectPrompt(text, solveOptionsSchema.parse(req.body));
+      
+      reservation = await creditService.reserve(userId, 'Streamed assignment solution');
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Assignment processing error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+    
+    // Stop generating if the client goes away before the solution is complete
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    
+    const send = (event: Record<string, unknown>) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+    
+    try {
+      let solution = '';
+      for await (const chunk of aiService.streamAssignment(text, selection, controller.signal)) {
+        solution += chunk;
+        send({ type: 'token', text: chunk });
+      }
+      
+      // A cancelled request is not saved and does not use up an attempt
+      if (controller.signal.aborted) {
+        await creditService.refund(reservation, 'Refund for cancelled generation');
+        return;
+      }
+      
+      const fileName = fileUrl ? fileUrl.split('/').pop() : 'Text Input';
+      const assignment = await storage.createAssignment({
+        userId,
+        fileName,
+        fileUrl: fileUrl || '',
+        subject: selection.subject,
+        promptTemplate: selection.templateId,
+        answerStyle: selection.answerStyle,
+        extractedText: text,
+        solution,
+        attemptCount: 1
+      });
+      
+      send({ type: 'done', solution, assignmentId: assignment.id });
+    } catch (error) {
+      await creditService.refund(reservation, controller.signal.aborted
+        ? 'Refund for cancelled generation'
+        : 'Refund for failed generation'
+      ).catch(refundError => console.error('Credit refund error:', refundError));
+      
+      if (!controller.signal.aborted) {
+        console.error('Assignment streaming error:', error);
+        send({ 
+          type: 'error', 
+          message: error instanceof Error ? error.message : 'Failed to process assignment'
+        });
+      }
+    } finally {
+      res.end();
+    }
+  });
+
+  // Job Status Endpoint
+  app.get('/api/jobs/:id', authenticate, async (req: Request, res: Response) => {
+    const userId = req.session.userId as number;
+    const job = jobQueue.getJob(req.params.id);
+    
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    
+    return res.status(200).json(job);
+  });
+
+  // Job Progress Stream (Server-Sent Events)
+  app.get('/api/jobs/:id/events', authenticate, (req: Request, res: Response) => {
+    const userId = req.session.userId as number;
+    const job = jobQueue.getJob(req.params.id);
+    
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    
+    const send = (current: Job) => {
+      res.write(`data: ${JSON.stringify(current)}\n\n`);
+      
+      // Close the stream once the job has finished
+      if (current.status === 'completed' || current.status === 'failed') {
+        unsubscribe();
+        res.end();
+      }
+    };
+    
+    const unsubscribe = jobQueue.subscribe(job.id, send);
+    res.on('close', unsubscribe);
+    
+    // Send the current state straight away
+    send(job);
+  });
+
+  // PDF Generation Endpoint
+  app.post('/api/generate-pdf', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { solution, question, fileUrl, assignmentId } = req.body;
+      
+      if (!solution) {
+        return res.status(400).json({ message: 'No solution provided' });
+      }
+      if (isForeignFile(userId, fileUrl)) {
+        return res.status(400).json({ message: 'File not found' });
+      }
+      
+      // Check the assignment before generating anything
+      const assignment = assignmentId !== undefined ? await storage.getAssignment(Number(assignmentId)) : undefined;
+      if (assignmentId !== undefined && (!assignment || assignment.userId !== userId)) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      // Generate PDF from solution
+      const pdfUrl = await pdfGenerator.generatePDF({
+        userId,
+        question,
+        solution,
+        fileUrl
+      });
+      
+      // Keep it with the assignment so it can be downloaded again, and deleted with it
+      if (assignment) {
+        await assignmentService.setOutput(assignment, pdfUrl);
+      }
+      
+      return res.status(200).json({
+        message: 'PDF generated successfully',
+        pdfUrl
+      });
+    } catch (error) {
+      console.error('PDF generation error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to generate PDF'
+      });
+    }
+  });
+
+  // Get Assignment History
+  app.get('/api/assignments', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const assignments = await storage.getAssignmentHistory(userId);
+      
+      return res.status(200).json(assignments);
+    } catch (error) {
+      console.error('Get assignments error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Single Assignment
+  app.get('/api/assignments/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      return res.status(200).json(assignment);
+    } catch (error) {
+      console.error('Get assignment error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Rename or Tag an Assignment
+  app.patch('/api/assignments/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const update = assignmentUpdateSchema.parse(req.body);
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      const updated = await storage.updateAssignment(assignment.id, update);
+      return res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Update assignment error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Delete an Assignment with its revisions, upload and solution PDF
+  app.delete('/api/assignments/:id', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      await assignmentService.remove(assignment);
+      return res.status(200).json({ message: 'Assignment deleted' });
+    } catch (error) {
+      console.error('Delete assignment error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Get Assignment Revisions
+  app.get('/api/assignments/:id/revisions', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      const revisions = await storage.getAssignmentRevisions(assignment.id);
+      return res.status(200).json(revisions);
+    } catch (error) {
+      console.error('Get revisions error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Get the Questions of an Assignment
+  app.get('/api/assignments/:id/questions', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      return res.status(200).json(assignment.questions ?? []);
+    } catch (error) {
+      console.error('Get questions error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Regenerate the Answer to a Single Question
+  app.post('/api/assignments/:id/questions/:index/regenerate', authenticate, aiQuota, async (req: Request, res: Response) => {
+    let reservation: CreditReservation | undefined;
+    try {
+      const userId = req.session.userId as number;
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      const index = Number(req.params.index);
+      const questions = assignment.questions ?? [];
+      if (!Number.isInteger(index) || !questions[index]) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      
+      if (questions[index].status === 'pending' || questions[index].status === 'solving') {
+        return res.status(409).json({ message: 'Question is still being solved' });
+      }
+      
+      reservation = await creditService.reserve(userId, 'Regenerated question', `assignment:${assignment.id}`);
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+      
+      const solution = await aiService.solveQuestion(questions[index], aiService.selectionFor(assignment));
+      
+      const updatedQuestions = [...questions];
+      updatedQuestions[index] = { ...questions[index], status: 'solved', solution, error: null };
+      await storage.updateAssignment(assignment.id, {
+        questions: updatedQuestions,
+        solution: aiService.combineSolutions(updatedQuestions),
+        attemptCount: assignment.attemptCount + 1
+      });
+      
+      return res.status(200).json({
+        message: 'Question regenerated successfully',
+        question: updatedQuestions[index]
+      });
+    } catch (error) {
+      if (reservation) {
+        await creditService.refund(reservation, 'Refund for failed regeneration')
+          .catch(refundError => console.error('Credit refund error:', refundError));
+      }
+      console.error('Regenerate question error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to regenerate question'
+      });
+    }
+  });
+
+  // Refine an Assignment Solution
+  app.post('/api/assignments/:id/refine', authenticate, aiQuota, async (req: Request, res: Response) => {
+    let reservation: CreditReservation | undefined;
+    try {
+      const userId = req.session.userId as number;
+      const { feedback } = refineSchema.parse(req.body);
+      
+      const assignment = await storage.getAssignment(Number(req.params.id));
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(404).json({ message: 'Assignment not found' });
+      }
+      
+      if (!assignment.extractedText || !assignment.solution) {
+        return res.status(400).json({ message: 'Assignment has no solution to refine' });
+      }
+      
+      reservation = await creditService.reserve(userId, 'Refined solution', `assignment:${assignment.id}`);
+      if (!reservation) {
+        return res.status(403).json({ message: 'No free attempts remaining' });
+      }
+      
+      // Send the original solution and every earlier turn along with the new feedback
+      const revisions = await storage.getAssignmentRevisions(assignment.id);
+      const originalSolution = revisions.length > 0 ? revisions[0].solution : assignment.solution;
+      const solution = await aiService.refineSolution(
+        assignment.extractedText,
+        originalSolution,
+        revisions.slice(1).map(turn => ({ feedback: turn.feedback, solution: turn.solution })),
+        feedback,
+        aiService.selectionFor(assignment)
+      );
+      
+      // The first revision records the original answer so the thread is complete
+      if (revisions.length === 0) {
+        await storage.createAssignmentRevision({
+          assignmentId: assignment.id,
+          feedback: '',
+          solution: assignment.solution
+        });
+      }
+      const revision = await storage.createAssignmentRevision({
+        assignmentId: assignment.id,
+        feedback,
+        solution
+      });
+      
+      const updatedAssignment = await storage.updateAssignment(assignment.id, {
+        solution,
+        attemptCount: assignment.attemptCount + 1
+      });
+      
+      return res.status(200).json({
+        message: 'Solution refined successfully',
+        solution,
+        revision,
+        attemptCount: updatedAssignment?.attemptCount
+      });
+    } catch (error) {
+      if (reservation) {
+        await creditService.refund(reservation, 'Refund for failed refinement')
+          .catch(refundError => console.error('Credit refund error:', refundError));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Refine solution error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to refine solution'
+      });
+    }
+  });
+
+  // Plan Catalogue
+  app.get('/api/plans', async (req: Request, res: Response) => {
+    try {
+      const plans = await planService.list();
+      return res.status(200).json(plans);
+    } catch (error) {
+      console.error('Get plans error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Check a Coupon Against a Plan
+  app.post('/api/coupons/quote', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { plan: planCode, currency, couponCode } = couponQuoteSchema.parse(req.body);
+      
+      const plan = await planService.get(planCode);
+      const price = plan?.active ? planService.priceFor(plan, currency) : undefined;
+      if (!plan || price === undefined) {
+        return res.status(400).json({ message: 'Invalid plan type' });
+      }
+      
+      const quote = await couponService.quote(userId, couponCode, plan, currency, price);
+      if (!quote.valid) {
+        return res.status(400).json({ message: quote.message });
+      }
+      
+      return res.status(200).json({
+        couponCode: quote.coupon.code,
+        price: quote.price,
+        discount: quote.discount,
+        total: quote.total,
+        currency
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Coupon quote error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Payment Routes
+  app.post('/api/payment/initiate', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { plan: planCode, currency, couponCode } = paymentInitiationSchema.parse(req.body);
+      
+      const plan = await planService.get(planCode);
+      if (!plan || !plan.active) {
+        return res.status(400).json({ message: 'Invalid plan type' });
+      }
+      
+      // Get user
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Determine amount from the plan catalogue, in the smallest currency unit
+      const price = planService.priceFor(plan, currency);
+      if (price === undefined) {
+        return res.status(400).json({ message: `${plan.name} is not available in ${currency}` });
+      }
+      
+      // Apply the coupon, if any
+      let amount = price;
+      let discount = 0;
+      let coupon: Coupon | null = null;
+      if (couponCode) {
+        const quote = await couponService.quote(userId, couponCode, plan, currency, price);
+        if (!quote.valid) {
+          return res.status(400).json({ message: quote.message });
+        }
+        amount = quote.total;
+        discount = quote.discount;
+        coupon = quote.coupon;
+      }
+      
+      const provider = paymentService.forCurrency(currency);
+      if (!provider) {
+        return res.status(503).json({ message: `Payments in ${currency} are not available right now` });
+      }
+      
+      // The order holds a use of the coupon until it is paid or fails
+      if (coupon && !await couponService.redeem(coupon)) {
+        return res.status(400).json({ message: 'This coupon has been fully redeemed' });
+      }
+      
+      // No order means nothing the user could pay for, so the failure goes back to them
+      let order;
+      try {
+        order = await provider.createOrder({
+          amount,
+          currency,
+          receipt: `user_${userId}_${Date.now()}`,
+          description: plan.name,
+          returnUrl: `${publicUrl}/dashboard`
+        });
+      } catch (error) {
+        console.error(`Create ${provider.name} order error:`, error);
+        await couponService.release(coupon?.code ?? null);
+        return res.status(502).json({ message: 'Could not start the payment, please try again' });
+      }
+      
+      // Store payment details; an order that is not recorded can never be paid, so its coupon use goes back
+      try {
+        await storage.createPayment({
+          userId,
+          amount,
+          currency,
+          orderId: order.id,
+          status: 'pending',
+          planType: plan.code,
+          provider: provider.name,
+          couponCode: coupon?.code ?? null,
+          discount
+        });
+      } catch (error) {
+        await couponService.release(coupon?.code ?? null);
+        throw error;
+      }
+      
+      return res.status(200).json({
+        message: 'Payment initiated',
+        provider: provider.name,
+        key: provider.publicKey,
+        order_id: order.id,
+        checkout_url: order.checkoutUrl,
+        amount,
+        discount,
+        currency
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Payment initiation error:', error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to initiate payment'
+      });
+    }
+  });
+
+  app.post('/api/payment/verify', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const { order_id, payment_id, signature } = paymentVerificationSchema.parse(req.body);
+      
+      // Another user's order looks the same as one that doesn't exist
+      const payment = await storage.getPaymentByOrderId(order_id);
+      if (!payment || payment.userId !== userId) {
+        return res.status(404).json({ message: 'Payment record not found' });
+      }
+      
+      // The webhook may have completed this payment already; confirming it again grants nothing
+      if (payment.status === 'completed' && (!payment_id || payment.paymentId === payment_id)) {
+        return res.status(200).json({
+          message: 'Payment already verified',
+          status: 'completed'
         });
-      } else if (payment.planType === 'pack') {
-        // Add 20 attempts to the user's account
-        await storage.updateUser(userId, {
-          freeAttempts: user.freeAttempts + 20
+      }
+      
+      if (!paymentProcessor.canTransition(payment, 'completed')) {
+        return res.status(409).json({ message: `Payment is already ${payment.status}` });
+      }
+      
+      const provider = paymentService.get(payment.provider);
+      if (!provider) {
+        return res.status(503).json({ message: 'This payment cannot be verified right now' });
+      }
+      
+      // Check with the provider that the full order amount was actually captured
+      const providerPayment = await provider.confirmCheckout(order_id, { paymentId: payment_id, signature });
+      if (!providerPayment) {
+        return res.status(400).json({ message: 'Invalid payment signature' });
+      }
+      
+      // Some payment methods settle later; the webhook completes those
+      if (providerPayment.status === 'pending') {
+        return res.status(202).json({
+          message: 'Payment is still processing',
+          status: 'pending'
         });
       }
       
+      if (providerPayment.status !== 'captured' || !paymentProcessor.matchesOrder(payment, providerPayment)) {
+        await paymentProcessor.fail(payment, providerPayment.id);
+        return res.status(400).json({ message: 'Payment does not match the order' });
+      }
+      
+      // Single use: only the request that moves the payment out of pending grants the plan
+      const completed = await paymentProcessor.complete(payment, providerPayment.id);
+      if (!completed) {
+        return res.status(409).json({ message: 'Payment has already been processed' });
+      }
+      
       return res.status(200).json({
         message: 'Payment verified successfully',
         status: 'completed'
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       console.error('Payment verification error:', error);
       return res.status(500).json({ 
         message: error instanceof Error ? error.message : 'Failed to verify payment'
@@ -391,6 +1603,456 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Provider Webhooks (called by the provider, not the browser); the bare path is Razorpay's
+  app.post('/api/payment/webhook/:provider?', async (req: Request, res: Response) => {
+    try {
+      const provider = paymentService.get(req.params.provider ?? 'razorpay');
+      if (!provider) {
+        return res.status(404).json({ message: 'Unknown payment provider' });
+      }
+      
+      const event = req.rawBody ? provider.parseWebhook(req.rawBody, req.headers) : null;
+      if (!event) {
+        return res.status(400).json({ message: 'Invalid webhook signature' });
+      }
+      
+      // Providers retry deliveries, so each event is claimed before it is applied and only applied once
+      if (event.id && !await storage.claimPaymentEvent({ eventId: event.id, type: event.name, orderId: event.orderId })) {
+        return res.status(200).json({ status: 'duplicate' });
+      }
+      
+      try {
+        await paymentProcessor.handleWebhookEvent(provider, event);
+      } catch (error) {
+        // Give the event back so the provider's next delivery applies it
+        if (event.id) {
+          await storage.releasePaymentEvent(event.id);
+        }
+        throw error;
+      }
+      
+      return res.status(200).json({ status: 'ok' });
+    } catch (error) {
+      console.error('Payment webhook error:', error);
+      return res.status(500).json({ message: 'Failed to process webhook' });
+    }
+  });
+
+  // Billing History
+  app.get('/api/payments', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const payments = await storage.getUserPayments(userId);
+      const invoices = await storage.getUserInvoices(userId);
+      const invoiceNumbers = new Map(invoices.map(invoice => [invoice.paymentId, invoice.invoiceNumber]));
+      
+      return res.status(200).json(payments.map(payment => ({
+        id: payment.id,
+        planType: payment.planType,
+        amount: payment.amount,
+        discount: payment.discount,
+        currency: payment.currency,
+        couponCode: payment.couponCode,
+        status: payment.status,
+        timestamp: payment.timestamp,
+        invoiceNumber: invoiceNumbers.get(payment.id) ?? null,
+        // Paid orders get an invoice on first download even if issuing failed at checkout
+        invoiceAvailable: payment.status === 'completed' || payment.status === 'refunded'
+      })));
+    } catch (error) {
+      console.error('Get payments error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Download the Invoice for a Payment
+  app.get('/api/payments/:id/invoice', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const payment = await storage.getPayment(Number(req.params.id));
+      
+      if (!payment || payment.userId !== userId) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+      
+      const invoice = await invoiceService.forPayment(payment);
+      if (!invoice) {
+        return res.status(409).json({ message: 'Invoices are only available for completed payments' });
+      }
+      
+      const pdf = await invoiceService.render(invoice);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="invoice-${invoice.invoiceNumber}.pdf"`);
+      return res.status(200).send(pdf);
+    } catch (error) {
+      console.error('Invoice download error:', error);
+      return res.status(500).json({ message: 'Failed to generate invoice' });
+    }
+  });
+
+  // Billing Details Printed on Invoices
+  app.get('/api/billing-details', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      return res.status(200).json({
+        billingName: user.billingName ?? user.username,
+        billingAddress: user.billingAddress,
+        gstin: user.gstin
+      });
+    } catch (error) {
+      console.error('Get billing details error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/billing-details', authenticate, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId as number;
+      const details = billingDetailsSchema.parse(req.body);
+      
+      // Invoices already issued keep the details they were issued with
+      const user = await storage.updateUser(userId, {
+        billingName: details.billingName,
+        billingAddress: details.billingAddress ?? null,
+        gstin: details.gstin ?? null
+      });
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      return res.status(200).json({
+        billingName: user.billingName,
+        billingAddress: user.billingAddress,
+        gstin: user.gstin
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Update billing details error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Search Users
+  app.get('/api/admin/users', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const { q, page, pageSize } = adminUserSearchSchema.parse(req.query);
+      const { users, total } = await storage.searchUsers(q, (page - 1) * pageSize, pageSize);
+      
+      return res.status(200).json({
+        users: users.map(adminUserView),
+        total,
+        page,
+        pageSize
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Search users error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: View a User
+  app.get('/api/admin/users/:id', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      return res.status(200).json(adminUserView(user));
+    } catch (error) {
+      console.error('Get user error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: A User's Assignment History
+  app.get('/api/admin/users/:id/assignments', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const assignments = await storage.getAssignmentHistory(user.id);
+      return res.status(200).json(assignments);
+    } catch (error) {
+      console.error('Get user assignments error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: A User's Payments
+  app.get('/api/admin/users/:id/payments', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const payments = await storage.getUserPayments(user.id);
+      return res.status(200).json(payments);
+    } catch (error) {
+      console.error('Get user payments error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Change a User's Role or Subscription
+  app.patch('/api/admin/users/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const adminId = req.session.userId as number;
+      const updates = adminUserUpdateSchema.parse(req.body);
+      
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Someone has to be left who can grant roles
+      if (user.id === adminId && updates.role && updates.role !== 'admin') {
+        return res.status(400).json({ message: 'You cannot remove your own admin role' });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, updates);
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      await auditService.record(adminId, 'user.update', { type: 'user', id: user.id }, {
+        before: {
+          role: user.role,
+          subscriptionStatus: user.subscriptionStatus,
+          subscriptionExpiresAt: user.subscriptionExpiresAt
+        },
+        after: updates
+      });
+      
+      return res.status(200).json(adminUserView(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Update user error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Usage and Revenue Over Time
+  app.get('/api/admin/stats', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+      
+      const usage = await storage.getDailyUsage(since);
+      const revenue = await storage.getDailyRevenue(since);
+      
+      return res.status(200).json({ since, days, usage, revenue });
+    } catch (error) {
+      console.error('Get stats error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Refund a Payment
+  app.post('/api/admin/payments/:id/refund', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const adminId = req.session.userId as number;
+      const { amount: requestedAmount, reason } = refundRequestSchema.parse(req.body);
+      
+      const payment = await storage.getPayment(Number(req.params.id));
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+      
+      if (payment.status !== 'completed' || !payment.paymentId) {
+        return res.status(409).json({ message: `Payment is ${payment.status}` });
+      }
+      
+      const refundable = payment.amount - payment.refundedAmount;
+      const amount = requestedAmount ?? refundable;
+      if (amount > refundable) {
+        return res.status(400).json({ message: 'Refund exceeds the amount left on the payment' });
+      }
+      
+      const provider = paymentService.get(payment.provider);
+      if (!provider) {
+        return res.status(503).json({ message: `Refunds through ${payment.provider} are not available right now` });
+      }
+      
+      let outcome;
+      try {
+        outcome = await paymentProcessor.refund(payment, provider, amount, reason, adminId);
+      } catch (error) {
+        console.error(`${provider.name} refund error:`, error);
+        return res.status(502).json({ message: 'The payment provider could not process the refund' });
+      }
+      
+      if (!outcome) {
+        return res.status(409).json({ message: 'Payment has changed, please reload and try again' });
+      }
+      
+      return res.status(200).json({
+        message: 'Payment refunded',
+        status: outcome.payment.status,
+        refundedAmount: outcome.payment.refundedAmount,
+        attemptsRevoked: outcome.attemptsRevoked,
+        daysRevoked: outcome.daysRevoked
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Refund error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Adjust a User's Attempts
+  app.post('/api/admin/users/:id/credits', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const adminId = req.session.userId as number;
+      const { amount, reason } = creditAdjustmentSchema.parse(req.body);
+      
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const entry = await creditService.grant(user.id, 'admin_adjustment', amount, reason, `admin:${adminId}`);
+      if (!entry) {
+        return res.status(400).json({ message: 'Adjustment would take the balance below zero' });
+      }
+      
+      await auditService.record(adminId, 'credits.adjust', { type: 'user', id: user.id }, {
+        amount,
+        reason,
+        balanceAfter: entry.balanceAfter
+      });
+      
+      return res.status(200).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Credit adjustment error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: List Coupons
+  app.get('/api/admin/coupons', authenticate, authorize('support', 'admin'), async (req: Request, res: Response) => {
+    try {
+      const coupons = await storage.getCoupons();
+      return res.status(200).json(coupons);
+    } catch (error) {
+      console.error('Get coupons error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Coupons may only name plans that exist, or nobody could ever use them
+  const unknownPlanCode = async (planCodes: string[] | null | undefined) => {
+    if (!planCodes) return undefined;
+    const known = new Set((await planService.list(true)).map(plan => plan.code));
+    return planCodes.find(code => !known.has(code));
+  };
+
+  // Admin: Create a Coupon
+  app.post('/api/admin/coupons', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const adminId = req.session.userId as number;
+      const couponData = insertCouponSchema.parse(req.body);
+      
+      const unknownPlan = await unknownPlanCode(couponData.planCodes);
+      if (unknownPlan) {
+        return res.status(400).json({ message: `Unknown plan ${unknownPlan}` });
+      }
+      
+      if (await storage.getCouponByCode(couponData.code)) {
+        return res.status(409).json({ message: 'A coupon with this code already exists' });
+      }
+      
+      const coupon = await storage.createCoupon(couponData);
+      
+      await auditService.record(adminId, 'coupon.create', { type: 'coupon', id: coupon.id }, couponData);
+      
+      return res.status(201).json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Create coupon error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Change or Deactivate a Coupon
+  app.patch('/api/admin/coupons/:id', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const adminId = req.session.userId as number;
+      const updates = couponUpdateSchema.parse(req.body);
+      
+      const coupon = await storage.getCoupon(Number(req.params.id));
+      if (!coupon) {
+        return res.status(404).json({ message: 'Coupon not found' });
+      }
+      
+      const unknownPlan = await unknownPlanCode(updates.planCodes);
+      if (unknownPlan) {
+        return res.status(400).json({ message: `Unknown plan ${unknownPlan}` });
+      }
+      
+      const updatedCoupon = await storage.updateCoupon(coupon.id, updates);
+      if (!updatedCoupon) {
+        return res.status(404).json({ message: 'Coupon not found' });
+      }
+      
+      await auditService.record(adminId, 'coupon.update', { type: 'coupon', id: coupon.id }, {
+        before: {
+          active: coupon.active,
+          expiresAt: coupon.expiresAt,
+          maxRedemptions: coupon.maxRedemptions,
+          perUserLimit: coupon.perUserLimit,
+          planCodes: coupon.planCodes
+        },
+        after: updates
+      });
+      
+      return res.status(200).json(updatedCoupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error('Update coupon error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin: Recent Audit Log
+  app.get('/api/admin/audit', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+    try {
+      const entries = await auditService.recent();
+      return res.status(200).json(entries);
+    } catch (error) {
+      console.error('Get audit log error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
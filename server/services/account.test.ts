@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import * as bcrypt from 'bcrypt';
+import { storage } from '../storage';
+import { accountService, recentSignInMs } from './account';
+import { dataExportService } from './dataExport';
+import { fileProcessor } from './fileProcessor';
+import { supabaseService } from './supabase';
+
+describe('AccountService', () => {
+  let userCount = 0;
+
+  const createUser = async (googleId: string | null = null) => {
+    userCount++;
+    const user = await storage.createUser({ username: `holder${userCount}`, email: `holder${userCount}@example.com`, password: 'password1' });
+    return googleId ? (await storage.updateUser(user.id, { googleId }))! : user;
+  };
+
+  const isStored = (url: string) => {
+    const location = supabaseService.locateFile(url)!;
+    return supabaseService.getFile(location.path, location.bucket).then(() => true, () => false);
+  };
+
+  it('lets a Google-linked account delete itself after signing in again, without a password', async () => {
+    const user = await createUser(`google-${userCount}`);
+
+    const stale = await accountService.deleteAccount(user, { signedInAt: Date.now() - recentSignInMs - 1000 });
+    expect(stale).toEqual({ ok: false, reason: 'password', message: 'Please sign in with Google again to confirm this change' });
+
+    const result = await accountService.deleteAccount(user, { signedInAt: Date.now() });
+    expect(result.ok).toBe(true);
+    expect((await storage.getUser(user.id))?.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('still asks a password account for its password, however recently it signed in', async () => {
+    const user = await createUser();
+
+    const result = await accountService.deleteAccount(user, { signedInAt: Date.now() });
+
+    expect(result).toMatchObject({ ok: false, message: 'Password is incorrect' });
+    expect((await storage.getUser(user.id))?.deletedAt).toBeNull();
+  });
+
+  it('lets a Google-linked account set a password after signing in again', async () => {
+    const user = await createUser(`google-${userCount}`);
+
+    const result = await accountService.changePassword(user, { signedInAt: Date.now() }, 'chosen-password1', 'session-id');
+
+    expect(result.ok).toBe(true);
+    expect(await bcrypt.compare('chosen-password1', (await storage.getUser(user.id))!.password)).toBe(true);
+  });
+
+  it("deletes the account's own uploads but not another user's file its assignments point at", async () => {
+    const user = await createUser();
+    const other = await createUser();
+    const file = { originalname: 'homework.pdf', buffer: Buffer.from('%PDF') };
+    const ownUpload = await fileProcessor.uploadFile(file, user.id);
+    const othersUpload = await fileProcessor.uploadFile(file, other.id);
+    await storage.createAssignment({ userId: user.id, fileName: 'homework.pdf', fileUrl: ownUpload });
+    await storage.createAssignment({ userId: user.id, fileName: 'homework.pdf', fileUrl: othersUpload });
+
+    expect((await accountService.deleteAccount(user, { password: 'password1' })).ok).toBe(true);
+
+    expect(await isStored(ownUpload)).toBe(false);
+    expect(await isStored(othersUpload)).toBe(true);
+  });
+
+  it('removes the email and username from audit entries about the deleted account', async () => {
+    const user = await createUser();
+    await accountService.updateProfile(user, { username: `renamed${userCount}`, email: `renamed${userCount}@example.com`, currentPassword: 'password1' }, 'https://solvem8.test');
+    const renamed = (await storage.getUser(user.id))!;
+
+    expect((await accountService.deleteAccount(renamed, { password: 'password1' })).ok).toBe(true);
+
+    const entries = (await storage.getAuditLog(1000)).filter(entry => entry.targetType === 'user' && entry.targetId === String(user.id));
+    expect(entries.map(entry => entry.action)).toEqual(expect.arrayContaining(['user.update_profile', 'user.delete']));
+    const logged = JSON.stringify(entries.map(entry => entry.details));
+    expect(logged).not.toContain(user.email);
+    expect(logged).not.toContain(user.username);
+    expect(logged).not.toContain(renamed.email);
+    expect(logged).not.toContain(renamed.username);
+  });
+
+  it('deletes the archives of data exports along with the account', async () => {
+    const user = await createUser();
+    const exportId = '00000000-0000-4000-8000-000000000001';
+    await storage.saveDataExport({ id: exportId, userId: user.id, expiresAt: new Date(Date.now() + recentSignInMs) });
+    await supabaseService.uploadFile(Buffer.from('PK'), 'exports', `exports/${user.id}/${exportId}.zip`);
+    expect(await dataExportService.download(user.id, exportId)).toBeInstanceOf(Buffer);
+
+    expect((await accountService.deleteAccount(user, { password: 'password1' })).ok).toBe(true);
+
+    expect(await dataExportService.download(user.id, exportId)).toBeUndefined();
+    expect(await isStored(`mock-url/exports/exports/${user.id}/${exportId}.zip`)).toBe(false);
+  });
+});
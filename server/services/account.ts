@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { storage } from '../storage';
+import { auditService } from './audit';
+import { authTokenService } from './authTokens';
+import { assignmentService } from './assignments';
+import { dataExportService } from './dataExport';
+import { sessionService } from './sessions';
+import type { User } from '@shared/schema';
+
+// How recently a Google-linked user must have signed in for that to confirm a change
+export const recentSignInMs = 10 * 60 * 1000;
+
+/**
+ * Changes a user may make to their own profile
+ */
+export interface ProfileUpdate {
+  username?: string;
+  email?: string;
+  currentPassword?: string; // needed to change the email
+}
+
+/**
+ * What a user offers to prove it is them before a sensitive change
+ */
+export interface Reauthentication {
+  password?: string;
+  signedInAt?: number; // when the requesting device last signed in, in ms
+}
+
+/**
+ * Outcome of changing account details
+ */
+export type AccountChange =
+  | { ok: true; user: User }
+  | { ok: false; reason: 'password' | 'conflict'; message: string };
+
+type AccountRefusal = Extract<AccountChange, { ok: false }>;
+
+class AccountService {
+  /**
+   * Change the user's username or email
+   *
+   * A new email has to be verified again, and needs the current password so a
+   * stolen session cannot move the account to an address the attacker reads.
+   * @param user User making the change
+   * @param update New details
+   * @param appUrl Origin for the verification link
+   * @param signedInAt When the requesting device last signed in, in ms
+   * @returns The updated user, or why the change was refused
+   */
+  async updateProfile(user: User, update: ProfileUpdate, appUrl: string, signedInAt?: number): Promise<AccountChange> {
+    const changes: Partial<User> = {};
+
+    if (update.username !== undefined && update.username !== user.username) {
+      const existing = await storage.getUserByUsername(update.username);
+      if (existing && existing.id !== user.id) {
+        return { ok: false, reason: 'conflict', message: 'Username already taken' };
+      }
+      changes.username = update.username;
+    }
+
+    const emailChanged = update.email !== undefined && update.email.toLowerCase() !== user.email.toLowerCase();
+    if (emailChanged) {
+      const refusal = await this.reauthenticate(user, { password: update.currentPassword, signedInAt }, 'Current password is incorrect');
+      if (refusal) {
+        return refusal;
+      }
+
+      const existing = await storage.getUserByEmail(update.email!);
+      if (existing && existing.id !== user.id) {
+        return { ok: false, reason: 'conflict', message: 'Email already in use' };
+      }
+      changes.email = update.email;
+      changes.emailVerifiedAt = null;
+    } else if (update.email !== undefined && update.email !== user.email) {
+      // Only the capitalisation changed, which does not need verifying again
+      changes.email = update.email;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { ok: true, user };
+    }
+
+    const updated = await storage.updateUser(user.id, changes) ?? user;
+
+    if (emailChanged) {
+      // Links already sent went to the old address
+      await storage.revokeAuthTokens(user.id, 'email_verification');
+      await storage.revokeAuthTokens(user.id, 'password_reset');
+
+      // The change stands even if the mail does not go out; the user can resend it
+      try {
+        await authTokenService.sendVerification(updated, appUrl);
+      } catch (error) {
+        console.error('Verification email error:', error);
+      }
+    }
+
+    await auditService.record(user.id, 'user.update_profile', { type: 'user', id: user.id }, {
+      ...(changes.username !== undefined && { username: { from: user.username, to: changes.username } }),
+      ...(changes.email !== undefined && { email: { from: user.email, to: changes.email } })
+    });
+    return { ok: true, user: updated };
+  }
+
+  /**
+   * Change the user's password, signing out their other devices
+   * @param user User making the change
+   * @param proof Current password, or a recent sign-in for a Google-linked account
+   * @param newPassword Password to set
+   * @param currentSessionId Session ID of the device making the change, which stays signed in
+   * @returns The updated user, or why the change was refused
+   */
+  async changePassword(
+    user: User,
+    proof: Reauthentication,
+    newPassword: string,
+    currentSessionId: string
+  ): Promise<AccountChange> {
+    const refusal = await this.reauthenticate(user, proof, 'Current password is incorrect');
+    if (refusal) {
+      return refusal;
+    }
+
+    const updated = await storage.updateUserPassword(user.id, newPassword) ?? user;
+    await storage.revokeAuthTokens(user.id, 'password_reset');
+    await sessionService.revokeOthers(user.id, currentSessionId);
+
+    await auditService.record(user.id, 'user.password_change', { type: 'user', id: user.id });
+    return { ok: true, user: updated };
+  }
+
+  /**
+   * Delete the user's account
+   *
+   * Assignments, data exports and their stored files are removed. Payments are
+   * kept for the accounts, so the user row stays behind with every personal
+   * detail replaced.
+   * @param user User deleting their account
+   * @param proof Password, or a recent sign-in for a Google-linked account
+   * @returns The scrubbed user, or why the deletion was refused
+   */
+  async deleteAccount(user: User, proof: Reauthentication): Promise<AccountChange> {
+    const refusal = await this.reauthenticate(user, proof, 'Password is incorrect');
+    if (refusal) {
+      return refusal;
+    }
+
+    // Files first, so a storage failure leaves the account intact to try again
+    const assignments = await storage.getAssignmentHistory(user.id);
+    await assignmentService.deleteFiles(assignments);
+    await dataExportService.deleteForUser(user.id);
+
+    await sessionService.revokeAll(user.id);
+
+    const placeholder = `deleted-${user.id}-${crypto.randomBytes(4).toString('hex')}`;
+    const erased = await storage.eraseUser(user.id, {
+      username: placeholder,
+      email: `${placeholder}@deleted.invalid`,
+      password: await bcrypt.hash(crypto.randomBytes(32).toString('base64url'), 10),
+      freeAttempts: 0,
+      subscriptionStatus: 'free',
+      subscriptionExpiresAt: null,
+      referralCode: null,
+      billingName: null,
+      billingAddress: null,
+      gstin: null,
+      role: 'user',
+      emailVerifiedAt: null,
+      googleId: null,
+      deletedAt: new Date()
+    }) ?? user;
+
+    await auditService.record(user.id, 'user.delete', { type: 'user', id: user.id }, {
+      assignments: assignments.length
+    });
+    return { ok: true, user: erased };
+  }
+
+  /**
+   * Check that the account holder is the one making a sensitive change
+   *
+   * Accounts created or linked through Google have a random password the user
+   * was never told, so for them signing in with Google again shortly before
+   * the change also counts.
+   * @param user User making the change
+   * @param proof What the user offered
+   * @param incorrectMessage Message for a wrong password
+   * @returns Why the change is refused, or undefined if it may go ahead
+   */
+  private async reauthenticate(
+    user: User,
+    proof: Reauthentication,
+    incorrectMessage: string
+  ): Promise<AccountRefusal | undefined> {
+    if (proof.password) {
+      return await bcrypt.compare(proof.password, user.password)
+        ? undefined
+        : { ok: false, reason: 'password', message: incorrectMessage };
+    }
+
+    if (user.googleId === null) {
+      return { ok: false, reason: 'password', message: incorrectMessage };
+    }
+    if (proof.signedInAt === undefined || Date.now() - proof.signedInAt > recentSignInMs) {
+      return { ok: false, reason: 'password', message: 'Please sign in with Google again to confirm this change' };
+    }
+    return undefined;
+  }
+}
+
+export const accountService = new AccountService();
@@ -1,104 +1,198 @@
+import { createLlmProvider, type GenerationConfig, type LlmProvider } from './llm';
+import { promptTemplates, answerStyleInstructions } from './promptTemplates';
+import {
+  answerStyles,
+  subjects,
+  type AnswerStyle,
+  type AssignmentHistory,
+  type AssignmentQuestion,
+  type ParsedQuestion,
+  type SolveOptions,
+  type Subject
+} from '@shared/schema';
+
 /**
- * Service for interacting with Gemini AI
+ * Service for solving assignments with the configured LLM provider
  */
 
-// Get Gemini API key from environment variables
-const geminiApiKey = process.env.GEMINI_API_KEY || 'dummy-key';
+export interface PromptSelection {
+  subject: Subject;
+  templateId: string;
+  answerStyle: AnswerStyle;
+}
+
+export interface RefinementTurn {
+  feedback: string;
+  solution: string;
+}
+
+// Default generation settings for assignment solutions
+const defaultGenerationConfig: GenerationConfig = {
+  temperature: 0.2,
+  maxOutputTokens: 2048,
+  topP: 0.8,
+  topK: 40
+};
 
 class AiService {
+  constructor(private readonly provider: LlmProvider = createLlmProvider()) {}
+
+  /**
+   * Choose the prompt template and answer style for an assignment
+   * @param text The assignment text, used to detect the subject when none is given
+   * @param options Subject and answer style chosen by the student
+   * @returns The template and style to use
+   */
+  selectPrompt(text: string, options: SolveOptions = {}): PromptSelection {
+    const subject = options.subject ?? promptTemplates.detectSubject(text);
+    
+    return {
+      subject,
+      templateId: promptTemplates.forSubject(subject).id,
+      answerStyle: options.answerStyle ?? 'step-by-step'
+    };
+  }
+
+  /**
+   * Recover the template and style a stored assignment was solved with
+   * @param assignment Assignment history row
+   * @returns The template and style to reuse
+   */
+  selectionFor(assignment: AssignmentHistory): PromptSelection {
+    const subject = subjects.find(value => value === assignment.subject) ?? 'general';
+    const answerStyle = answerStyles.find(value => value === assignment.answerStyle) ?? 'step-by-step';
+    const template = (assignment.promptTemplate && promptTemplates.get(assignment.promptTemplate))
+      || promptTemplates.forSubject(subject);
+    
+    return { subject, templateId: template.id, answerStyle };
+  }
+
   /**
-   * Process an assignment with Gemini AI
+   * Process an assignment with the LLM provider
    * @param text The text to process
+   * @param selection Template and answer style; chosen automatically when omitted
    * @returns The solution generated by the AI
    */
-  async processAssignment(text: string): Promise<string> {
+  async processAssignment(text: string, selection: PromptSelection = this.selectPrompt(text)): Promise<string> {
     try {
-      // Fetch from Gemini API
-      const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': geminiApiKey,
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `You are an expert tutor helping a student with their assignment. 
-                  Please solve the following problem step by step, showing clear explanations for each step.
-                  
-                  Assignment: ${text}
-                  
-                  Provide a detailed solution that will help the student understand the concepts involved.`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.2,
-            maxOutputTokens: 2048,
-            topP: 0.8,
-            topK: 40
-          }
-        })
+      return await this.provider.generate({
+        prompt: this.buildPrompt(text, selection),
+        config: defaultGenerationConfig
       });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error('Gemini API Error:', errorData);
-        throw new Error(`Failed to process assignment with Gemini: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      // Extract the solution text from the response
-      if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
-        return data.candidates[0].content.parts[0].text;
-      } else {
-        throw new Error('Invalid response format from Gemini API');
-      }
     } catch (error) {
-      console.error('AI processing error:', error);
-      
-      // For development without an API key, return a simulated response
-      if (!geminiApiKey || geminiApiKey === 'dummy-key') {
-        console.log('Using simulated AI response due to missing API key');
-        return this.getSimulatedResponse(text);
-      }
-      
+      console.error(`AI processing error (${this.provider.name}):`, error);
       throw new Error(error instanceof Error ? error.message : 'Failed to process with AI');
     }
   }
-  
+
   /**
-   * Generate a simulated response for development purposes
-   * @param text The input text
-   * @returns A simulated AI response
+   * Solve a single question parsed from an assignment
+   * @param question The question with its sub-parts and options
+   * @param selection Template and answer style; chosen automatically when omitted
+   * @returns The solution generated by the AI
    */
-  private getSimulatedResponse(text: string): string {
-    // This is only used when no API key is available for development
-    return `Step-by-step solution:
-
-1. First, let's understand the problem:
-${text}
+  async solveQuestion(question: ParsedQuestion, selection?: PromptSelection): Promise<string> {
+    const lines = [`Question ${question.number}: ${question.text}`];
+    
+    for (const part of question.subParts) {
+      lines.push(`(${part.label}) ${part.text}`);
+    }
+    
+    if (question.options.length > 0) {
+      lines.push('Options:');
+      for (const option of question.options) {
+        lines.push(`${option.label}. ${option.text}`);
+      }
+    }
+    
+    const text = lines.join('\n');
+    return this.processAssignment(text, selection ?? this.selectPrompt(text));
+  }
 
-2. We'll start by analyzing the key components:
-   - The problem requires understanding the fundamental concepts
-   - We need to apply appropriate formulas and methods
+  /**
+   * Combine per-question answers into a single solution document
+   * @param questions Questions with their answers
+   * @returns Markdown solution covering every question
+   */
+  combineSolutions(questions: AssignmentQuestion[]): string {
+    return questions
+      .map(question => `### Question ${question.number}\n\n${question.solution ?? '_No solution generated._'}`)
+      .join('\n\n');
+  }
 
-3. Solution approach:
-   - Break down the problem into manageable parts
-   - Apply relevant formulas to each part
-   - Combine the results for the final answer
+  /**
+   * Stream the solution for an assignment as it is generated
+   * @param text The text to process
+   * @param selection Template and answer style
+   * @param signal Optional signal that cancels generation
+   * @returns Async iterable of solution chunks
+   */
+  streamAssignment(text: string, selection: PromptSelection, signal?: AbortSignal): AsyncIterable<string> {
+    return this.provider.stream({
+      prompt: this.buildPrompt(text, selection),
+      config: defaultGenerationConfig
+    }, signal);
+  }
 
-4. Working through the solution:
-   [Detailed calculations would be shown here]
+  /**
+   * Refine an existing solution based on student feedback
+   * @param text The original assignment text
+   * @param solution The original solution
+   * @param turns Earlier refinement turns, oldest first
+   * @param feedback The new feedback to address
+   * @param selection Template the original solution was written with
+   * @returns The refined solution
+   */
+  async refineSolution(
+    text: string,
+    solution: string,
+    turns: RefinementTurn[],
+    feedback: string,
+    selection: PromptSelection = this.selectPrompt(text)
+  ): Promise<string> {
+    const template = promptTemplates.get(selection.templateId) || promptTemplates.forSubject(selection.subject);
+    const conversation = turns
+      .map((turn, index) => `Student feedback ${index + 1}: ${turn.feedback}\n\nRevised solution ${index + 1}:\n${turn.solution}`)
+      .join('\n\n');
 
-5. Final answer:
-   Based on our calculations, the solution demonstrates the application of the core principles involved in this problem.
+    try {
+      return await this.provider.generate({
+        prompt: `You are ${template.persona} helping a student with their assignment.
+                  ${template.guidance}
+                  You already gave the student a solution and they have asked you to refine it.
+                  
+                  Assignment: ${text}
+                  
+                  Original solution:
+                  ${solution}
+                  
+                  ${conversation}
+                  
+                  New student feedback: ${feedback}
+                  
+                  Rewrite the latest solution so that it addresses the new feedback, keeping the parts that are still correct.
+                  Respond with the complete revised solution only.`,
+        config: defaultGenerationConfig
+      });
+    } catch (error) {
+      console.error(`AI refinement error (${this.provider.name}):`, error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to refine with AI');
+    }
+  }
 
-Note: This is a simulated AI response. In production, this would be replaced with an actual Gemini API response.`;
+  /**
+   * Build the tutor prompt for an assignment
+   * @param text The assignment text
+   * @param selection Template and answer style
+   * @returns The prompt sent to the provider
+   */
+  private buildPrompt(text: string, selection: PromptSelection): string {
+    const template = promptTemplates.get(selection.templateId) || promptTemplates.forSubject(selection.subject);
+    
+    return promptTemplates.render(template, {
+      assignment: text,
+      styleInstructions: answerStyleInstructions[selection.answerStyle]
+    });
   }
 }
 
@@ -0,0 +1,20 @@
+// Where the dev server listens
+const developmentUrl = 'http://localhost:5000';
+
+/**
+ * Read the public origin of the app, used for links in emails and payment redirects
+ *
+ * Production refuses to start without APP_URL, so a forged Host header can
+ * never choose where those links send people.
+ * @param env Environment to read the configuration from
+ * @returns The origin, without a trailing slash
+ */
+export function appUrl(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.APP_URL) {
+    return env.APP_URL.replace(/\/+$/, '');
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('APP_URL must be set in production');
+  }
+  return developmentUrl;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { assignmentService } from './assignments';
+import { fileProcessor } from './fileProcessor';
+import { supabaseService } from './supabase';
+
+describe('AssignmentService', () => {
+  let userCount = 0;
+
+  const createUser = () => {
+    userCount++;
+    return storage.createUser({ username: `student${userCount}`, email: `student${userCount}@example.com`, password: 'password1' });
+  };
+
+  const upload = (userId: number) =>
+    fileProcessor.uploadFile({ originalname: 'homework.pdf', buffer: Buffer.from('%PDF') }, userId);
+
+  const isStored = (url: string) => {
+    const location = supabaseService.locateFile(url)!;
+    return supabaseService.getFile(location.path, location.bucket).then(() => true, () => false);
+  };
+
+  it('stores uploads under the uploader and recognises only their own files', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const url = await upload(owner.id);
+
+    expect(url).toMatch(new RegExp(`^mock-url/assignments/assignments/${owner.id}/[0-9a-f-]+\\.pdf$`));
+    expect(assignmentService.ownsFile(owner.id, url)).toBe(true);
+    expect(assignmentService.ownsFile(other.id, url)).toBe(false);
+    expect(assignmentService.ownsFile(owner.id, `mock-url/solutions/solutions/${owner.id}/solution.pdf`)).toBe(true);
+    expect(assignmentService.ownsFile(owner.id, `mock-url/assignments/assignments/${owner.id}/../${other.id}/x.pdf`)).toBe(false);
+    expect(assignmentService.ownsFile(owner.id, 'https://example.com/homework.pdf')).toBe(false);
+  });
+
+  it("deletes the assignment's own files but not another user's file it points at", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const ownUpload = await upload(owner.id);
+    const othersUpload = await upload(other.id);
+
+    const own = await storage.createAssignment({ userId: owner.id, fileName: 'homework.pdf', fileUrl: ownUpload });
+    const pointingElsewhere = await storage.createAssignment({ userId: owner.id, fileName: 'homework.pdf', fileUrl: othersUpload });
+
+    expect(await assignmentService.deleteFiles([own, pointingElsewhere])).toBe(1);
+    expect(await isStored(ownUpload)).toBe(false);
+    expect(await isStored(othersUpload)).toBe(true);
+  });
+});
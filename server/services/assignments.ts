@@ -0,0 +1,84 @@
+import { storage } from '../storage';
+import { supabaseService } from './supabase';
+import type { AssignmentHistory } from '@shared/schema';
+
+class AssignmentService {
+  /**
+   * Delete an assignment along with its revisions and stored files
+   * @param assignment Assignment to delete
+   */
+  async remove(assignment: AssignmentHistory): Promise<void> {
+    // Files first, so a storage failure leaves the assignment in place to try again
+    await this.deleteFiles([assignment]);
+    await storage.deleteAssignment(assignment.id);
+  }
+
+  /**
+   * Record the PDF generated for an assignment, deleting the one it replaces
+   * @param assignment Assignment the PDF was generated from
+   * @param url URL of the stored PDF
+   * @returns The updated assignment
+   */
+  async setOutput(assignment: AssignmentHistory, url: string): Promise<AssignmentHistory> {
+    const updated = await storage.updateAssignment(assignment.id, { processedOutputUrl: url }) ?? assignment;
+
+    if (assignment.processedOutputUrl && assignment.processedOutputUrl !== url) {
+      // The assignment keeps working without it, so a leftover file is only logged
+      await this.deleteFiles([{ ...assignment, fileUrl: '' }]).catch(error => {
+        console.error('Old solution PDF cleanup error:', error);
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Check that a stored file belongs to a user
+   *
+   * Uploads are stored under assignments/<userId>/ and solution PDFs under
+   * solutions/<userId>/, so the path records who the file was stored for.
+   * @param userId ID of the user
+   * @param url URL of the file
+   * @returns Whether the file is one of the user's
+   */
+  ownsFile(userId: number, url: string): boolean {
+    const location = supabaseService.locateFile(url);
+    if (!location || location.path.split('/').some(segment => segment === '..' || segment === '.')) {
+      return false;
+    }
+
+    return (location.bucket === 'assignments' || location.bucket === 'solutions')
+      && location.path.startsWith(`${location.bucket}/${userId}/`);
+  }
+
+  /**
+   * Delete the stored files behind assignments that are about to be removed
+   *
+   * The file URL of a text assignment comes from the browser, so only files
+   * stored for the assignment's owner are deleted, and a file is left alone
+   * while any other assignment still points at it.
+   * @param assignments Assignments being removed
+   * @returns Number of files deleted
+   */
+  async deleteFiles(assignments: AssignmentHistory[]): Promise<number> {
+    const removing = new Set(assignments.map(assignment => assignment.id));
+    const urls = new Set(
+      assignments
+        .flatMap(assignment => [assignment.fileUrl, assignment.processedOutputUrl]
+          .filter((url): url is string => !!url && this.ownsFile(assignment.userId, url)))
+    );
+
+    let deleted = 0;
+    for (const url of Array.from(urls)) {
+      const location = supabaseService.locateFile(url)!;
+
+      const references = await storage.getAssignmentsByFileUrl(url);
+      if (references.some(reference => !removing.has(reference.id))) continue;
+
+      await supabaseService.deleteFile(location.path, location.bucket);
+      deleted++;
+    }
+    return deleted;
+  }
+}
+
+export const assignmentService = new AssignmentService();
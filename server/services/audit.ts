@@ -0,0 +1,38 @@
+import { storage } from '../storage';
+import type { AuditLogEntry } from '@shared/schema';
+
+class AuditService {
+  /**
+   * Record an action taken on someone's account or payment
+   * @param actorId User who took the action, or null for the system
+   * @param action What was done, e.g. 'payment.refund'
+   * @param target Kind and ID of the record acted on
+   * @param details Anything needed to understand the action later
+   * @returns The audit entry
+   */
+  async record(
+    actorId: number | null,
+    action: string,
+    target: { type: string; id: number | string },
+    details: Record<string, unknown> = {}
+  ): Promise<AuditLogEntry> {
+    return storage.createAuditEntry({
+      actorId,
+      action,
+      targetType: target.type,
+      targetId: String(target.id),
+      details
+    });
+  }
+
+  /**
+   * Get the most recent audit entries, newest first
+   * @param limit Maximum number of entries
+   * @returns Audit entries
+   */
+  async recent(limit: number = 100): Promise<AuditLogEntry[]> {
+    return storage.getAuditLog(limit);
+  }
+}
+
+export const auditService = new AuditService();
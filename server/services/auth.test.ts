@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import session from 'express-session';
+import passport from 'passport';
+import * as bcrypt from 'bcrypt';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { authService, GoogleStrategy, type OAuthProfile } from './auth';
+import { sessionService } from './sessions';
+
+const clientId = 'solvem8-test';
+const clientSecret = 'mock-secret';
+
+const randomId = () => crypto.randomBytes(8).toString('hex');
+
+interface MockUserInfo {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+}
+
+// A minimal OpenID provider: discovery, a code exchange and the user info endpoint
+const startMockProvider = async () => {
+  const codes = new Map<string, { redirectUri: string; info: MockUserInfo }>();
+  const accessTokens = new Map<string, MockUserInfo>();
+  let nextUser: MockUserInfo | null = null;
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, issuer());
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: issuer(),
+        authorization_endpoint: `${issuer()}/authorize`,
+        token_endpoint: `${issuer()}/token`,
+        userinfo_endpoint: `${issuer()}/userinfo`,
+      });
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const form = new URLSearchParams(body);
+      const grant = codes.get(form.get('code') ?? '');
+      if (
+        !grant
+        || form.get('client_id') !== clientId
+        || form.get('client_secret') !== clientSecret
+        || form.get('redirect_uri') !== grant.redirectUri
+      ) {
+        return json(400, { error: 'invalid_grant' });
+      }
+      // Codes work once
+      codes.delete(form.get('code')!);
+      const accessToken = `token-${randomId()}`;
+      accessTokens.set(accessToken, grant.info);
+      return json(200, { access_token: accessToken, token_type: 'Bearer' });
+    }
+
+    if (url.pathname === '/userinfo') {
+      const info = accessTokens.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+      return info ? json(200, info) : json(401, { error: 'invalid_token' });
+    }
+
+    json(404, {});
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const issuer = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    server,
+    issuer,
+    // What the user will sign in as on the provider's consent screen
+    signInAs(info: MockUserInfo) {
+      nextUser = info;
+    },
+    // The provider's side of the authorization redirect: approve and hand back a code
+    approve(authorizationUrl: string): string {
+      const url = new URL(authorizationUrl);
+      const code = `code-${randomId()}`;
+      const grant = { redirectUri: url.searchParams.get('redirect_uri')!, info: nextUser! };
+      codes.set(code, grant);
+      return `${grant.redirectUri}?code=${code}&state=${url.searchParams.get('state')}`;
+    },
+  };
+};
+
+describe('GoogleStrategy against a mock OpenID provider', () => {
+  let provider: Awaited<ReturnType<typeof startMockProvider>>;
+  let app: http.Server;
+  let appUrl: string;
+  let userCount = 0;
+
+  beforeAll(async () => {
+    provider = await startMockProvider();
+
+    const api = express();
+    api.use(session({ secret: 'test-secret', resave: false, saveUninitialized: false, store: sessionService.store }));
+    app = http.createServer(api);
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+    appUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+
+    // Wired up as the routes do, reporting the outcome instead of signing in
+    passport.use(new GoogleStrategy({
+      issuer: provider.issuer(),
+      clientId,
+      clientSecret,
+      callbackUrl: `${appUrl}/api/auth/google/callback`,
+    }, (_req, profile: OAuthProfile, done) => {
+      authService.signInWithGoogle(profile)
+        .then(result => result.ok ? done(null, result.user) : done(null, false, { message: result.message }))
+        .catch(done);
+    }));
+
+    // Stand-ins for a password sign-in and a signed-in request
+    api.get('/test/sign-in/:id', async (req, res) => {
+      await sessionService.start(req, (await storage.getUser(Number(req.params.id)))!);
+      res.json({ userId: req.session.userId });
+    });
+    api.get('/test/me', (req, res) => {
+      res.json({ userId: req.session.userId ?? null });
+    });
+
+    api.get('/api/auth/google', passport.authenticate('google', { session: false }));
+    api.get('/api/auth/google/callback', (req, res, next) => {
+      passport.authenticate('google', { session: false }, (error: Error | null, user: { id: number } | false, info?: { message: string }) => {
+        res.json({ error: error?.message ?? null, userId: user ? user.id : null, message: info?.message ?? null });
+      })(req, res, next);
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => app.close(resolve));
+    await new Promise(resolve => provider.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    userCount++;
+  });
+
+  // Follow the whole redirect dance as a browser would
+  const signInWithGoogle = async (info: MockUserInfo, tamper?: (callbackUrl: string) => string) => {
+    const start = await fetch(`${appUrl}/api/auth/google`, { redirect: 'manual' });
+    expect(start.status).toBe(302);
+    const cookie = start.headers.get('set-cookie')!.split(';')[0];
+    const authorizationUrl = start.headers.get('location')!;
+
+    provider.signInAs(info);
+    const callbackUrl = provider.approve(authorizationUrl);
+    const callback = await fetch(tamper ? tamper(callbackUrl) : callbackUrl, { headers: { Cookie: cookie } });
+    return callback.json() as Promise<{ error: string | null; userId: number | null; message: string | null }>;
+  };
+
+  it('sends the user to the provider with the registered callback and a state', async () => {
+    const start = await fetch(`${appUrl}/api/auth/google`, { redirect: 'manual' });
+    const location = new URL(start.headers.get('location')!);
+
+    expect(location.origin + location.pathname).toBe(`${provider.issuer()}/authorize`);
+    expect(location.searchParams.get('client_id')).toBe(clientId);
+    expect(location.searchParams.get('redirect_uri')).toBe(`${appUrl}/api/auth/google/callback`);
+    expect(location.searchParams.get('scope')).toBe('openid email profile');
+    expect(location.searchParams.get('state')).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('creates a verified account for a new Google user and finds it again next time', async () => {
+    const info = { sub: `google-${userCount}`, email: `new${userCount}@gmail.test`, email_verified: true, name: 'Priya Shah' };
+
+    const first = await signInWithGoogle(info);
+    expect(first.error).toBeNull();
+    const user = await storage.getUser(first.userId!);
+    expect(user).toMatchObject({ email: info.email, googleId: info.sub, username: 'PriyaShah' });
+    expect(user?.emailVerifiedAt).toBeInstanceOf(Date);
+
+    const again = await signInWithGoogle(info);
+    expect(again.userId).toBe(first.userId);
+  });
+
+  it('links an unverified password account with the same email and retires its password', async () => {
+    const existing = await storage.createUser({ username: `linked${userCount}`, email: `linked${userCount}@gmail.test`, password: 'password1' });
+
+    const result = await signInWithGoogle({ sub: `google-${userCount}`, email: existing.email, email_verified: true });
+
+    expect(result.userId).toBe(existing.id);
+    const linked = await storage.getUser(existing.id);
+    expect(linked?.googleId).toBe(`google-${userCount}`);
+    expect(await bcrypt.compare('password1', linked!.password)).toBe(false);
+  });
+
+  it('signs out the devices of an unverified account when Google is linked to it', async () => {
+    const existing = await storage.createUser({ username: `squatter${userCount}`, email: `squatter${userCount}@gmail.test`, password: 'password1' });
+    const signedIn = await fetch(`${appUrl}/test/sign-in/${existing.id}`);
+    const cookie = signedIn.headers.get('set-cookie')!.split(';')[0];
+    const me = () => fetch(`${appUrl}/test/me`, { headers: { Cookie: cookie } }).then(response => response.json());
+    expect(await me()).toEqual({ userId: existing.id });
+    await storage.createAuthToken({ userId: existing.id, purpose: 'password_reset', tokenHash: `hash-${userCount}`, expiresAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+    await signInWithGoogle({ sub: `google-${userCount}`, email: existing.email, email_verified: true });
+
+    expect(await me()).toEqual({ userId: null });
+    expect(await storage.getUserSessions(existing.id)).toEqual([]);
+    expect(await storage.redeemAuthToken(`hash-${userCount}`, 'password_reset')).toBeUndefined();
+  });
+
+  it('refuses a Google account whose email Google has not verified', async () => {
+    const result = await signInWithGoogle({ sub: `google-${userCount}`, email: `unverified${userCount}@gmail.test`, email_verified: false });
+
+    expect(result.userId).toBeNull();
+    expect(result.message).toBe('Please verify your email with Google before signing in');
+    expect(await storage.getUserByEmail(`unverified${userCount}@gmail.test`)).toBeUndefined();
+  });
+
+  it('rejects a callback whose state does not match the one it sent', async () => {
+    const result = await signInWithGoogle(
+      { sub: `google-${userCount}`, email: `forged${userCount}@gmail.test`, email_verified: true },
+      callbackUrl => callbackUrl.replace(/state=[^&]+/, 'state=forged')
+    );
+
+    expect(result.userId).toBeNull();
+    expect(result.message).toBe('Sign-in request expired, please try again');
+  });
+
+  it('reports a sign-in the user cancelled at the provider', async () => {
+    const response = await fetch(`${appUrl}/api/auth/google/callback?error=access_denied`);
+
+    expect(await response.json()).toMatchObject({ userId: null, message: 'Google sign-in was cancelled' });
+  });
+});
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import * as bcrypt from 'bcrypt';
+import type { Request } from 'express';
+import { Strategy } from 'passport-strategy';
+import { storage } from '../storage';
+import { referralService } from './referrals';
+import { auditService } from './audit';
+import { sessionService } from './sessions';
+import type { User } from '@shared/schema';
+
+/**
+ * Identity returned by an OAuth provider
+ */
+export interface OAuthProfile {
+  id: string; // the provider's stable subject identifier
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+/**
+ * Outcome of signing in with an OAuth provider
+ */
+export type OAuthSignIn =
+  | { ok: true; user: User; created: boolean }
+  | { ok: false; message: string };
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  callbackUrl?: string; // derived from the request when not set
+}
+
+interface OidcEndpoints {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+type OAuthVerify = (
+  req: Request,
+  profile: OAuthProfile,
+  done: (error: Error | null, user?: User | false, info?: { message: string }) => void
+) => void;
+
+/**
+ * Passport strategy for Google sign-in using the OpenID Connect code flow
+ *
+ * Endpoints come from the issuer's discovery document, so pointing the issuer
+ * at a local mock provider is enough to exercise the flow in development.
+ */
+export class GoogleStrategy extends Strategy {
+  readonly name = 'google';
+  private endpoints?: Promise<OidcEndpoints>;
+
+  constructor(private readonly config: OidcConfig, private readonly verify: OAuthVerify) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    this.handle(req).catch(error => this.error(error));
+  }
+
+  private async handle(req: Request): Promise<void> {
+    if (req.query.error) {
+      return this.fail({ message: 'Google sign-in was cancelled' }, 401);
+    }
+
+    const endpoints = await this.discover();
+    const redirectUri = this.config.callbackUrl || `${req.protocol}://${req.get('host')}/api/auth/google/callback`;
+    const code = req.query.code;
+
+    // First leg: send the user to the provider
+    if (typeof code !== 'string') {
+      const state = crypto.randomBytes(16).toString('hex');
+      req.session.oauthState = state;
+
+      const url = new URL(endpoints.authorization_endpoint);
+      url.searchParams.set('client_id', this.config.clientId);
+      url.searchParams.set('redirect_uri', redirectUri);
+      url.searchParams.set('response_type', 'code');
+      url.searchParams.set('scope', 'openid email profile');
+      url.searchParams.set('state', state);
+      url.searchParams.set('prompt', 'select_account');
+      return this.redirect(url.toString());
+    }
+
+    // Second leg: the provider sent the user back with a code
+    const expectedState = req.session.oauthState;
+    delete req.session.oauthState;
+    if (!expectedState || req.query.state !== expectedState) {
+      return this.fail({ message: 'Sign-in request expired, please try again' }, 400);
+    }
+
+    const tokenResponse = await fetch(endpoints.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new Error(`Google token exchange failed with status ${tokenResponse.status}`);
+    }
+    const { access_token: accessToken } = await tokenResponse.json();
+
+    const userInfoResponse = await fetch(endpoints.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!userInfoResponse.ok) {
+      throw new Error(`Google user info request failed with status ${userInfoResponse.status}`);
+    }
+    const info = await userInfoResponse.json();
+    if (!info.sub || !info.email) {
+      return this.fail({ message: 'Google did not share an email address' }, 401);
+    }
+
+    const profile: OAuthProfile = {
+      id: String(info.sub),
+      email: String(info.email),
+      emailVerified: info.email_verified === true || info.email_verified === 'true',
+      name: info.name ? String(info.name) : null,
+    };
+
+    this.verify(req, profile, (error, user, details) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail(details ?? { message: 'Google sign-in failed' }, 401);
+      this.success(user, details);
+    });
+  }
+
+  /**
+   * Fetch the issuer's endpoints once and reuse them
+   */
+  private discover(): Promise<OidcEndpoints> {
+    if (!this.endpoints) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.endpoints = fetch(url)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`OpenID discovery failed with status ${response.status}`);
+          }
+          return response.json() as Promise<OidcEndpoints>;
+        })
+        .catch(error => {
+          // Try again on the next sign-in rather than caching the failure
+          this.endpoints = undefined;
+          throw error;
+        });
+    }
+    return this.endpoints;
+  }
+}
+
+/**
+ * Create the Google strategy if it is configured for this environment
+ *
+ * Needs GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET. GOOGLE_ISSUER overrides the
+ * OpenID issuer, e.g. to use a mock provider, and GOOGLE_CALLBACK_URL the
+ * redirect URI registered with it.
+ * @param verify Called with the Google profile to find or create the user
+ * @param env Environment to read the configuration from
+ * @returns The strategy, or undefined when Google sign-in is not configured
+ */
+export function createGoogleStrategy(
+  verify: OAuthVerify,
+  env: NodeJS.ProcessEnv = process.env
+): GoogleStrategy | undefined {
+  if (!env.GOOGLE_CLIENT_ID || !env.GOOGLE_CLIENT_SECRET) {
+    return undefined;
+  }
+
+  return new GoogleStrategy({
+    issuer: env.GOOGLE_ISSUER || 'https://accounts.google.com',
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    callbackUrl: env.GOOGLE_CALLBACK_URL || (env.APP_URL ? `${env.APP_URL}/api/auth/google/callback` : undefined),
+  }, verify);
+}
+
+/**
+ * An unguessable password for accounts that sign in another way
+ */
+const randomPassword = (): string => crypto.randomBytes(32).toString('base64url');
+
+class AuthService {
+  /**
+   * Check an email and password
+   * @param email Email the user typed
+   * @param password Password the user typed
+   * @returns The user, or undefined if the credentials do not match
+   */
+  async verifyPassword(email: string, password: string): Promise<User | undefined> {
+    const user = await storage.getUserByEmail(email);
+    if (!user) return undefined;
+
+    const passwordMatch = await bcrypt.compare(password, user.password);
+    return passwordMatch ? user : undefined;
+  }
+
+  /**
+   * Find, link or create the account for a Google identity
+   * @param profile Identity returned by Google
+   * @returns The signed-in user, or why the sign-in was refused
+   */
+  async signInWithGoogle(profile: OAuthProfile): Promise<OAuthSignIn> {
+    const linked = await storage.getUserByGoogleId(profile.id);
+    if (linked) {
+      return { ok: true, user: linked, created: false };
+    }
+
+    // Only link on the email when Google vouches for it, or anyone could claim an account
+    if (!profile.emailVerified) {
+      return { ok: false, message: 'Please verify your email with Google before signing in' };
+    }
+
+    const existing = await storage.getUserByEmail(profile.email);
+    if (existing) {
+      const updates: Partial<User> = { googleId: profile.id };
+
+      // Someone who signed up with this email but never verified it may not own it,
+      // so the password they chose stops working once the real owner links Google
+      if (!existing.emailVerifiedAt) {
+        updates.emailVerifiedAt = new Date();
+        updates.password = await bcrypt.hash(randomPassword(), 10);
+      }
+
+      const user = await storage.updateUser(existing.id, updates) ?? existing;
+      if (!existing.emailVerifiedAt) {
+        // Nor do the devices they signed in on or the links they were emailed
+        await sessionService.revokeAll(user.id);
+        await storage.revokeAuthTokens(user.id, 'password_reset');
+        await storage.revokeAuthTokens(user.id, 'email_verification');
+      }
+      await auditService.record(user.id, 'user.link_google', { type: 'user', id: user.id }, {
+        email: profile.email
+      });
+      return { ok: true, user, created: false };
+    }
+
+    const created = await storage.createUser({
+      username: await this.availableUsername(profile),
+      email: profile.email,
+      password: randomPassword(),
+      freeAttempts: 3,
+      subscriptionStatus: 'free',
+      referralCode: referralService.generateCode()
+    });
+    const user = await storage.updateUser(created.id, {
+      googleId: profile.id,
+      emailVerifiedAt: new Date()
+    }) ?? created;
+
+    return { ok: true, user, created: true };
+  }
+
+  /**
+   * Pick a username for a new Google account from its name or email
+   * @param profile Identity returned by Google
+   * @returns A username nobody has taken
+   */
+  private async availableUsername(profile: OAuthProfile): Promise<string> {
+    const source = profile.name || profile.email.split('@')[0];
+    const base = source.replace(/[^A-Za-z0-9_.-]+/g, '').slice(0, 24) || 'student';
+    const padded = base.length >= 2 ? base : `${base}user`;
+
+    if (!await storage.getUserByUsername(padded)) {
+      return padded;
+    }
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const candidate = `${padded}${crypto.randomInt(1000, 10000)}`;
+      if (!await storage.getUserByUsername(candidate)) {
+        return candidate;
+      }
+    }
+    return `${padded}${crypto.randomBytes(4).toString('hex')}`;
+  }
+}
+
+export const authService = new AuthService();
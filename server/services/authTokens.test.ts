@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as bcrypt from 'bcrypt';
+import { storage } from '../storage';
+import { mailer, MemoryMailer } from './mailer';
+import { authTokenService } from './authTokens';
+
+const outbox = mailer as MemoryMailer;
+const appUrl = 'https://solvem8.test';
+
+// The token in the link of the latest email to an address
+const emailedToken = (email: string): string => {
+  const link = outbox.lastTo(email)?.text.match(/https:\/\/\S+/)?.[0];
+  expect(link).toBeDefined();
+  return new URL(link!).searchParams.get('token')!;
+};
+
+describe('AuthTokenService', () => {
+  let userCount = 0;
+
+  beforeEach(() => {
+    outbox.clear();
+  });
+
+  const createUser = () => {
+    userCount++;
+    return storage.createUser({ username: `reader${userCount}`, email: `reader${userCount}@example.com`, password: 'password1' });
+  };
+
+  it('verifies an email address with the emailed link, once', async () => {
+    const user = await createUser();
+
+    expect(await authTokenService.sendVerification(user, appUrl)).toEqual({ sent: true });
+    const email = outbox.lastTo(user.email);
+    expect(email?.subject).toBe('Verify your SolveM8 email address');
+    expect(email?.text).toContain(`${appUrl}/verify-email?token=`);
+
+    const token = emailedToken(user.email);
+    const result = await authTokenService.verifyEmail(token);
+    expect(result.valid).toBe(true);
+    expect((await storage.getUser(user.id))?.emailVerifiedAt).toBeInstanceOf(Date);
+
+    expect(await authTokenService.verifyEmail(token)).toEqual({
+      valid: false,
+      message: 'This verification link is invalid or has expired',
+    });
+  });
+
+  it('stops emailing verification links after three in an hour', async () => {
+    const user = await createUser();
+
+    for (let sent = 0; sent < 3; sent++) {
+      expect((await authTokenService.sendVerification(user, appUrl)).sent).toBe(true);
+    }
+
+    const limited = await authTokenService.sendVerification(user, appUrl);
+    expect(limited.sent).toBe(false);
+    expect(outbox.outbox.filter(message => message.to === user.email)).toHaveLength(3);
+  });
+
+  it('sets a new password with the emailed reset link and verifies the address', async () => {
+    const user = await createUser();
+
+    await authTokenService.requestPasswordReset(user.email, appUrl);
+    expect(outbox.lastTo(user.email)?.text).toContain(`${appUrl}/reset-password?token=`);
+
+    const token = emailedToken(user.email);
+    const result = await authTokenService.resetPassword(token, 'new-password1');
+    expect(result.valid).toBe(true);
+
+    const updated = await storage.getUser(user.id);
+    expect(await bcrypt.compare('new-password1', updated!.password)).toBe(true);
+    expect(updated?.emailVerifiedAt).toBeInstanceOf(Date);
+
+    expect((await authTokenService.resetPassword(token, 'another-password1')).valid).toBe(false);
+  });
+
+  it('invalidates earlier reset links once one has been used', async () => {
+    const user = await createUser();
+
+    await authTokenService.requestPasswordReset(user.email, appUrl);
+    const earlier = emailedToken(user.email);
+    await authTokenService.requestPasswordReset(user.email, appUrl);
+    const later = emailedToken(user.email);
+
+    expect((await authTokenService.resetPassword(later, 'new-password1')).valid).toBe(true);
+    expect((await authTokenService.resetPassword(earlier, 'another-password1')).valid).toBe(false);
+  });
+
+  it('sends nothing for an address without an account', async () => {
+    await authTokenService.requestPasswordReset('nobody@example.com', appUrl);
+
+    expect(outbox.outbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { auditService } from './audit';
+import { mailer, type MailMessage } from './mailer';
+import { sessionService } from './sessions';
+import type { AuthTokenPurpose, User } from '@shared/schema';
+
+/**
+ * Outcome of asking for a token to be emailed
+ */
+export type TokenRequest =
+  | { sent: true }
+  | { sent: false; retryAfter: number }; // seconds until another email may be sent
+
+/**
+ * Outcome of redeeming an emailed token
+ */
+export type TokenRedemption =
+  | { valid: true; user: User }
+  | { valid: false; message: string };
+
+// How long each kind of link works for
+const tokenLifetimes: Record<AuthTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+};
+
+// At most this many emails of one kind per account per window
+const maxTokensPerWindow = 3;
+const rateLimitWindowMs = 60 * 60 * 1000;
+
+/**
+ * Hash a token for storage, so a leaked table cannot be used to take over accounts
+ * @param token Token as emailed
+ */
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+class AuthTokenService {
+  /**
+   * Email a link that verifies the user's address
+   * @param user User whose address is unverified
+   * @param appUrl Origin the link should point at
+   * @returns Whether the email was sent, or how long to wait before asking again
+   */
+  async sendVerification(user: User, appUrl: string): Promise<TokenRequest> {
+    return this.issue(user, 'email_verification', token => {
+      const link = `${appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+      return {
+        to: user.email,
+        subject: 'Verify your SolveM8 email address',
+        text: `Hi ${user.username},\n\nConfirm your email address by opening this link:\n\n${link}\n\nThe link works for 24 hours. If you did not create a SolveM8 account you can ignore this email.`,
+        html: `<p>Hi ${escapeHtml(user.username)},</p><p>Confirm your email address by opening this link:</p><p><a href="${escapeHtml(link)}">Verify email address</a></p><p>The link works for 24 hours. If you did not create a SolveM8 account you can ignore this email.</p>`,
+      };
+    });
+  }
+
+  /**
+   * Email a password reset link, if the address belongs to an account
+   *
+   * Unknown addresses and rate-limited accounts are not reported, so the
+   * response does not reveal which emails are registered.
+   * @param email Address the user typed
+   * @param appUrl Origin the link should point at
+   */
+  async requestPasswordReset(email: string, appUrl: string): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    if (!user) return;
+
+    await this.issue(user, 'password_reset', token => {
+      const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+      return {
+        to: user.email,
+        subject: 'Reset your SolveM8 password',
+        text: `Hi ${user.username},\n\nChoose a new password by opening this link:\n\n${link}\n\nThe link works for one hour and can be used once. If you did not ask to reset your password you can ignore this email.`,
+        html: `<p>Hi ${escapeHtml(user.username)},</p><p>Choose a new password by opening this link:</p><p><a href="${escapeHtml(link)}">Reset password</a></p><p>The link works for one hour and can be used once. If you did not ask to reset your password you can ignore this email.</p>`,
+      };
+    });
+  }
+
+  /**
+   * Mark the user's email verified using an emailed token
+   * @param token Token from the verification link
+   * @returns The verified user, or why the token was rejected
+   */
+  async verifyEmail(token: string): Promise<TokenRedemption> {
+    const redeemed = await storage.redeemAuthToken(hashToken(token), 'email_verification');
+    if (!redeemed) {
+      return { valid: false, message: 'This verification link is invalid or has expired' };
+    }
+
+    const user = await storage.getUser(redeemed.userId);
+    if (!user) {
+      return { valid: false, message: 'This verification link is invalid or has expired' };
+    }
+
+    await storage.revokeAuthTokens(user.id, 'email_verification');
+    const verified = user.emailVerifiedAt
+      ? user
+      : await storage.updateUser(user.id, { emailVerifiedAt: new Date() }) ?? user;
+    return { valid: true, user: verified };
+  }
+
+  /**
+   * Set a new password using an emailed token
+   * @param token Token from the reset link
+   * @param password New password
+   * @returns The updated user, or why the token was rejected
+   */
+  async resetPassword(token: string, password: string): Promise<TokenRedemption> {
+    const redeemed = await storage.redeemAuthToken(hashToken(token), 'password_reset');
+    if (!redeemed) {
+      return { valid: false, message: 'This reset link is invalid or has expired' };
+    }
+
+    const user = await storage.updateUserPassword(redeemed.userId, password);
+    if (!user) {
+      return { valid: false, message: 'This reset link is invalid or has expired' };
+    }
+
+    // Any other reset links sent before this one stop working, and so does
+    // every session signed in with the old password
+    await storage.revokeAuthTokens(user.id, 'password_reset');
+    await sessionService.revokeAll(user.id);
+
+    // Following the link proves the user can read mail sent to the address
+    const updated = user.emailVerifiedAt
+      ? user
+      : await storage.updateUser(user.id, { emailVerifiedAt: new Date() }) ?? user;
+
+    await auditService.record(user.id, 'user.password_reset', { type: 'user', id: user.id });
+    return { valid: true, user: updated };
+  }
+
+  /**
+   * Store a new token and email it, unless too many were sent recently
+   * @param user Account the token is for
+   * @param purpose What the token lets its holder do
+   * @param compose Build the email around the raw token
+   * @returns Whether the email was sent
+   */
+  private async issue(
+    user: User,
+    purpose: AuthTokenPurpose,
+    compose: (token: string) => MailMessage
+  ): Promise<TokenRequest> {
+    const now = Date.now();
+    const recent = await storage.getRecentAuthTokens(user.id, purpose, new Date(now - rateLimitWindowMs));
+    if (recent.length >= maxTokensPerWindow) {
+      const oldest = recent[recent.length - maxTokensPerWindow];
+      const retryAfter = Math.ceil((oldest.createdAt.getTime() + rateLimitWindowMs - now) / 1000);
+      return { sent: false, retryAfter: Math.max(1, retryAfter) };
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await storage.createAuthToken({
+      userId: user.id,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now + tokenLifetimes[purpose]),
+    });
+
+    await mailer.send(compose(token));
+    return { sent: true };
+  }
+}
+
+/**
+ * Escape text for use inside an HTML email
+ * @param value Untrusted text
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export const authTokenService = new AuthTokenService();
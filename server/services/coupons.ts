@@ -0,0 +1,106 @@
+import { storage } from '../storage';
+import type { Coupon, Plan, SubscriptionPayment } from '@shared/schema';
+
+/**
+ * Outcome of applying a coupon to a plan
+ */
+export type CouponQuote =
+  | { valid: true; coupon: Coupon; price: number; discount: number; total: number }
+  | { valid: false; message: string };
+
+// Razorpay does not create orders for less than one rupee
+const minimumChargeAmount = 100;
+
+class CouponService {
+  /**
+   * Work out the discounted price of a plan for a user
+   * @param userId User who wants to redeem the coupon
+   * @param code Coupon code as typed by the user
+   * @param plan Plan being bought
+   * @param currency Currency code of the order
+   * @param price Full plan price in the smallest currency unit
+   * @returns The discount and total, or why the coupon cannot be used
+   */
+  async quote(userId: number, code: string, plan: Plan, currency: string, price: number): Promise<CouponQuote> {
+    const coupon = await storage.getCouponByCode(code.trim().toUpperCase());
+    if (!coupon || !coupon.active) {
+      return { valid: false, message: 'Invalid coupon code' };
+    }
+
+    if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() <= Date.now()) {
+      return { valid: false, message: 'This coupon has expired' };
+    }
+
+    if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+      return { valid: false, message: 'This coupon has been fully redeemed' };
+    }
+
+    if (coupon.planCodes && !coupon.planCodes.includes(plan.code)) {
+      return { valid: false, message: `This coupon cannot be used for the ${plan.name}` };
+    }
+
+    if (coupon.discountType === 'flat' && coupon.currency !== currency) {
+      return { valid: false, message: `This coupon cannot be used for payments in ${currency}` };
+    }
+
+    // Orders still awaiting payment count too, or several could be opened and paid past the limit
+    const payments = await storage.getUserPayments(userId);
+    const uses = payments.filter(payment =>
+      payment.couponCode === coupon.code && (payment.status === 'completed' || payment.status === 'pending')
+    ).length;
+    if (uses >= coupon.perUserLimit) {
+      return { valid: false, message: 'You have already used this coupon' };
+    }
+
+    const discount = coupon.discountType === 'percentage'
+      ? Math.floor(price * coupon.discountValue / 100)
+      : coupon.discountValue;
+    const total = Math.max(minimumChargeAmount, price - discount);
+
+    return { valid: true, coupon, price, discount: price - total, total };
+  }
+
+  /**
+   * Count a coupon as used by a new order, before the user is sent to pay
+   *
+   * The use is taken when the order is created rather than when it is paid,
+   * so parallel checkouts cannot take a coupon past its limit; release() gives
+   * it back if the order is never paid.
+   * @param coupon Coupon applied to the order
+   * @returns False if the coupon was fully redeemed in the meantime
+   */
+  async redeem(coupon: Coupon): Promise<boolean> {
+    return storage.redeemCoupon(coupon.id);
+  }
+
+  /**
+   * Give back the use of a coupon held by an order that was not paid
+   * @param couponCode Code stored on the order, if any
+   */
+  async release(couponCode: string | null): Promise<void> {
+    if (!couponCode) return;
+
+    const coupon = await storage.getCouponByCode(couponCode);
+    if (coupon) {
+      await storage.releaseCoupon(coupon.id);
+    }
+  }
+
+  /**
+   * Count the coupon again when an order whose payment failed is paid after all
+   *
+   * The user has paid the discounted price by then, so a coupon that filled
+   * up in the meantime is only reported.
+   * @param payment Payment that moved from failed to completed
+   */
+  async restore(payment: SubscriptionPayment): Promise<void> {
+    if (!payment.couponCode) return;
+
+    const coupon = await storage.getCouponByCode(payment.couponCode);
+    if (coupon && !await storage.redeemCoupon(coupon.id)) {
+      console.warn(`Coupon ${coupon.code} went over its limit with payment ${payment.id}, which was already paid`);
+    }
+  }
+}
+
+export const couponService = new CouponService();
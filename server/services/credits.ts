@@ -0,0 +1,94 @@
+import { storage } from '../storage';
+import { subscriptionService } from './subscriptions';
+import type { CreditEntryType, CreditLedgerEntry } from '@shared/schema';
+
+/**
+ * An attempt taken from a user's balance before the AI is called
+ */
+export interface CreditReservation {
+  userId: number;
+  // The consumption entry, or null when the user's subscription covers the attempt
+  entry: CreditLedgerEntry | null;
+}
+
+class CreditService {
+  /**
+   * Take one attempt from a user before doing paid work
+   * @param userId User ID
+   * @param description What the attempt is being used for
+   * @param reference Optional reference to the related record
+   * @returns The reservation, or undefined if the user has no attempts left
+   */
+  async reserve(userId: number, description: string, reference?: string): Promise<CreditReservation | undefined> {
+    const user = await storage.getUser(userId);
+    if (!user) return undefined;
+
+    // Subscribers are not charged per attempt
+    if (subscriptionService.isActive(user)) {
+      return { userId, entry: null };
+    }
+
+    const entry = await storage.recordCreditEntry({
+      userId,
+      type: 'consumption',
+      amount: -1,
+      reference: reference ?? null,
+      description
+    });
+
+    return entry ? { userId, entry } : undefined;
+  }
+
+  /**
+   * Give back a reserved attempt after the work failed or was cancelled
+   * @param reservation Reservation returned by reserve()
+   * @param description Why the attempt is refunded
+   */
+  async refund(reservation: CreditReservation, description: string): Promise<void> {
+    if (!reservation.entry) return;
+
+    await storage.recordCreditEntry({
+      userId: reservation.userId,
+      type: 'refund',
+      amount: -reservation.entry.amount,
+      reference: `credit:${reservation.entry.id}`,
+      description
+    });
+  }
+
+  /**
+   * Add attempts to a user's balance
+   * @param userId User ID
+   * @param type Kind of grant, e.g. 'pack_purchase'
+   * @param amount Number of attempts to add (negative for admin deductions)
+   * @param description Why the attempts were granted
+   * @param reference Optional reference to the related record
+   * @returns The ledger entry, or undefined if a deduction would overdraw the balance
+   */
+  async grant(
+    userId: number,
+    type: Exclude<CreditEntryType, 'consumption' | 'refund'>,
+    amount: number,
+    description: string,
+    reference?: string
+  ): Promise<CreditLedgerEntry | undefined> {
+    return storage.recordCreditEntry({
+      userId,
+      type,
+      amount,
+      reference: reference ?? null,
+      description
+    });
+  }
+
+  /**
+   * Get every change to a user's balance, newest first
+   * @param userId User ID
+   * @returns Ledger entries
+   */
+  async getHistory(userId: number): Promise<CreditLedgerEntry[]> {
+    return storage.getCreditLedger(userId);
+  }
+}
+
+export const creditService = new CreditService();
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { dataExportService, type DataExport } from './dataExport';
+import { fileProcessor } from './fileProcessor';
+import { jobQueue, type Job } from './jobQueue';
+import { supabaseService } from './supabase';
+
+const exportId = (dataExport: DataExport) => dataExport.downloadUrl.split('/').pop()!;
+
+describe('DataExportService', () => {
+  let userCount = 0;
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createUser = () => {
+    userCount++;
+    return storage.createUser({ username: `exporter${userCount}`, email: `exporter${userCount}@example.com`, password: 'password1' });
+  };
+
+  // Build an export and wait for its job to finish
+  const buildExport = (userId: number) => {
+    const job = dataExportService.start(userId);
+    return new Promise<DataExport>((resolve, reject) => {
+      const unsubscribe = jobQueue.subscribe(job.id, (current: Job) => {
+        if (current.status === 'completed') {
+          unsubscribe();
+          resolve(current.result as DataExport);
+        } else if (current.status === 'failed') {
+          unsubscribe();
+          reject(new Error(current.error ?? 'Export failed'));
+        }
+      });
+    });
+  };
+
+  it("includes the user's own uploads but not another user's file an assignment points at", async () => {
+    const user = await createUser();
+    const other = await createUser();
+    const file = { originalname: 'homework.pdf', buffer: Buffer.from('%PDF') };
+    const ownUpload = await fileProcessor.uploadFile(file, user.id);
+    const othersUpload = await fileProcessor.uploadFile(file, other.id);
+    await storage.createAssignment({ userId: user.id, fileName: 'homework.pdf', fileUrl: ownUpload });
+    await storage.createAssignment({ userId: user.id, fileName: 'homework.pdf', fileUrl: othersUpload });
+    const getFile = vi.spyOn(supabaseService, 'getFile');
+
+    await buildExport(user.id);
+
+    const fetched = getFile.mock.calls.map(([path]) => path);
+    expect(fetched).toContain(supabaseService.locateFile(ownUpload)!.path);
+    expect(fetched).not.toContain(supabaseService.locateFile(othersUpload)!.path);
+  });
+
+  it('stores the export when the upload only fails on the first attempt', async () => {
+    const user = await createUser();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(supabaseService, 'uploadFile').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    const dataExport = await buildExport(user.id);
+
+    expect(await storage.getDataExport(exportId(dataExport))).toMatchObject({ userId: user.id, expiresAt: dataExport.expiresAt });
+    expect(await dataExportService.download(user.id, exportId(dataExport))).toBeInstanceOf(Buffer);
+  });
+
+  it('deletes the archive in a sweep once the link has expired', async () => {
+    const user = await createUser();
+    const dataExport = await buildExport(user.id);
+    expect(await dataExportService.download(user.id, exportId(dataExport))).toBeInstanceOf(Buffer);
+
+    // Nothing is scheduled in the process; the sweep works from the stored expiry
+    vi.useFakeTimers({ toFake: ['Date'], now: dataExport.expiresAt.getTime() + 1000 });
+    const deleteFile = vi.spyOn(supabaseService, 'deleteFile');
+
+    expect(await dataExportService.deleteExpired()).toBeGreaterThanOrEqual(1);
+    expect(deleteFile).toHaveBeenCalledWith(`exports/${user.id}/${exportId(dataExport)}.zip`, 'exports');
+    expect(await storage.getDataExport(exportId(dataExport))).toBeUndefined();
+    expect(await dataExportService.download(user.id, exportId(dataExport))).toBeUndefined();
+  });
+});
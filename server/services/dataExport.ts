@@ -0,0 +1,291 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from '../storage';
+import { supabaseService } from './supabase';
+import { assignmentService } from './assignments';
+import { pdfGenerator } from './pdfGenerator';
+import { invoiceService } from './invoices';
+import { jobQueue, type Job, type JobContext } from './jobQueue';
+import { createZip, type ZipEntry } from './zip';
+import type { AssignmentHistory } from '@shared/schema';
+
+/**
+ * A finished export, as returned by its job
+ */
+export interface DataExport {
+  downloadUrl: string;
+  fileName: string;
+  size: number; // bytes
+  expiresAt: Date;
+}
+
+// Exports are deleted after this long; matches how long their job stays queryable
+const exportLifetimeMs = 60 * 60 * 1000;
+
+const sweepIntervalMs = 15 * 60 * 1000;
+
+const exportBucket = 'exports';
+
+const exportPath = (userId: number, exportId: string) => `exports/${userId}/${exportId}.zip`;
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Make a name safe to use as one segment of a path in the archive
+ * @param name Name chosen by the user or taken from a URL
+ */
+const safeName = (name: string): string => name.replace(/[^A-Za-z0-9._-]+/g, '_').slice(0, 100) || 'file';
+
+const json = (value: unknown): string => JSON.stringify(value, null, 2);
+
+class DataExportService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start building a ZIP of everything held about a user
+   * @param userId User asking for their data
+   * @returns The background job building the export
+   */
+  start(userId: number): Job<DataExport> {
+    const exportId = uuidv4();
+    return jobQueue.enqueue('export', userId, context => this.build(userId, exportId, context));
+  }
+
+  /**
+   * Fetch a finished export
+   * @param userId User the export was built for
+   * @param exportId ID from the download link
+   * @returns Archive contents, or undefined if there is no such export or it has expired
+   */
+  async download(userId: number, exportId: string): Promise<Buffer | undefined> {
+    if (!uuidPattern.test(exportId)) return undefined;
+
+    const record = await storage.getDataExport(exportId);
+    if (!record || record.userId !== userId || record.expiresAt.getTime() <= Date.now()) return undefined;
+
+    try {
+      const file = await supabaseService.getFile(exportPath(userId, exportId), exportBucket);
+      return Buffer.from(await file.arrayBuffer());
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete the stored archives of exports whose link has expired
+   * @returns Number of exports deleted
+   */
+  async deleteExpired(): Promise<number> {
+    let deleted = 0;
+    for (const record of await storage.getExpiredDataExports(new Date())) {
+      try {
+        await supabaseService.deleteFile(exportPath(record.userId, record.id), exportBucket);
+        await storage.deleteDataExport(record.id);
+        deleted++;
+      } catch (error) {
+        // Left in place to try again on the next sweep
+        console.error('Data export cleanup error:', error);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete the stored archives of every export built for a user
+   * @param userId User whose account is being deleted
+   * @returns Number of archives deleted
+   */
+  async deleteForUser(userId: number): Promise<number> {
+    const records = await storage.getUserDataExports(userId);
+    for (const record of records) {
+      await supabaseService.deleteFile(exportPath(record.userId, record.id), exportBucket);
+      await storage.deleteDataExport(record.id);
+    }
+    return records.length;
+  }
+
+  /**
+   * Start deleting exports whose link has expired
+   * @param intervalMs Time between sweeps
+   */
+  startCleanup(intervalMs: number = sweepIntervalMs): void {
+    if (this.timer) return;
+
+    const sweep = () => {
+      this.deleteExpired().catch(error => {
+        console.error('Data export sweep error:', error);
+      });
+    };
+
+    this.timer = setInterval(sweep, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  stopCleanup(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Gather the user's data, zip it and store it for download
+   * @param userId User asking for their data
+   * @param exportId Name to store the archive under
+   * @param context Job progress reporting
+   * @returns Where to download the export
+   */
+  private async build(userId: number, exportId: string, { reportProgress }: JobContext): Promise<DataExport> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    reportProgress(5, 'Collecting account details');
+    const entries: ZipEntry[] = [];
+    const missing: string[] = [];
+
+    entries.push({
+      name: 'profile.json',
+      data: json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        emailVerifiedAt: user.emailVerifiedAt,
+        googleLinked: user.googleId !== null,
+        role: user.role,
+        freeAttempts: user.freeAttempts,
+        subscriptionStatus: user.subscriptionStatus,
+        subscriptionExpiresAt: user.subscriptionExpiresAt,
+        referralCode: user.referralCode,
+        billingName: user.billingName,
+        billingAddress: user.billingAddress,
+        gstin: user.gstin,
+      }),
+    });
+    entries.push({ name: 'credits.json', data: json(await storage.getCreditLedger(userId)) });
+    entries.push({
+      name: 'devices.json',
+      data: json((await storage.getUserSessions(userId)).map(({ sessionId: _sessionId, ...device }) => device)),
+    });
+
+    const assignments = await storage.getAssignmentHistory(userId);
+    const assignmentRecords = [];
+    for (let i = 0; i < assignments.length; i++) {
+      reportProgress(10 + (i / Math.max(1, assignments.length)) * 70, `Adding assignment ${i + 1} of ${assignments.length}`);
+
+      const assignment = assignments[i];
+      const revisions = await storage.getAssignmentRevisions(assignment.id);
+      assignmentRecords.push({ ...assignment, revisions });
+      entries.push(...await this.assignmentFiles(assignment, missing));
+    }
+    entries.push({ name: 'assignments.json', data: json(assignmentRecords) });
+
+    reportProgress(85, 'Adding payments');
+    const payments = await storage.getUserPayments(userId);
+    const invoices = await storage.getUserInvoices(userId);
+    entries.push({
+      name: 'payments.json',
+      data: json(payments.map(payment => ({
+        ...payment,
+        invoice: invoices.find(invoice => invoice.paymentId === payment.id) ?? null,
+      }))),
+    });
+    for (const invoice of invoices) {
+      entries.push({
+        name: `invoices/${safeName(invoice.invoiceNumber)}.pdf`,
+        data: await invoiceService.render(invoice),
+        modifiedAt: invoice.issuedAt,
+      });
+    }
+
+    entries.unshift({ name: 'README.txt', data: this.readme(missing) });
+
+    reportProgress(95, 'Compressing');
+    const archive = createZip(entries);
+
+    // Personal data should not sit in storage longer than the link works; recorded
+    // before the upload so the sweep finds the archive even if this process stops,
+    // and saved again rather than duplicated when a failed upload is retried
+    const expiresAt = new Date(Date.now() + exportLifetimeMs);
+    await storage.saveDataExport({ id: exportId, userId, expiresAt });
+    await supabaseService.uploadFile(archive, exportBucket, exportPath(userId, exportId));
+
+    return {
+      downloadUrl: `/api/user/export/${exportId}`,
+      fileName: `solvem8-data-${new Date().toISOString().slice(0, 10)}.zip`,
+      size: archive.length,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Collect the stored upload and solution PDF of an assignment
+   *
+   * File URLs of text assignments come from the browser, so only files stored
+   * for the assignment's owner are fetched.
+   * @param assignment Assignment to collect files for
+   * @param missing Collects the names of files that could not be fetched
+   * @returns Archive entries for the files
+   */
+  private async assignmentFiles(assignment: AssignmentHistory, missing: string[]): Promise<ZipEntry[]> {
+    const folder = `assignments/${assignment.id}`;
+    const entries: ZipEntry[] = [];
+
+    const stored = [
+      { url: assignment.fileUrl, prefix: 'upload' },
+      { url: assignment.processedOutputUrl, prefix: 'output' },
+    ];
+    for (const { url, prefix } of stored) {
+      if (!url || !assignmentService.ownsFile(assignment.userId, url)) continue;
+      const location = supabaseService.locateFile(url)!;
+
+      const name = `${folder}/${prefix}-${safeName(location.path.split('/').pop()!)}`;
+      try {
+        const file = await supabaseService.getFile(location.path, location.bucket);
+        entries.push({ name, data: Buffer.from(await file.arrayBuffer()), modifiedAt: assignment.timestamp });
+      } catch (error) {
+        console.error('Data export file error:', error);
+        missing.push(name);
+      }
+    }
+
+    if (assignment.solution) {
+      entries.push({
+        name: `${folder}/solution.pdf`,
+        data: await pdfGenerator.renderSolutionPDF({
+          question: assignment.extractedText ?? assignment.fileName,
+          solution: assignment.solution,
+        }),
+        modifiedAt: assignment.timestamp,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Explain what is in the archive
+   * @param missing Files that could not be fetched
+   */
+  private readme(missing: string[]): string {
+    const lines = [
+      'Your SolveM8 data',
+      '',
+      'profile.json      Your account details',
+      'credits.json      Every change to your attempt balance',
+      'devices.json      Devices you are signed in on',
+      'assignments.json  Your assignments with their extracted text, solutions and refinements',
+      'assignments/      Files you uploaded and a PDF of each solution, by assignment ID',
+      'payments.json     Your payments and the invoices issued for them',
+      'invoices/         Invoice PDFs',
+    ];
+    if (missing.length > 0) {
+      lines.push('', 'These files could not be retrieved and are missing from the archive:', ...missing);
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+export const dataExportService = new DataExportService();
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fileProcessor } from './fileProcessor';
+
+describe('fileProcessor.parseQuestions', () => {
+  it('splits numbered questions with their sub-parts and options', () => {
+    const questions = fileProcessor.parseQuestions([
+      'Answer all questions.',
+      '1. Differentiate x^2.',
+      'a) at x = 1',
+      'b) at x = 2',
+      'Q2) Which is a prime?',
+      'A. 4',
+      'B. 7',
+      'Question 3: Define entropy.',
+    ].join('\n'));
+
+    expect(questions.map(question => question.number)).toEqual(['1', '2', '3']);
+    expect(questions[0].subParts).toEqual([
+      { label: 'a', text: 'at x = 1' },
+      { label: 'b', text: 'at x = 2' },
+    ]);
+    expect(questions[1].options.map(option => option.label)).toEqual(['A', 'B']);
+    expect(questions[2].text).toBe('Define entropy.');
+  });
+
+  it('keeps lines that open with a decimal or a time in the current question', () => {
+    const questions = fileProcessor.parseQuestions([
+      '1. Estimate the area of a circle of radius 2, given that',
+      '3.14 is close enough to pi.',
+      '2. A train leaves at',
+      '10:30 and travels for 2 hours. When does it arrive?',
+    ].join('\n'));
+
+    expect(questions).toHaveLength(2);
+    expect(questions[0].text).toBe('Estimate the area of a circle of radius 2, given that 3.14 is close enough to pi.');
+    expect(questions[1].text).toBe('A train leaves at 10:30 and travels for 2 hours. When does it arrive?');
+  });
+
+  it('treats a document without numbered questions as one question', () => {
+    const questions = fileProcessor.parseQuestions('Explain photosynthesis.\nUse a diagram.');
+
+    expect(questions).toEqual([
+      { number: '1', text: 'Explain photosynthesis.\nUse a diagram.', subParts: [], options: [] },
+    ]);
+  });
+});
@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { fileTypeFromBuffer } from 'file-type';
 import { createWorker } from 'tesseract.js';
 import type { Multer } from 'multer';
+import type { ParsedQuestion, QuestionPart } from '@shared/schema';
 // Import pdf.js-extract for PDF extraction
 import { PDFExtract } from 'pdf.js-extract';
 import { promisify } from 'util';
@@ -41,37 +42,49 @@ const unlinkAsync = promisify(fs.unlink);
 // Create an instance of PDF extractor
 const pdfExtract = new PDFExtract();
 
-interface ProcessedFile {
-  fileUrl: string;
-  extractedText: string;
-}
+/**
+ * Callback for reporting extraction progress
+ * @param progress Progress between 0 and 100
+ * @param message Description of the current step
+ */
+export type ProgressCallback = (progress: number, message: string) => void;
 
 class FileProcessor {
   /**
-   * Process an uploaded file
+   * Store an uploaded file
    * @param file File object from multer
-   * @returns Object with file URL and extracted text
+   * @param userId ID of the user uploading it
+   * @returns URL of the stored file
    */
-  async processFile(file: any): Promise<ProcessedFile> {
+  async uploadFile(file: any, userId: number): Promise<string> {
     try {
-      // Generate unique file name
+      // Generate unique file name, under the uploader so the path says whose it is
       const fileExtension = file.originalname.split('.').pop() || '';
       const fileName = `${uuidv4()}.${fileExtension}`;
-      const filePath = `assignments/${fileName}`;
-      
-      // Upload file to storage
-      const fileUrl = await supabaseService.uploadFile(file.buffer, 'assignments', filePath);
+      const filePath = `assignments/${userId}/${fileName}`;
       
+      return await supabaseService.uploadFile(file.buffer, 'assignments', filePath);
+    } catch (error) {
+      console.error('File upload error:', error);
+      throw new Error('Failed to upload file');
+    }
+  }
+  
+  /**
+   * Extract the text of an uploaded file
+   * @param file File object from multer
+   * @param onProgress Optional callback for extraction progress
+   * @returns Extracted text, formatted for readability
+   */
+  async extractFile(file: any, onProgress?: ProgressCallback): Promise<string> {
+    try {
       // Extract text from file based on its type
-      let extractedText = await this.extractText(file.buffer, file.mimetype);
+      onProgress?.(5, 'Extracting text');
+      const extractedText = await this.extractText(file.buffer, file.mimetype, onProgress);
       
       // Format the extracted text for better readability
-      extractedText = this.formatExtractedText(extractedText);
-      
-      return {
-        fileUrl,
-        extractedText
-      };
+      onProgress?.(95, 'Formatting extracted text');
+      return this.formatExtractedText(extractedText);
     } catch (error) {
       console.error('File processing error:', error);
       throw new Error('Failed to process file');
@@ -82,13 +95,14 @@ class FileProcessor {
    * Extract text from a file based on its MIME type
    * @param buffer File buffer
    * @param mimeType MIME type of the file
+   * @param onProgress Optional callback for OCR progress
    * @returns Extracted text
    */
-  private async extractText(buffer: Buffer, mimeType: string): Promise<string> {
+  private async extractText(buffer: Buffer, mimeType: string, onProgress?: ProgressCallback): Promise<string> {
     try {
       switch (mimeType) {
         case 'application/pdf':
-          return await this.extractFromPdf(buffer);
+          return await this.extractFromPdf(buffer, onProgress);
           
         case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
           return await this.extractFromDocx(buffer);
@@ -98,7 +112,7 @@ class FileProcessor {
           
         case 'image/jpeg':
         case 'image/png':
-          return await this.extractFromImage(buffer);
+          return await this.extractFromImage(buffer, onProgress);
           
         default:
           throw new Error(`Unsupported file type: ${mimeType}`);
@@ -112,9 +126,10 @@ class FileProcessor {
   /**
    * Extract text from a PDF file
    * @param buffer PDF file buffer
+   * @param onProgress Optional callback for OCR fallback progress
    * @returns Extracted text
    */
-  private async extractFromPdf(buffer: Buffer): Promise<string> {
+  private async extractFromPdf(buffer: Buffer, onProgress?: ProgressCallback): Promise<string> {
     let tempFilePath = '';
     
     try {
@@ -159,7 +174,7 @@ class FileProcessor {
         // Try OCR as fallback for image-based PDFs
         try {
           console.log('Attempting OCR for image-based PDF...');
-          return await this.extractFromImage(buffer);
+          return await this.extractFromImage(buffer, onProgress);
         } catch (ocrError) {
           console.error('OCR fallback failed:', ocrError);
           return "The PDF appears to be image-based. Please provide a text version or summary of your assignment question.";
@@ -174,7 +189,7 @@ class FileProcessor {
       // Fallback to OCR if pdf-extract fails
       try {
         console.log('Attempting OCR fallback for PDF...');
-        return await this.extractFromImage(buffer);
+        return await this.extractFromImage(buffer, onProgress);
       } catch (fallbackError) {
         console.error('All PDF extraction methods failed:', fallbackError);
         throw new Error('Failed to extract text from PDF');
@@ -255,9 +270,10 @@ class FileProcessor {
   /**
    * Extract text from an image using OCR
    * @param buffer Image file buffer
+   * @param onProgress Optional callback for OCR progress
    * @returns Extracted text
    */
-  private async extractFromImage(buffer: Buffer): Promise<string> {
+  private async extractFromImage(buffer: Buffer, onProgress?: ProgressCallback): Promise<string> {
     try {
       console.log('Starting OCR text extraction...');
       
@@ -268,15 +284,14 @@ class FileProcessor {
       // Write buffer to temporary file
       await writeFileAsync(tempFilePath, buffer);
       
-      // Create a worker with English language
-      const worker = await createWorker();
-      await worker.loadLanguage('eng');
-      await worker.initialize('eng');
-      
-      // Log progress
-      worker.setLogger(m => {
-        if (m.status === 'recognizing text') {
-          console.log(`OCR progress: ${Math.floor(m.progress * 100)}%`);
+      // Create a worker with English language, reporting recognition progress
+      const worker = await createWorker('eng', undefined, {
+        logger: m => {
+          if (m.status === 'recognizing text') {
+            console.log(`OCR progress: ${Math.floor(m.progress * 100)}%`);
+            // Map OCR progress onto the extraction range of the overall job
+            onProgress?.(20 + m.progress * 70, 'Recognizing text');
+          }
         }
       });
       
@@ -303,6 +318,76 @@ class FileProcessor {
     }
   }
 
+  /**
+   * Split assignment text into individual questions
+   * 
+   * Understands the markers produced by detectAndFormatQuestions: numbered
+   * questions ("1.", "Q1.", "Question 1"), lettered sub-parts ("a)", "(b)",
+   * "(ii)") and multiple-choice options ("A.", "(B)"). A number must be
+   * followed by ")" or by "." or ":" and a space, so lines opening with a
+   * decimal or a time ("3.14 is...", "10:30") stay part of their question.
+   * @param text Extracted or typed assignment text
+   * @returns The questions in document order
+   */
+  parseQuestions(text: string): ParsedQuestion[] {
+    const questionPattern = /^(?:Q(?:uestion)?\s*)?(\d+)\s*(?:\)|[.:](?!\S))\s*(.*)$/i;
+    const optionPattern = /^\(?([A-D])[.)]\s*(.+)$/;
+    const subPartPattern = /^\(?([a-h]|i{1,3}|iv|vi{0,3}|ix|x)\)\s*(.+)$|^([a-h])\.\s+(.+)$/;
+    
+    // Strip the markdown added by formatExtractedText
+    const lines = text
+      .replace(/\r\n/g, '\n')
+      .replace(/^### Extracted Assignment Content:\s*/m, '')
+      .replace(/\n---\n\*Please review the extracted content[^\n]*\*\s*$/, '')
+      .split('\n')
+      .map(line => line.replace(/^#+\s*/, '').replace(/`/g, '').replace(/^•\s*/, '').trim());
+    
+    const questions: ParsedQuestion[] = [];
+    let current: ParsedQuestion | null = null;
+    let lastPart: QuestionPart | null = null;
+    
+    for (const line of lines) {
+      if (!line) continue;
+      
+      const questionMatch = line.match(questionPattern);
+      if (questionMatch) {
+        current = { number: questionMatch[1], text: questionMatch[2], subParts: [], options: [] };
+        lastPart = null;
+        questions.push(current);
+        continue;
+      }
+      
+      // Text before the first numbered question is treated as instructions
+      if (!current) continue;
+      
+      const optionMatch = line.match(optionPattern);
+      if (optionMatch) {
+        lastPart = { label: optionMatch[1], text: optionMatch[2] };
+        current.options.push(lastPart);
+        continue;
+      }
+      
+      const subPartMatch = line.match(subPartPattern);
+      if (subPartMatch) {
+        lastPart = { label: subPartMatch[1] || subPartMatch[3], text: subPartMatch[2] || subPartMatch[4] };
+        current.subParts.push(lastPart);
+        continue;
+      }
+      
+      // Continuation of the previous question, sub-part or option
+      const target = lastPart || current;
+      target.text = target.text ? `${target.text} ${line}` : line;
+    }
+    
+    // A document without numbered questions is a single question
+    if (questions.length === 0) {
+      const wholeText = lines.filter(Boolean).join('\n');
+      return wholeText ? [{ number: '1', text: wholeText, subParts: [], options: [] }] : [];
+    }
+    
+    return questions;
+  }
+
   /**
    * Format extracted text to improve readability and organize content
    * @param text Raw extracted text
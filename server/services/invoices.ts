@@ -0,0 +1,102 @@
+import { storage } from '../storage';
+import { planService } from './plans';
+import { pdfGenerator, type InvoiceSeller } from './pdfGenerator';
+import type { Invoice, SubscriptionPayment } from '@shared/schema';
+
+/**
+ * GST split of a tax-inclusive amount
+ */
+export interface TaxBreakdown {
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  placeOfSupply: string | null;
+}
+
+// Seller details printed on every invoice; without a GSTIN no tax is charged
+const seller: InvoiceSeller = {
+  name: process.env.INVOICE_SELLER_NAME || 'SolveM8',
+  address: process.env.INVOICE_SELLER_ADDRESS || null,
+  gstin: process.env.INVOICE_SELLER_GSTIN || null,
+};
+
+const invoicePrefix = process.env.INVOICE_PREFIX || 'SM8';
+
+// Plan prices already include GST at this rate
+const gstRatePercent = 18;
+
+class InvoiceService {
+  /**
+   * Split a tax-inclusive total into its taxable value and GST
+   * @param total Amount paid in the smallest currency unit
+   * @param currency Currency code of the payment
+   * @param customerGstin Buyer's GSTIN, if they gave one
+   * @returns Taxable value and CGST/SGST for sales within the seller's state, otherwise IGST
+   */
+  taxBreakdown(total: number, currency: string, customerGstin: string | null): TaxBreakdown {
+    // Payments in other currencies are exports and carry no GST
+    if (!seller.gstin || currency !== 'INR') {
+      return { taxableAmount: total, cgst: 0, sgst: 0, igst: 0, placeOfSupply: null };
+    }
+
+    const taxableAmount = Math.round(total * 100 / (100 + gstRatePercent));
+    const tax = total - taxableAmount;
+
+    // The first two digits of a GSTIN are the state code; consumers are billed from the seller's state
+    const sellerState = seller.gstin.slice(0, 2);
+    const placeOfSupply = customerGstin ? customerGstin.slice(0, 2) : sellerState;
+
+    if (placeOfSupply === sellerState) {
+      const cgst = Math.floor(tax / 2);
+      return { taxableAmount, cgst, sgst: tax - cgst, igst: 0, placeOfSupply };
+    }
+    return { taxableAmount, cgst: 0, sgst: 0, igst: tax, placeOfSupply };
+  }
+
+  /**
+   * Get the invoice for a paid payment, issuing it the first time
+   * @param payment Completed or refunded payment
+   * @returns The invoice, or undefined if the payment was never paid
+   */
+  async forPayment(payment: SubscriptionPayment): Promise<Invoice | undefined> {
+    if (payment.status !== 'completed' && payment.status !== 'refunded') return undefined;
+
+    const existing = await storage.getInvoiceByPaymentId(payment.id);
+    if (existing) return existing;
+
+    const user = await storage.getUser(payment.userId);
+    if (!user) return undefined;
+
+    const plan = await planService.get(payment.planType);
+    const tax = this.taxBreakdown(payment.amount, payment.currency, user.gstin);
+
+    return storage.createInvoice({
+      paymentId: payment.id,
+      userId: payment.userId,
+      description: plan?.name ?? payment.planType,
+      billingName: user.billingName || user.username,
+      billingAddress: user.billingAddress,
+      gstin: user.gstin,
+      sellerGstin: seller.gstin,
+      placeOfSupply: tax.placeOfSupply,
+      currency: payment.currency,
+      taxableAmount: tax.taxableAmount,
+      cgst: tax.cgst,
+      sgst: tax.sgst,
+      igst: tax.igst,
+      total: payment.amount,
+    }, sequence => `${invoicePrefix}-${String(sequence).padStart(6, '0')}`);
+  }
+
+  /**
+   * Render an invoice as a PDF
+   * @param invoice Issued invoice
+   * @returns PDF file contents
+   */
+  async render(invoice: Invoice): Promise<Buffer> {
+    return pdfGenerator.generateInvoicePDF({ invoice, seller, gstRatePercent });
+  }
+}
+
+export const invoiceService = new InvoiceService();
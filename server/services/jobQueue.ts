@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  userId: number;
+  status: JobStatus;
+  progress: number;
+  message: string | null;
+  attempts: number;
+  maxAttempts: number;
+  result: T | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobContext {
+  /**
+   * Report progress of the running job
+   * @param progress Progress between 0 and 100
+   * @param message Optional human-readable status message
+   */
+  reportProgress(progress: number, message?: string): void;
+}
+
+export type JobHandler<T> = (context: JobContext) => Promise<T>;
+
+interface EnqueueOptions {
+  maxAttempts?: number;
+}
+
+interface QueuedJob {
+  job: Job;
+  handler: JobHandler<unknown>;
+}
+
+// Number of jobs processed at the same time
+const concurrency = Number(process.env.JOB_CONCURRENCY) || 2;
+
+// Base delay between retries, doubled on every attempt
+const retryDelayMs = 1000;
+
+// How long finished jobs stay queryable
+const jobRetentionMs = 60 * 60 * 1000; // 1 hour
+
+class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: QueuedJob[] = [];
+  private events = new EventEmitter();
+  private running = 0;
+
+  constructor() {
+    // Every open SSE stream adds a listener
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Add a job to the queue
+   * @param type Job type, e.g. 'upload' or 'process'
+   * @param userId Owner of the job
+   * @param handler Work to run in the background
+   * @param options Retry options
+   * @returns The queued job
+   */
+  enqueue<T>(type: string, userId: number, handler: JobHandler<T>, options: EnqueueOptions = {}): Job<T> {
+    const now = new Date();
+    const job: Job<T> = {
+      id: uuidv4(),
+      type,
+      userId,
+      status: 'queued',
+      progress: 0,
+      message: null,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 3,
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, handler });
+    this.drain();
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   * @param id Job ID
+   * @returns The job, if it is still retained
+   */
+  getJob(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Listen for updates to a job
+   * @param id Job ID
+   * @param listener Called with the job on every change
+   * @returns Function that removes the listener
+   */
+  subscribe(id: string, listener: (job: Job) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  /**
+   * Start queued jobs while there is spare capacity
+   */
+  private drain(): void {
+    while (this.running < concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+      this.run(next).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Run a job, retrying with exponential backoff on failure
+   * @param queued Job and its handler
+   */
+  private async run({ job, handler }: QueuedJob): Promise<void> {
+    const context: JobContext = {
+      reportProgress: (progress, message) => {
+        this.update(job, {
+          progress: Math.max(0, Math.min(100, Math.round(progress))),
+          message: message ?? job.message,
+        });
+      },
+    };
+
+    while (job.attempts < job.maxAttempts) {
+      this.update(job, { status: 'running', attempts: job.attempts + 1, error: null });
+
+      try {
+        const result = await handler(context);
+        this.update(job, { status: 'completed', progress: 100, result });
+        break;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Job failed';
+        console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, error);
+
+        if (job.attempts >= job.maxAttempts) {
+          this.update(job, { status: 'failed', error: message });
+          break;
+        }
+
+        this.update(job, { status: 'queued', error: message });
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (job.attempts - 1)));
+      }
+    }
+
+    // Forget the job once clients have had time to collect the result
+    setTimeout(() => {
+      this.jobs.delete(job.id);
+    }, jobRetentionMs).unref();
+  }
+
+  /**
+   * Apply changes to a job and notify listeners
+   * @param job Job to update
+   * @param updates Changed fields
+   */
+  private update(job: Job, updates: Partial<Job>): void {
+    Object.assign(job, updates, { updatedAt: new Date() });
+    this.events.emit(job.id, job);
+  }
+}
+
+export const jobQueue = new JobQueue();
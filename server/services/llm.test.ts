@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLlmProvider, GeminiProvider, StubProvider } from './llm';
+
+describe('createLlmProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the stub provider outside production when no key is configured', () => {
+    expect(createLlmProvider({ NODE_ENV: 'development' })).toBeInstanceOf(StubProvider);
+  });
+
+  it('refuses the stub provider in production', () => {
+    expect(() => createLlmProvider({ NODE_ENV: 'production' })).toThrow('The stub LLM provider cannot be used in production');
+    expect(() => createLlmProvider({ NODE_ENV: 'production', LLM_PROVIDER: 'stub' })).toThrow();
+  });
+
+  it('uses Gemini when its key is configured', () => {
+    expect(createLlmProvider({ NODE_ENV: 'production', GEMINI_API_KEY: 'key' })).toBeInstanceOf(GeminiProvider);
+  });
+});
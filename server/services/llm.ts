@@ -0,0 +1,309 @@
+/**
+ * LLM provider abstraction used by the AI service
+ */
+
+export interface GenerationConfig {
+  temperature: number;
+  maxOutputTokens: number;
+  topP: number;
+  topK: number;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  config: GenerationConfig;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+
+  /**
+   * Generate a completion for a prompt
+   * @param request Prompt and generation settings
+   * @returns The generated text
+   */
+  generate(request: LlmRequest): Promise<string>;
+
+  /**
+   * Stream a completion for a prompt chunk by chunk
+   * @param request Prompt and generation settings
+   * @param signal Optional signal that aborts the upstream request
+   * @returns Async iterable of text chunks
+   */
+  stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+/**
+ * Read the `data:` payloads of a Server-Sent Events response
+ * @param response Fetch response with an event-stream body
+ * @returns Async iterable of event payloads
+ */
+async function* readEventData(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const data = rawEvent
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Google Gemini provider
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string = 'gemini-pro',
+    private readonly baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta',
+  ) {}
+
+  async generate({ prompt, config }: LlmRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/models/${this.model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [{ text: prompt }]
+          }
+        ],
+        generationConfig: config
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Gemini API Error:', errorData);
+      throw new Error(`Failed to process assignment with Gemini: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // Extract the solution text from the response
+    if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
+      return data.candidates[0].content.parts[0].text;
+    }
+    throw new Error('Invalid response format from Gemini API');
+  }
+
+  async *stream({ prompt, config }: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [{ text: prompt }]
+          }
+        ],
+        generationConfig: config
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Gemini API Error:', errorData);
+      throw new Error(`Failed to process assignment with Gemini: ${response.statusText}`);
+    }
+
+    for await (const data of readEventData(response)) {
+      const chunk = JSON.parse(data);
+      const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string = 'gpt-4o-mini',
+    private readonly baseUrl: string = 'https://api.openai.com/v1',
+  ) {}
+
+  async generate({ prompt, config }: LlmRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: config.temperature,
+        max_tokens: config.maxOutputTokens,
+        top_p: config.topP,
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('OpenAI API Error:', errorData);
+      throw new Error(`Failed to process assignment with ${this.model}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (typeof data.choices?.[0]?.message?.content === 'string') {
+      return data.choices[0].message.content;
+    }
+    throw new Error('Invalid response format from OpenAI-compatible API');
+  }
+
+  async *stream({ prompt, config }: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: config.temperature,
+        max_tokens: config.maxOutputTokens,
+        top_p: config.topP,
+        stream: true,
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('OpenAI API Error:', errorData);
+      throw new Error(`Failed to process assignment with ${this.model}: ${response.statusText}`);
+    }
+
+    for await (const data of readEventData(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider for development and tests
+ */
+export class StubProvider implements LlmProvider {
+  readonly name = 'stub';
+
+  async generate({ prompt }: LlmRequest): Promise<string> {
+    return `Step-by-step solution:
+
+1. First, let's understand the problem:
+${prompt}
+
+2. We'll start by analyzing the key components:
+   - The problem requires understanding the fundamental concepts
+   - We need to apply appropriate formulas and methods
+
+3. Solution approach:
+   - Break down the problem into manageable parts
+   - Apply relevant formulas to each part
+   - Combine the results for the final answer
+
+4. Working through the solution:
+   [Detailed calculations would be shown here]
+
+5. Final answer:
+   Based on our calculations, the solution demonstrates the application of the core principles involved in this problem.
+
+Note: This is a simulated AI response from the stub provider.`;
+  }
+
+  async *stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const text = await this.generate(request);
+
+    // Emit word by word so the streaming UI can be exercised offline
+    for (const chunk of text.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Create the provider configured for this environment
+ *
+ * LLM_PROVIDER selects 'gemini', 'openai' or 'stub'. Without it, Gemini is used
+ * when GEMINI_API_KEY is set and the stub provider otherwise. The stub is
+ * refused in production, where users pay attempts for its canned answers.
+ * @param env Environment to read the configuration from
+ * @returns The configured LLM provider
+ */
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const providerName = env.LLM_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'stub');
+
+  switch (providerName) {
+    case 'gemini':
+      if (!env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is required for the gemini provider');
+      }
+      return new GeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined);
+
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required for the openai provider');
+      }
+      return new OpenAiCompatibleProvider(
+        env.OPENAI_API_KEY,
+        env.OPENAI_MODEL || undefined,
+        env.OPENAI_BASE_URL || undefined,
+      );
+
+    case 'stub':
+      if (env.NODE_ENV === 'production') {
+        throw new Error('The stub LLM provider cannot be used in production; set GEMINI_API_KEY');
+      }
+      console.warn('No LLM provider configured, using the stub provider with simulated answers');
+      return new StubProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,117 @@
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMailer, MemoryMailer, SmtpMailer } from './mailer';
+
+// An SMTP server without TLS that accepts everything and records the commands it was sent
+const startPlainSmtpServer = async () => {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let data: string | null = null;
+
+    socket.setEncoding('utf8');
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      if (data !== null) {
+        data += buffer;
+        buffer = '';
+        if (data.endsWith('\r\n.\r\n')) {
+          messages.push(data);
+          data = null;
+          socket.write('250 Queued\r\n');
+        }
+        return;
+      }
+
+      let newline = buffer.indexOf('\r\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 Authenticated\r\n');
+        else if (verb === 'DATA') { socket.write('354 Go ahead\r\n'); data = ''; }
+        else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+        newline = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, commands, messages, port: (server.address() as AddressInfo).port };
+};
+
+describe('SmtpMailer', () => {
+  let smtp: Awaited<ReturnType<typeof startPlainSmtpServer>>;
+
+  beforeEach(async () => {
+    smtp = await startPlainSmtpServer();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => smtp.server.close(resolve));
+  });
+
+  const message = { to: 'reader@example.com', subject: 'Hello', text: 'Hi there' };
+
+  it('will not send credentials when the server offers no TLS', async () => {
+    const mailer = new SmtpMailer({
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      from: 'SolveM8 <no-reply@solvem8.test>',
+    });
+
+    await expect(mailer.send(message)).rejects.toThrow('Refusing to send SMTP credentials over a connection without TLS');
+    expect(smtp.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('delivers without authenticating when no credentials are configured', async () => {
+    const mailer = new SmtpMailer({
+      host: '127.0.0.1',
+      port: smtp.port,
+      secure: false,
+      from: 'SolveM8 <no-reply@solvem8.test>',
+    });
+
+    await mailer.send(message);
+
+    expect(smtp.commands).toContain('MAIL FROM:<no-reply@solvem8.test>');
+    expect(smtp.commands).toContain('RCPT TO:<reader@example.com>');
+    expect(smtp.messages[0]).toContain('To: reader@example.com');
+  });
+});
+
+describe('createMailer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps mail in memory outside production when no SMTP server is configured', () => {
+    expect(createMailer({ NODE_ENV: 'development' })).toBeInstanceOf(MemoryMailer);
+  });
+
+  it('refuses the in-memory mailer in production', () => {
+    expect(() => createMailer({ NODE_ENV: 'production' })).toThrow('The in-memory mailer cannot be used in production');
+    expect(() => createMailer({ NODE_ENV: 'production', MAILER: 'memory' })).toThrow();
+  });
+
+  it('uses SMTP when a host is configured', () => {
+    expect(createMailer({ NODE_ENV: 'production', SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpMailer);
+  });
+});
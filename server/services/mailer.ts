@@ -0,0 +1,372 @@
+/**
+ * Mailer abstraction used for account emails
+ */
+import crypto from 'crypto';
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+
+  /**
+   * Deliver an email
+   * @param message Recipient, subject and body
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * A single SMTP conversation over a plain or TLS socket
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pending: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach();
+  }
+
+  /**
+   * Open a connection to the server
+   * @param config Server address and whether to use TLS straight away
+   * @returns The connected session, before the greeting is read
+   */
+  static connect(config: SmtpConfig): Promise<SmtpConnection> {
+    const timeoutMs = config.timeoutMs ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      const connectedEvent = config.secure ? 'secureConnect' : 'connect';
+
+      const onError = (error: Error) => reject(error);
+      socket.once('error', onError);
+      socket.once(connectedEvent, () => {
+        socket.off('error', onError);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  private attach(): void {
+    this.socket.setEncoding('utf8');
+    this.socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new Error('SMTP server timed out'));
+      this.socket.destroy();
+    });
+    this.socket.on('data', (chunk: string) => this.receive(chunk));
+    this.socket.on('error', error => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+
+    // A reply may span several lines; the last one has a space after the code
+    let lines: string[] = [];
+    let newline = this.buffer.indexOf('\r\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: lines.map(item => item.slice(4)) });
+        lines = [];
+      }
+      newline = this.buffer.indexOf('\r\n');
+    }
+
+    // Keep a partial multi-line reply for the next chunk
+    if (lines.length > 0) {
+      this.buffer = lines.join('\r\n') + '\r\n' + this.buffer;
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.pending.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  /**
+   * Read the next reply and check its status code
+   * @param expected Codes that count as success
+   * @returns The reply
+   */
+  read(...expected: number[]): Promise<SmtpReply> {
+    const next = this.pending.shift();
+    const reply = next
+      ? Promise.resolve(next)
+      : this.failure
+        ? Promise.reject(this.failure)
+        : new Promise<SmtpReply>((resolve, reject) => { this.waiting = { resolve, reject }; });
+
+    return reply.then(result => {
+      if (!expected.includes(result.code)) {
+        throw new Error(`SMTP error ${result.code}: ${result.lines.join(' ')}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Send a command and read its reply
+   * @param line Command without the line ending
+   * @param expected Codes that count as success
+   * @returns The reply
+   */
+  async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(...expected);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS was accepted
+   * @param host Server name to verify the certificate against
+   */
+  upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secureSocket = tls.connect({ socket: this.socket, servername: host });
+      secureSocket.once('error', reject);
+      secureSocket.once('secureConnect', () => {
+        secureSocket.off('error', reject);
+        this.socket = secureSocket;
+        this.attach();
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Encode a header value so non-ASCII text survives transport
+ * @param value Header text
+ */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Base64-encode a body part, wrapped at 76 characters as MIME requires
+ * @param value Body text
+ */
+const encodeBody = (value: string): string =>
+  Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/**
+ * Extract the bare address from a From value such as `SolveM8 <no-reply@example.com>`
+ * @param from Sender as configured
+ */
+const senderAddress = (from: string): string => from.match(/<([^>]+)>/)?.[1] ?? from.trim();
+
+/**
+ * Build the raw message sent after DATA
+ * @param from Sender as configured
+ * @param message Recipient, subject and body
+ * @returns The message with CRLF line endings
+ */
+export function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${senderAddress(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Mailer that delivers through an SMTP server
+ */
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = await SmtpConnection.connect(this.config);
+
+    try {
+      await connection.read(220);
+      const greeting = await connection.command(`EHLO ${os.hostname()}`, 250);
+
+      let encrypted = this.config.secure;
+      if (!encrypted && greeting.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${os.hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        // AUTH PLAIN is only base64, so anyone on the path could read the password
+        if (!encrypted) {
+          throw new Error('Refusing to send SMTP credentials over a connection without TLS');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${senderAddress(this.config.from)}>`, 250);
+      await connection.command(`RCPT TO:<${message.to}>`, 250, 251);
+      await connection.command('DATA', 354);
+
+      // Lines starting with a dot are escaped so they cannot end the message early
+      const body = formatMessage(this.config.from, message).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * Mailer that keeps messages in memory, for development and tests
+ */
+export class MemoryMailer implements Mailer {
+  readonly name = 'memory';
+  readonly outbox: MailMessage[] = [];
+
+  constructor(private readonly log: boolean = false) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+    if (this.log) {
+      console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  }
+
+  /**
+   * Get the most recent message sent to an address
+   * @param to Recipient address
+   */
+  lastTo(to: string): MailMessage | undefined {
+    return [...this.outbox].reverse().find(message => message.to.toLowerCase() === to.toLowerCase());
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+/**
+ * Create the mailer configured for this environment
+ *
+ * MAILER selects 'smtp' or 'memory'. Without it, SMTP is used when SMTP_HOST
+ * is set and the in-memory outbox otherwise, which also prints each message
+ * so links can be followed in development. The in-memory outbox is refused in
+ * production, where nobody would ever receive those emails.
+ * @param env Environment to read the configuration from
+ * @returns The configured mailer
+ */
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  const mailerName = env.MAILER || (env.SMTP_HOST ? 'smtp' : 'memory');
+
+  switch (mailerName) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp mailer');
+      }
+      const port = Number(env.SMTP_PORT || 587);
+      return new SmtpMailer({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+        from: env.MAIL_FROM || 'SolveM8 <no-reply@solvem8.com>',
+      });
+    }
+
+    case 'memory':
+      if (env.NODE_ENV === 'production') {
+        throw new Error('The in-memory mailer cannot be used in production; set SMTP_HOST');
+      }
+      console.log('Using in-memory mailer');
+      return new MemoryMailer(true);
+
+    default:
+      throw new Error(`Unknown mailer: ${mailerName}`);
+  }
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { paymentService } from './payment';
+import { paymentProcessor } from './paymentProcessor';
+import { invoiceService } from './invoices';
+import { mailer, MemoryMailer } from './mailer';
+import type {
+  CheckoutConfirmation,
+  CreateOrderRequest,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderOrder,
+  ProviderPayment,
+  ProviderRefund,
+} from './paymentProviders';
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+
+const outbox = mailer as MemoryMailer;
+
+// Behaves like Razorpay from the processor's side: orders, payment attempts against them, and refunds
+class RazorpayStandIn implements PaymentProvider {
+  readonly name = 'razorpay';
+  readonly publicKey = 'rzp_test_standin';
+  private orderCount = 0;
+  private attempts = new Map<string, ProviderPayment[]>();
+
+  async createOrder(request: CreateOrderRequest): Promise<ProviderOrder> {
+    const id = `order_${++this.orderCount}`;
+    this.attempts.set(id, []);
+    return { id, amount: request.amount, currency: request.currency, checkoutUrl: null };
+  }
+
+  async confirmCheckout(orderId: string, confirmation: CheckoutConfirmation): Promise<ProviderPayment | null> {
+    return this.attempts.get(orderId)?.find(attempt => attempt.id === confirmation.paymentId) ?? null;
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    return this.attempts.get(orderId) ?? [];
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+    return { id: `rfnd_${paymentId}`, paymentId, amount };
+  }
+
+  parseWebhook(): PaymentWebhookEvent | null {
+    return null;
+  }
+
+  // What the user does in the checkout
+  pay(orderId: string, amount: number, status: ProviderPayment['status'] = 'captured'): ProviderPayment {
+    const attempts = this.attempts.get(orderId) ?? [];
+    const payment: ProviderPayment = { id: `pay_${orderId}_${attempts.length + 1}`, orderId, status, amount, currency: 'INR' };
+    this.attempts.set(orderId, [...attempts, payment]);
+    return payment;
+  }
+}
+
+describe('PaymentProcessor', () => {
+  let razorpay: RazorpayStandIn;
+  let userCount = 0;
+
+  beforeEach(() => {
+    razorpay = new RazorpayStandIn();
+    vi.spyOn(paymentService, 'get').mockImplementation(name => name === razorpay.name ? razorpay : undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createUser = () => {
+    userCount++;
+    return storage.createUser({ username: `buyer${userCount}`, email: `buyer${userCount}@example.com`, password: 'password1' });
+  };
+
+  // An order as /api/payment/initiate leaves it, optionally backdated so the sweep picks it up
+  const startCheckout = async (userId: number, planType: string, amount: number, ageMs: number = 0) => {
+    const order = await razorpay.createOrder({ amount, currency: 'INR', receipt: 'receipt', description: planType, returnUrl: '' });
+    const payment = await storage.createPayment({ userId, amount, planType, orderId: order.id, provider: razorpay.name });
+    if (ageMs) {
+      return (await storage.updatePayment(payment.id, { timestamp: new Date(Date.now() - ageMs) }))!;
+    }
+    return payment;
+  };
+
+  it('grants the plan, issues the invoice and settles the payment', async () => {
+    const user = await createUser();
+    const payment = await startCheckout(user.id, 'pack', 29900);
+    const attempt = razorpay.pay(payment.orderId!, 29900);
+
+    expect(await paymentProcessor.complete(payment, attempt.id)).toBe(true);
+
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+    expect(await storage.getInvoiceByPaymentId(payment.id)).toBeDefined();
+    expect((await storage.getPayment(payment.id))?.settledAt).toBeInstanceOf(Date);
+  });
+
+  it('grants the plan only once when the checkout and the webhook both report it', async () => {
+    const user = await createUser();
+    const payment = await startCheckout(user.id, 'pack', 29900);
+    const attempt = razorpay.pay(payment.orderId!, 29900);
+
+    const results = await Promise.all([
+      paymentProcessor.complete(payment, attempt.id),
+      paymentProcessor.handleWebhookEvent(razorpay, {
+        id: 'evt_1',
+        name: 'payment.captured',
+        type: 'captured',
+        orderId: payment.orderId,
+        paymentId: attempt.id,
+        payment: attempt,
+      }),
+    ]);
+
+    expect(results[0]).toBe(true);
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+    expect((await storage.getCreditLedger(user.id)).filter(entry => entry.type === 'pack_purchase')).toHaveLength(1);
+  });
+
+  it('adds a renewal to the time left on a running subscription', async () => {
+    const user = await createUser();
+    const expiresAt = new Date(Date.now() + 10 * day);
+    await storage.updateUser(user.id, { subscriptionStatus: 'active', subscriptionExpiresAt: expiresAt });
+    const payment = await startCheckout(user.id, 'monthly', 19900);
+
+    expect(await paymentProcessor.complete(payment, razorpay.pay(payment.orderId!, 19900).id)).toBe(true);
+
+    const renewed = await storage.getUser(user.id);
+    expect(renewed?.subscriptionStatus).toBe('active');
+    expect(renewed?.subscriptionExpiresAt?.getTime()).toBe(expiresAt.getTime() + 30 * day);
+    expect(outbox.lastTo(user.email)?.subject).toBe('Your SolveM8 subscription has been renewed');
+  });
+
+  it('starts a new period from today when the subscription has lapsed', async () => {
+    const user = await createUser();
+    await storage.updateUser(user.id, { subscriptionStatus: 'expired', subscriptionExpiresAt: new Date(Date.now() - 5 * day) });
+    const payment = await startCheckout(user.id, 'monthly', 19900);
+    const before = Date.now();
+
+    expect(await paymentProcessor.complete(payment, razorpay.pay(payment.orderId!, 19900).id)).toBe(true);
+
+    const resubscribed = await storage.getUser(user.id);
+    expect(resubscribed?.subscriptionStatus).toBe('active');
+    expect(resubscribed?.subscriptionExpiresAt?.getTime()).toBeGreaterThanOrEqual(before + 30 * day);
+    expect(resubscribed?.subscriptionExpiresAt?.getTime()).toBeLessThanOrEqual(Date.now() + 30 * day);
+    expect(outbox.lastTo(user.email)?.subject).toBe('Your SolveM8 subscription is active');
+  });
+
+  it('still grants the subscription when issuing the invoice fails, and settles it on the next sweep', async () => {
+    const user = await createUser();
+    const payment = await startCheckout(user.id, 'monthly', 19900, hour);
+    const attempt = razorpay.pay(payment.orderId!, 19900);
+    vi.spyOn(invoiceService, 'forPayment').mockRejectedValueOnce(new Error('Invoice store unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await paymentProcessor.complete(payment, attempt.id)).toBe(true);
+
+    const buyer = await storage.getUser(user.id);
+    expect(buyer?.subscriptionStatus).toBe('active');
+    expect((await storage.getPayment(payment.id))?.settledAt).toBeNull();
+
+    await paymentProcessor.reconcilePending();
+    expect((await storage.getPayment(payment.id))?.settledAt).toBeInstanceOf(Date);
+    expect(await storage.getInvoiceByPaymentId(payment.id)).toBeDefined();
+    // Retrying the follow-ups does not grant the plan again
+    expect((await storage.getUser(user.id))?.subscriptionExpiresAt).toEqual(buyer?.subscriptionExpiresAt);
+  });
+
+  it('rewards the referral once, on the first settled payment', async () => {
+    const referrer = await createUser();
+    const referee = await createUser();
+    await storage.createReferral({ referrerId: referrer.id, refereeId: referee.id });
+
+    for (const amount of [29900, 29900]) {
+      const payment = await startCheckout(referee.id, 'pack', amount);
+      await paymentProcessor.complete(payment, razorpay.pay(payment.orderId!, amount).id);
+    }
+
+    expect((await storage.getUser(referrer.id))?.freeAttempts).toBe(8);
+    expect((await storage.getUser(referee.id))?.freeAttempts).toBe(3 + 20 + 20 + 5);
+  });
+
+  it('ignores a captured payment for less than the order', async () => {
+    const user = await createUser();
+    const payment = await startCheckout(user.id, 'pack', 29900);
+    const attempt = razorpay.pay(payment.orderId!, 100);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await paymentProcessor.handleWebhookEvent(razorpay, {
+      id: 'evt_2',
+      name: 'payment.captured',
+      type: 'captured',
+      orderId: payment.orderId,
+      paymentId: attempt.id,
+      payment: attempt,
+    });
+
+    expect((await storage.getPayment(payment.id))?.status).toBe('pending');
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(3);
+  });
+
+  it('completes stale orders paid at the provider and fails abandoned ones', async () => {
+    const user = await createUser();
+    const paid = await startCheckout(user.id, 'pack', 29900, hour);
+    razorpay.pay(paid.orderId!, 29900, 'failed');
+    razorpay.pay(paid.orderId!, 29900);
+    const abandoned = await startCheckout(user.id, 'pack', 29900, 25 * hour);
+    const recent = await startCheckout(user.id, 'pack', 29900);
+
+    await paymentProcessor.reconcilePending();
+
+    expect((await storage.getPayment(paid.id))?.status).toBe('completed');
+    expect((await storage.getPayment(abandoned.id))?.status).toBe('failed');
+    expect((await storage.getPayment(recent.id))?.status).toBe('pending');
+    expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+  });
+
+  it('gives back the coupon of an order that failed and takes it again if the order is paid after all', async () => {
+    const user = await createUser();
+    const coupon = await storage.createCoupon({ code: `ONCE${userCount}`, discountType: 'flat', discountValue: 9900, maxRedemptions: 1 });
+    expect(await storage.redeemCoupon(coupon.id)).toBe(true);
+
+    const payment = await storage.updatePayment(
+      (await startCheckout(user.id, 'pack', 20000)).id,
+      { couponCode: coupon.code, discount: 9900 }
+    );
+
+    expect(await paymentProcessor.fail(payment!)).toBe(true);
+    expect((await storage.getCoupon(coupon.id))?.redemptionCount).toBe(0);
+
+    const failed = (await storage.getPayment(payment!.id))!;
+    expect(await paymentProcessor.complete(failed, razorpay.pay(failed.orderId!, 20000).id)).toBe(true);
+    expect((await storage.getCoupon(coupon.id))?.redemptionCount).toBe(1);
+  });
+});
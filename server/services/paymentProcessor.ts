@@ -0,0 +1,399 @@
+import { storage, type PaymentGrant } from '../storage';
+import { paymentService } from './payment';
+import type { PaymentProvider, PaymentWebhookEvent, ProviderPayment } from './paymentProviders';
+import { creditService } from './credits';
+import { subscriptionService } from './subscriptions';
+import { planService } from './plans';
+import { couponService } from './coupons';
+import { referralService } from './referrals';
+import { invoiceService } from './invoices';
+import { auditService } from './audit';
+import type { PaymentStatus, SubscriptionPayment } from '@shared/schema';
+
+/**
+ * What was taken back from the user when a payment was refunded
+ */
+export interface RefundOutcome {
+  payment: SubscriptionPayment;
+  attemptsRevoked: number;
+  daysRevoked: number;
+}
+
+// Pending orders younger than this may still be in the user's checkout
+const reconcileAfterMs = 15 * 60 * 1000; // 15 minutes
+
+// Pending orders with no successful payment after this are given up on
+const pendingOrderTimeoutMs = 24 * 60 * 60 * 1000; // 24 hours
+
+// How often stale pending orders are reconciled
+const reconcileIntervalMs = 15 * 60 * 1000; // 15 minutes
+
+// The states each status can be reached from; a failed attempt can be followed by a successful one
+const allowedTransitions: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: [],
+  completed: ['pending', 'failed'],
+  failed: ['pending'],
+  refunded: ['completed'],
+};
+
+class PaymentProcessor {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Mark a payment as completed and grant what was bought, exactly once
+   *
+   * The status change and the grant are stored together, so a payment is
+   * never completed without the user getting their plan. Everything else
+   * happens afterwards in settle(), which the reconciliation sweep retries.
+   * @param payment Payment record
+   * @param providerPaymentId Provider payment ID
+   * @returns True if this call completed the payment, false if it was already handled
+   */
+  async complete(payment: SubscriptionPayment, providerPaymentId: string): Promise<boolean> {
+    // Plans that have since been withdrawn still honour what was paid for
+    const plan = await planService.get(payment.planType);
+    if (!plan) {
+      console.error(`Payment ${payment.id} is for unknown plan ${payment.planType}`);
+    }
+
+    let renewing = false;
+    const completed = await storage.completePayment(
+      payment.id,
+      allowedTransitions.completed,
+      { status: 'completed', paymentId: providerPaymentId },
+      user => {
+        const grant: PaymentGrant = {};
+        if (plan?.durationDays) {
+          const period = subscriptionService.periodAfter(user, plan.durationDays);
+          renewing = period.renewing;
+          grant.subscription = { subscriptionStatus: 'active', subscriptionExpiresAt: period.expiresAt };
+        }
+        if (plan?.credits) {
+          grant.credits = {
+            type: 'pack_purchase',
+            amount: plan.credits,
+            reference: `payment:${payment.id}`,
+            description: `${plan.name} purchase`
+          };
+        }
+        return grant;
+      }
+    );
+    if (!completed) return false;
+
+    if (plan?.durationDays) {
+      await subscriptionService.notify(completed.user, renewing ? 'renewed' : 'activated');
+    }
+
+    // Failing gave the coupon back, so a failed order paid after all takes it again
+    if (payment.status === 'failed') {
+      try {
+        await couponService.restore(completed.payment);
+      } catch (error) {
+        console.error(`Coupon error for payment ${payment.id}:`, error);
+      }
+    }
+
+    await this.settle(completed.payment);
+    return true;
+  }
+
+  /**
+   * Reward the referral and issue the invoice for a completed payment
+   *
+   * Both steps are safe to repeat, so a payment that fails here stays
+   * unsettled and the reconciliation sweep tries it again.
+   * @param payment Completed payment
+   * @returns True if the payment is now settled
+   */
+  async settle(payment: SubscriptionPayment): Promise<boolean> {
+    try {
+      await referralService.rewardFirstPayment(payment.userId);
+      await invoiceService.forPayment(payment);
+      await storage.updatePayment(payment.id, { settledAt: new Date() });
+      return true;
+    } catch (error) {
+      console.error(`Settling payment ${payment.id} failed, will retry:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark a pending payment as failed
+   * @param payment Payment record
+   * @param providerPaymentId Provider payment ID, if a payment was attempted
+   * @returns True if the payment was pending and is now failed
+   */
+  async fail(payment: SubscriptionPayment, providerPaymentId?: string): Promise<boolean> {
+    const failed = await this.transition(payment, 'failed', {
+      paymentId: providerPaymentId ?? payment.paymentId
+    });
+    if (!failed) return false;
+
+    await couponService.release(failed.couponCode);
+    return true;
+  }
+
+  /**
+   * Refund some or all of a completed payment through its provider and take back what it bought
+   * @param payment Completed payment
+   * @param provider Provider that took the payment
+   * @param amount Amount to refund in the smallest currency unit
+   * @param reason Why the payment is refunded
+   * @param actorId Admin who asked for the refund
+   * @returns What was revoked, or undefined if the amount is no longer refundable
+   */
+  async refund(
+    payment: SubscriptionPayment,
+    provider: PaymentProvider,
+    amount: number,
+    reason: string,
+    actorId: number
+  ): Promise<RefundOutcome | undefined> {
+    if (!payment.paymentId) return undefined;
+
+    // Claim the amount first so two admins cannot refund the same money twice
+    const claimed = await storage.recordPaymentRefund(payment.id, amount);
+    if (!claimed) return undefined;
+
+    let providerRefundId: string;
+    try {
+      const providerRefund = await provider.refund(payment.paymentId, amount);
+      providerRefundId = providerRefund.id;
+    } catch (error) {
+      await storage.recordPaymentRefund(payment.id, -amount);
+      throw error;
+    }
+
+    const outcome = await this.revoke(payment, claimed, `Refund: ${reason}`);
+
+    await auditService.record(actorId, 'payment.refund', { type: 'payment', id: payment.id }, {
+      amount,
+      currency: payment.currency,
+      reason,
+      provider: provider.name,
+      providerRefundId,
+      attemptsRevoked: outcome.attemptsRevoked,
+      daysRevoked: outcome.daysRevoked
+    });
+    return outcome;
+  }
+
+  /**
+   * Mark a completed payment as refunded after the provider reports a full refund
+   * @param payment Payment record
+   * @returns True if the payment was completed and is now refunded
+   */
+  async markRefunded(payment: SubscriptionPayment): Promise<boolean> {
+    // Refunds made on the provider's dashboard never went through refund(), so the rest is revoked here
+    const remaining = payment.amount - payment.refundedAmount;
+    if (payment.status === 'completed' && remaining > 0) {
+      const claimed = await storage.recordPaymentRefund(payment.id, remaining);
+      if (!claimed) return false;
+
+      const outcome = await this.revoke(payment, claimed, 'Refunded by the payment provider');
+      await auditService.record(null, 'payment.refund', { type: 'payment', id: payment.id }, {
+        amount: remaining,
+        currency: payment.currency,
+        reason: 'Refund reported by provider webhook',
+        provider: payment.provider,
+        attemptsRevoked: outcome.attemptsRevoked,
+        daysRevoked: outcome.daysRevoked
+      });
+      return outcome.payment.status === 'refunded';
+    }
+
+    const refunded = await this.transition(payment, 'refunded');
+    return !!refunded;
+  }
+
+  /**
+   * Apply a verified webhook event; safe to call more than once for the same event
+   * @param provider Provider that sent the webhook
+   * @param event Parsed webhook event
+   */
+  async handleWebhookEvent(provider: PaymentProvider, event: PaymentWebhookEvent): Promise<void> {
+    if (event.type === 'ignored') {
+      console.log(`Ignoring unhandled ${provider.name} webhook ${event.name}`);
+      return;
+    }
+
+    const payment = event.orderId
+      ? await storage.getPaymentByOrderId(event.orderId)
+      : event.paymentId ? await storage.getPaymentByProviderPaymentId(event.paymentId) : undefined;
+
+    // Order IDs are only unique within a provider
+    if (!payment || payment.provider !== provider.name) {
+      console.warn(`Ignoring ${provider.name} ${event.name} webhook for unknown order ${event.orderId ?? event.paymentId}`);
+      return;
+    }
+
+    switch (event.type) {
+      case 'captured':
+        if (event.payment && this.matchesOrder(payment, event.payment)) {
+          await this.complete(payment, event.payment.id);
+        }
+        break;
+
+      case 'failed':
+        await this.fail(payment, event.payment?.id);
+        break;
+
+      case 'refunded':
+        await this.markRefunded(payment);
+        break;
+    }
+  }
+
+  /**
+   * Settle pending orders whose checkout never reported back, and retry
+   * completed payments whose follow-ups failed
+   * @returns Number of payments that changed state
+   */
+  async reconcilePending(): Promise<number> {
+    const now = Date.now();
+    const stale = await storage.getPendingPayments(new Date(now - reconcileAfterMs));
+    let settled = 0;
+
+    for (const payment of await storage.getUnsettledPayments(new Date(now - reconcileAfterMs))) {
+      if (await this.settle(payment)) settled++;
+    }
+
+    for (const payment of stale) {
+      // Orders from a provider that has since been switched off cannot be checked
+      const provider = paymentService.get(payment.provider);
+      if (!payment.orderId || !provider) continue;
+
+      try {
+        const attempts = await provider.fetchOrderPayments(payment.orderId);
+        const captured = attempts.find(attempt => attempt.status === 'captured' && this.matchesOrder(payment, attempt));
+
+        if (captured) {
+          if (await this.complete(payment, captured.id)) settled++;
+        } else if (now - payment.timestamp.getTime() > pendingOrderTimeoutMs) {
+          if (await this.fail(payment, attempts[0]?.id)) settled++;
+        }
+      } catch (error) {
+        console.error(`Payment reconciliation error for order ${payment.orderId}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Start reconciling stale pending orders in the background
+   * @param intervalMs Time between sweeps
+   */
+  start(intervalMs: number = reconcileIntervalMs): void {
+    if (this.timer) return;
+
+    const sweep = () => {
+      this.reconcilePending().catch(error => {
+        console.error('Payment reconciliation sweep error:', error);
+      });
+    };
+
+    sweep();
+    this.timer = setInterval(sweep, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background reconciliation
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check whether a payment can move to a new status
+   * @param payment Payment record
+   * @param to Target status
+   * @returns True if the transition is allowed from the payment's current status
+   */
+  canTransition(payment: SubscriptionPayment, to: PaymentStatus): boolean {
+    return allowedTransitions[to].includes(payment.status);
+  }
+
+  /**
+   * Check that a provider payment paid for the full amount of our order
+   * @param payment Payment record
+   * @param providerPayment Payment reported by the provider
+   * @returns True if the amount and currency match
+   */
+  matchesOrder(payment: SubscriptionPayment, providerPayment: ProviderPayment): boolean {
+    const matches = providerPayment.orderId === payment.orderId
+      && providerPayment.amount === payment.amount
+      && providerPayment.currency === payment.currency;
+
+    if (!matches) {
+      console.warn(`${payment.provider} payment ${providerPayment.id} does not match order ${payment.orderId}`);
+    }
+    return matches;
+  }
+
+  /**
+   * Take back the share of a purchase covered by newly refunded money
+   * @param before Payment as it was before the refund was claimed
+   * @param after Payment with the refund claimed
+   * @param description Ledger description for revoked attempts
+   * @returns What was revoked
+   */
+  private async revoke(before: SubscriptionPayment, after: SubscriptionPayment, description: string): Promise<RefundOutcome> {
+    // A fully refunded payment no longer counts as paid
+    const payment = after.refundedAmount === after.amount
+      ? await this.transition(after, 'refunded') ?? after
+      : after;
+
+    const plan = await planService.get(payment.planType);
+    if (!plan) {
+      console.error(`Refunded payment ${payment.id} is for unknown plan ${payment.planType}`);
+      return { payment, attemptsRevoked: 0, daysRevoked: 0 };
+    }
+
+    // Work from cumulative totals so several partial refunds never round to more than was bought
+    const share = (total: number, refunded: number) => Math.round(total * refunded / payment.amount);
+    const revokedSince = (total: number) => share(total, after.refundedAmount) - share(total, before.refundedAmount);
+
+    let attemptsRevoked = 0;
+    if (plan.credits) {
+      // Attempts that have already been used cannot be taken back
+      const user = await storage.getUser(payment.userId);
+      attemptsRevoked = Math.min(revokedSince(plan.credits), user?.freeAttempts ?? 0);
+      if (attemptsRevoked > 0) {
+        const entry = await creditService.grant(payment.userId, 'purchase_refund', -attemptsRevoked, description, `payment:${payment.id}`);
+        // An attempt spent in the meantime leaves too little to take back
+        if (!entry) attemptsRevoked = 0;
+      }
+    }
+
+    let daysRevoked = 0;
+    if (plan.durationDays) {
+      daysRevoked = revokedSince(plan.durationDays);
+      await subscriptionService.shorten(payment.userId, daysRevoked);
+    }
+
+    return { payment, attemptsRevoked, daysRevoked };
+  }
+
+  /**
+   * Move a payment to a new status; the storage update only applies if nobody moved it first
+   * @param payment Payment record
+   * @param to Target status
+   * @param updates Other fields to change with the status
+   * @returns The updated payment, or undefined if the transition is not allowed
+   */
+  private async transition(
+    payment: SubscriptionPayment,
+    to: PaymentStatus,
+    updates: Partial<SubscriptionPayment> = {}
+  ): Promise<SubscriptionPayment | undefined> {
+    return storage.transitionPayment(payment.id, allowedTransitions[to], { ...updates, status: to });
+  }
+}
+
+export const paymentProcessor = new PaymentProcessor();
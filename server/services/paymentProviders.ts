@@ -0,0 +1,581 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+/**
+ * Payment provider abstraction used by the payment service
+ */
+
+export interface CreateOrderRequest {
+  amount: number; // in the smallest currency unit
+  currency: string;
+  receipt: string;
+  description: string;
+  returnUrl: string; // where redirect-based checkouts send the user back to
+}
+
+export interface ProviderOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  checkoutUrl: string | null; // set when the user must be redirected to pay
+}
+
+export interface ProviderPayment {
+  id: string;
+  orderId: string;
+  status: 'pending' | 'captured' | 'failed' | 'refunded';
+  amount: number;
+  currency: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+}
+
+// What the browser reports back after checkout; redirect-based providers need only the order
+export interface CheckoutConfirmation {
+  paymentId?: string;
+  signature?: string;
+}
+
+// A provider webhook reduced to what the payment processor acts on
+export interface PaymentWebhookEvent {
+  id: string | null; // provider event ID, used to apply each delivery once
+  name: string; // provider's own event name, for logs
+  type: 'captured' | 'failed' | 'refunded' | 'ignored';
+  orderId: string | null;
+  paymentId: string | null; // identifies the order when the event does not carry it
+  payment: ProviderPayment | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  // Key the browser checkout needs, if the provider has one
+  readonly publicKey: string | null;
+
+  /**
+   * Create an order the user can pay for
+   * @param request Amount, currency and display details
+   * @returns The provider's order
+   */
+  createOrder(request: CreateOrderRequest): Promise<ProviderOrder>;
+
+  /**
+   * Check what the browser reported after checkout against the provider
+   * @param orderId Provider order ID
+   * @param confirmation Payment ID and signature from the checkout, where the provider uses them
+   * @returns The payment, or null if the checkout could not be confirmed as genuine
+   */
+  confirmCheckout(orderId: string, confirmation: CheckoutConfirmation): Promise<ProviderPayment | null>;
+
+  /**
+   * Get every payment attempt made against an order
+   * @param orderId Provider order ID
+   * @returns Payments for the order
+   */
+  fetchOrderPayments(orderId: string): Promise<ProviderPayment[]>;
+
+  /**
+   * Refund a captured payment
+   * @param paymentId Provider payment ID
+   * @param amount Amount to refund in the smallest currency unit
+   * @returns The refund
+   */
+  refund(paymentId: string, amount: number): Promise<ProviderRefund>;
+
+  /**
+   * Authenticate and parse a webhook delivery
+   * @param rawBody Request body exactly as received
+   * @param headers Request headers
+   * @returns The event, or null if the signature is missing or wrong
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+}
+
+/**
+ * Read a single header value
+ * @param headers Request headers
+ * @param name Lower-case header name
+ */
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Compare two hex signatures without leaking timing
+ * @param expected Signature we computed
+ * @param actual Signature we were sent
+ */
+function signaturesMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length
+    && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+interface RazorpayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+interface RazorpayPayment {
+  id: string;
+  order_id: string;
+  status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+  amount: number;
+  currency: string;
+}
+
+interface RazorpayRefund {
+  id: string;
+  payment_id: string;
+  amount: number;
+}
+
+interface RazorpayCollection<T> {
+  items?: T[];
+}
+
+interface RazorpayWebhookBody {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPayment };
+    order?: { entity: { id: string } };
+  };
+}
+
+/**
+ * Razorpay provider, used for payments in rupees
+ */
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = 'razorpay';
+
+  constructor(
+    private readonly keyId: string,
+    private readonly keySecret: string,
+    private readonly webhookSecret: string | null,
+    private readonly baseUrl: string = 'https://api.razorpay.com/v1',
+  ) {}
+
+  get publicKey(): string {
+    return this.keyId;
+  }
+
+  async createOrder({ amount, currency, receipt }: CreateOrderRequest): Promise<ProviderOrder> {
+    const order = await this.request<RazorpayOrder>('/orders', {
+      method: 'POST',
+      body: JSON.stringify({ amount, currency, receipt }),
+    });
+    return { id: order.id, amount: order.amount, currency: order.currency, checkoutUrl: null };
+  }
+
+  async confirmCheckout(orderId: string, { paymentId, signature }: CheckoutConfirmation): Promise<ProviderPayment | null> {
+    if (!paymentId || !signature) return null;
+
+    const expected = crypto
+      .createHmac('sha256', this.keySecret)
+      .update(`${orderId}|${paymentId}`)
+      .digest('hex');
+    if (!signaturesMatch(expected, signature)) return null;
+
+    // The signature only proves the checkout happened; the amount comes from Razorpay itself
+    const payment = await this.request<RazorpayPayment>(`/payments/${encodeURIComponent(paymentId)}`);
+    return this.toPayment(payment);
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    const data = await this.request<RazorpayCollection<RazorpayPayment>>(`/orders/${encodeURIComponent(orderId)}/payments`);
+    return (data.items ?? []).map(payment => this.toPayment(payment));
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+    const refund = await this.request<RazorpayRefund>(`/payments/${encodeURIComponent(paymentId)}/refund`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+    return { id: refund.id, paymentId: refund.payment_id, amount: refund.amount };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    // Unlike checkout signatures, webhooks are never trusted without a secret
+    if (!this.webhookSecret) {
+      console.warn('Rejecting Razorpay webhook because RAZORPAY_WEBHOOK_SECRET is not set');
+      return null;
+    }
+
+    const signature = headerValue(headers, 'x-razorpay-signature');
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+    if (!signature || !signaturesMatch(expected, signature)) return null;
+
+    const body: RazorpayWebhookBody = JSON.parse(rawBody.toString('utf8'));
+    const payment = body.payload.payment ? this.toPayment(body.payload.payment.entity) : null;
+    const event = {
+      id: headerValue(headers, 'x-razorpay-event-id') ?? null,
+      name: body.event,
+      orderId: body.payload.order?.entity.id ?? payment?.orderId ?? null,
+      paymentId: payment?.id ?? null,
+      payment,
+    };
+
+    switch (body.event) {
+      case 'payment.captured':
+      case 'order.paid':
+        return { ...event, type: 'captured' };
+      case 'payment.failed':
+        return { ...event, type: 'failed' };
+      case 'refund.processed':
+        // Partial refunds leave the payment captured
+        return { ...event, type: payment?.status === 'refunded' ? 'refunded' : 'ignored' };
+      default:
+        return { ...event, type: 'ignored' };
+    }
+  }
+
+  private toPayment(payment: RazorpayPayment): ProviderPayment {
+    const statuses: Record<RazorpayPayment['status'], ProviderPayment['status']> = {
+      created: 'pending',
+      authorized: 'pending',
+      captured: 'captured',
+      refunded: 'refunded',
+      failed: 'failed',
+    };
+    return {
+      id: payment.id,
+      orderId: payment.order_id,
+      status: statuses[payment.status],
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Basic ' + Buffer.from(`${this.keyId}:${this.keySecret}`).toString('base64'),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Razorpay API Error:', errorData);
+      throw new Error(`Razorpay request failed: ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  amount_total: number;
+  currency: string;
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  payment_intent: string | { id: string; status: string } | null;
+}
+
+interface StripeCharge {
+  amount: number;
+  amount_refunded: number;
+  payment_intent: string | null;
+}
+
+interface StripeRefund {
+  id: string;
+  amount: number;
+}
+
+// The object's shape depends on the event type, so it is checked before use
+interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: unknown };
+}
+
+/**
+ * Check that a webhook object is a Checkout Session with the fields we read
+ * @param value Object from the event
+ */
+function isStripeCheckoutSession(value: unknown): value is StripeCheckoutSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const session = value as Record<string, unknown>;
+  return session.object === 'checkout.session'
+    && typeof session.id === 'string'
+    && typeof session.amount_total === 'number'
+    && typeof session.currency === 'string';
+}
+
+/**
+ * Check that a webhook object is a Charge with the fields we read
+ * @param value Object from the event
+ */
+function isStripeCharge(value: unknown): value is StripeCharge {
+  if (typeof value !== 'object' || value === null) return false;
+  const charge = value as Record<string, unknown>;
+  return charge.object === 'charge'
+    && typeof charge.amount === 'number'
+    && typeof charge.amount_refunded === 'number'
+    && (typeof charge.payment_intent === 'string' || charge.payment_intent === null);
+}
+
+// Stripe rejects webhook signatures older than this, to stop replays
+const stripeSignatureToleranceSeconds = 5 * 60;
+
+/**
+ * Stripe provider using hosted Checkout, used for payments in other currencies
+ */
+export class StripeProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  readonly publicKey = null;
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly webhookSecret: string | null,
+    private readonly baseUrl: string = 'https://api.stripe.com/v1',
+  ) {}
+
+  async createOrder({ amount, currency, receipt, description, returnUrl }: CreateOrderRequest): Promise<ProviderOrder> {
+    const session = await this.request<StripeCheckoutSession>('/checkout/sessions', {
+      'mode': 'payment',
+      'client_reference_id': receipt,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(amount),
+      'line_items[0][price_data][product_data][name]': description,
+      // Stripe fills in the session ID, which the dashboard confirms on return
+      'success_url': `${returnUrl}?payment=success&order_id={CHECKOUT_SESSION_ID}`,
+      'cancel_url': `${returnUrl}?payment=cancelled`,
+    });
+
+    return {
+      id: session.id,
+      amount: session.amount_total,
+      currency: session.currency.toUpperCase(),
+      checkoutUrl: session.url,
+    };
+  }
+
+  async confirmCheckout(orderId: string): Promise<ProviderPayment | null> {
+    // Nothing from the browser is trusted; the session is read back from Stripe
+    const [payment] = await this.fetchOrderPayments(orderId);
+    return payment ?? null;
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    const session = await this.request<StripeCheckoutSession>(
+      `/checkout/sessions/${encodeURIComponent(orderId)}?expand[]=payment_intent`
+    );
+    const payment = this.toPayment(session);
+    return payment ? [payment] : [];
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+    const refund = await this.request<StripeRefund>('/refunds', {
+      'payment_intent': paymentId,
+      'amount': String(amount),
+    });
+    return { id: refund.id, paymentId, amount: refund.amount };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    if (!this.webhookSecret) {
+      console.warn('Rejecting Stripe webhook because STRIPE_WEBHOOK_SECRET is not set');
+      return null;
+    }
+
+    // Header looks like t=1700000000,v1=abc...,v1=def...
+    const parts = (headerValue(headers, 'stripe-signature') ?? '').split(',').map(part => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+    if (!timestamp || signatures.length === 0) return null;
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > stripeSignatureToleranceSeconds) return null;
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${rawBody.toString('utf8')}`)
+      .digest('hex');
+    if (!signatures.some(signature => signaturesMatch(expected, signature))) return null;
+
+    const body: StripeEvent = JSON.parse(rawBody.toString('utf8'));
+    const object = body.data.object;
+    const event = { id: body.id, name: body.type, orderId: null, paymentId: null, payment: null };
+
+    switch (body.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        if (!isStripeCheckoutSession(object)) break;
+        const payment = this.toPayment(object);
+        // Delayed payment methods complete the session before the money arrives
+        return payment?.status === 'captured'
+          ? { ...event, type: 'captured', orderId: object.id, paymentId: payment.id, payment }
+          : { ...event, type: 'ignored', orderId: object.id };
+      }
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        if (!isStripeCheckoutSession(object)) break;
+        return { ...event, type: 'failed', orderId: object.id };
+      case 'charge.refunded':
+        if (!isStripeCharge(object)) break;
+        // Partial refunds leave the payment in place
+        if (object.amount_refunded < object.amount) return { ...event, type: 'ignored' };
+        return { ...event, type: 'refunded', paymentId: object.payment_intent };
+      default:
+        return { ...event, type: 'ignored' };
+    }
+
+    console.warn(`Ignoring Stripe ${body.type} webhook ${body.id} with an unexpected object`);
+    return { ...event, type: 'ignored' };
+  }
+
+  private toPayment(session: StripeCheckoutSession): ProviderPayment | null {
+    if (!session.payment_intent) return null;
+
+    const intent = session.payment_intent;
+    const intentStatus = typeof intent === 'string' ? null : intent.status;
+    return {
+      id: typeof intent === 'string' ? intent : intent.id,
+      orderId: session.id,
+      status: session.payment_status === 'paid'
+        ? 'captured'
+        : intentStatus === 'canceled' ? 'failed' : 'pending',
+      amount: session.amount_total,
+      currency: session.currency.toUpperCase(),
+    };
+  }
+
+  private async request<T>(path: string, form?: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: form ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Bearer ${this.secretKey}`,
+      },
+      body: form ? new URLSearchParams(form).toString() : undefined,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Stripe API Error:', errorData);
+      throw new Error(`Stripe request failed: ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * In-memory provider for development and tests; every checkout succeeds
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly publicKey = null;
+
+  private orders = new Map<string, ProviderOrder>();
+  private payments = new Map<string, ProviderPayment>();
+
+  async createOrder({ amount, currency }: CreateOrderRequest): Promise<ProviderOrder> {
+    const order: ProviderOrder = {
+      id: `fake_order_${crypto.randomBytes(8).toString('hex')}`,
+      amount,
+      currency,
+      checkoutUrl: null,
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  async confirmCheckout(orderId: string): Promise<ProviderPayment | null> {
+    const order = this.orders.get(orderId);
+    if (!order) return null;
+
+    let payment = this.payments.get(orderId);
+    if (!payment) {
+      payment = {
+        id: `fake_pay_${crypto.randomBytes(8).toString('hex')}`,
+        orderId,
+        status: 'captured',
+        amount: order.amount,
+        currency: order.currency,
+      };
+      this.payments.set(orderId, payment);
+    }
+    return payment;
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+    const payment = this.payments.get(orderId);
+    return payment ? [payment] : [];
+  }
+
+  async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+    for (const [orderId, payment] of Array.from(this.payments.entries())) {
+      if (payment.id === paymentId) {
+        this.payments.set(orderId, { ...payment, status: 'refunded' });
+      }
+    }
+    return { id: `fake_rfnd_${crypto.randomBytes(8).toString('hex')}`, paymentId, amount };
+  }
+
+  parseWebhook(): PaymentWebhookEvent | null {
+    // Nothing calls back into the fake provider
+    return null;
+  }
+}
+
+/**
+ * Create the providers configured for this environment
+ *
+ * PAYMENT_PROVIDER=fake routes every payment through the fake provider and is
+ * refused in production. Otherwise Razorpay is set up when RAZORPAY_KEY_ID and
+ * RAZORPAY_KEY_SECRET are set, and Stripe when STRIPE_SECRET_KEY is set.
+ * @param env Environment to read the configuration from
+ * @returns Configured providers, keyed by name
+ */
+export function createPaymentProviders(env: NodeJS.ProcessEnv = process.env): Map<string, PaymentProvider> {
+  const providers = new Map<string, PaymentProvider>();
+
+  if (env.PAYMENT_PROVIDER === 'fake') {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('The fake payment provider cannot be used in production');
+    }
+    console.log('Using fake payment provider');
+    providers.set('fake', new FakePaymentProvider());
+    return providers;
+  }
+
+  if (env.PAYMENT_PROVIDER) {
+    throw new Error(`Unknown payment provider: ${env.PAYMENT_PROVIDER}`);
+  }
+
+  if (env.RAZORPAY_KEY_ID && env.RAZORPAY_KEY_SECRET) {
+    providers.set('razorpay', new RazorpayProvider(
+      env.RAZORPAY_KEY_ID,
+      env.RAZORPAY_KEY_SECRET,
+      env.RAZORPAY_WEBHOOK_SECRET || null,
+      // Overridable so a local stand-in can play the part of Razorpay
+      env.RAZORPAY_API_URL || undefined,
+    ));
+  }
+
+  if (env.STRIPE_SECRET_KEY) {
+    providers.set('stripe', new StripeProvider(
+      env.STRIPE_SECRET_KEY,
+      env.STRIPE_WEBHOOK_SECRET || null,
+      env.STRIPE_API_URL || undefined,
+    ));
+  }
+
+  if (providers.size === 0) {
+    console.warn('No payment provider is configured; purchases are disabled');
+  }
+  return providers;
+}
@@ -1,6 +1,7 @@
 import PDFDocument from 'pdfkit';
 import { v4 as uuidv4 } from 'uuid';
 import { supabaseService } from './supabase';
+import type { Invoice } from '@shared/schema';
 
 interface PdfOptions {
   userId: number;
@@ -9,6 +10,29 @@ interface PdfOptions {
   fileUrl?: string;
 }
 
+export interface InvoiceSeller {
+  name: string;
+  address: string | null;
+  gstin: string | null;
+}
+
+interface InvoicePdfOptions {
+  invoice: Invoice;
+  seller: InvoiceSeller;
+  gstRatePercent: number;
+}
+
+// Online information and database access or retrieval services
+const serviceAccountingCode = '998431';
+
+/**
+ * Format an amount for the PDF; the built-in fonts have no rupee sign
+ * @param amount Amount in the smallest currency unit
+ * @param currency Currency code
+ */
+const formatAmount = (amount: number, currency: string): string =>
+  `${currency} ${(amount / 100).toFixed(2)}`;
+
 class PdfGenerator {
   /**
    * Generate a PDF from the solution
@@ -17,91 +41,199 @@ class PdfGenerator {
    */
   async generatePDF(options: PdfOptions): Promise<string> {
     try {
-      const { userId, question, solution, fileUrl } = options;
+      const { userId, question, solution } = options;
+      
+      const pdfBuffer = await this.renderSolutionPDF({ question, solution });
+      
+      // Generate file name and path
+      const fileName = `solution_${uuidv4()}.pdf`;
+      const filePath = `solutions/${userId}/${fileName}`;
+      
+      // Upload PDF to storage
+      const pdfUrl = await supabaseService.uploadFile(pdfBuffer, 'solutions', filePath);
       
-      // Create a buffer to store the PDF
-      const pdfBuffer: Buffer = await new Promise((resolve, reject) => {
+      return pdfUrl;
+    } catch (error) {
+      console.error('PDF generation error:', error);
+      throw new Error('Failed to generate PDF');
+    }
+  }
+
+  /**
+   * Render a solution as a PDF without storing it
+   * @param options Question and solution to print
+   * @returns PDF file contents
+   */
+  renderSolutionPDF(options: Pick<PdfOptions, 'question' | 'solution'>): Promise<Buffer> {
+    const { question, solution } = options;
+    
+    return new Promise((resolve, reject) => {
+      try {
+        // Create a new PDF document
+        const doc = new PDFDocument({
+          margins: { top: 50, bottom: 50, left: 50, right: 50 },
+          size: 'A4',
+        });
+        
+        const buffers: Buffer[] = [];
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => {
+          const pdfData = Buffer.concat(buffers);
+          resolve(pdfData);
+        });
+        
+        // Add header with logo
+        doc.fontSize(24)
+          .fillColor('#238F51')
+          .text('SOLVEM8', { align: 'center' })
+          .fontSize(14)
+          .fillColor('#666')
+          .text('Your AI-Powered Assignment Buddy', { align: 'center' })
+          .moveDown(1);
+        
+        // Add separator line
+        doc.moveTo(50, doc.y)
+          .lineTo(doc.page.width - 50, doc.y)
+          .stroke('#DDD')
+          .moveDown(1);
+        
+        // Add question section
+        doc.fontSize(16)
+          .fillColor('#333')
+          .text('Question:', { continued: true })
+          .fontSize(12)
+          .fillColor('#555')
+          .text(' ' + question)
+          .moveDown(1);
+        
+        // Add solution section
+        doc.fontSize(16)
+          .fillColor('#238F51')
+          .text('Solution:')
+          .fontSize(12)
+          .fillColor('#333');
+        
+        // Format solution text with proper paragraphs and spacing
+        const solutionLines = solution.split('\n');
+        for (const line of solutionLines) {
+          doc.text(line.trim());
+          if (line.trim() === '') {
+            doc.moveDown(0.5);
+          }
+        }
+        
+        // Add footer
+        const footerY = doc.page.height - 50;
+        doc.fontSize(10)
+          .fillColor('#999')
+          .text('Generated by SOLVEM8 - ' + new Date().toLocaleString(), 50, footerY, {
+            align: 'center',
+            width: doc.page.width - 100,
+          });
+        
+        // Finalize the PDF
+        doc.end();
+      } catch (err) {
+        reject(err);
+      }
+    });
+  }
+
+  /**
+   * Generate a tax invoice PDF
+   * @param options Invoice and seller details
+   * @returns PDF file contents
+   */
+  async generateInvoicePDF(options: InvoicePdfOptions): Promise<Buffer> {
+    const { invoice, seller, gstRatePercent } = options;
+    const taxed = invoice.cgst + invoice.sgst + invoice.igst > 0;
+
+    try {
+      return await new Promise<Buffer>((resolve, reject) => {
         try {
-          // Create a new PDF document
           const doc = new PDFDocument({
             margins: { top: 50, bottom: 50, left: 50, right: 50 },
             size: 'A4',
           });
-          
+
           const buffers: Buffer[] = [];
           doc.on('data', buffers.push.bind(buffers));
-          doc.on('end', () => {
-            const pdfData = Buffer.concat(buffers);
-            resolve(pdfData);
-          });
-          
-          // Add header with logo
+          doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+          const left = 50;
+          const width = doc.page.width - 100;
+
+          // Header
           doc.fontSize(24)
             .fillColor('#238F51')
             .text('SOLVEM8', { align: 'center' })
             .fontSize(14)
-            .fillColor('#666')
-            .text('Your AI-Powered Assignment Buddy', { align: 'center' })
+            .fillColor('#333')
+            .text(taxed ? 'Tax Invoice' : 'Invoice', { align: 'center' })
             .moveDown(1);
-          
-          // Add separator line
-          doc.moveTo(50, doc.y)
-            .lineTo(doc.page.width - 50, doc.y)
+
+          doc.moveTo(left, doc.y)
+            .lineTo(left + width, doc.y)
             .stroke('#DDD')
             .moveDown(1);
-          
-          // Add question section
-          doc.fontSize(16)
-            .fillColor('#333')
-            .text('Question:', { continued: true })
-            .fontSize(12)
-            .fillColor('#555')
-            .text(' ' + question)
-            .moveDown(1);
-          
-          // Add solution section
-          doc.fontSize(16)
-            .fillColor('#238F51')
-            .text('Solution:')
-            .fontSize(12)
-            .fillColor('#333');
-          
-          // Format solution text with proper paragraphs and spacing
-          const solutionLines = solution.split('\n');
-          for (const line of solutionLines) {
-            doc.text(line.trim());
-            if (line.trim() === '') {
-              doc.moveDown(0.5);
-            }
-          }
-          
-          // Add footer
-          const footerY = doc.page.height - 50;
-          doc.fontSize(10)
+
+          // Seller and invoice details
+          doc.fontSize(11).fillColor('#333').text(seller.name);
+          doc.fontSize(10).fillColor('#555');
+          if (seller.address) doc.text(seller.address);
+          if (invoice.sellerGstin) doc.text(`GSTIN: ${invoice.sellerGstin}`);
+          doc.moveDown(0.5)
+            .text(`Invoice number: ${invoice.invoiceNumber}`)
+            .text(`Invoice date: ${invoice.issuedAt.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`);
+          if (invoice.placeOfSupply) doc.text(`Place of supply: state code ${invoice.placeOfSupply}`);
+          doc.moveDown(1);
+
+          // Buyer details
+          doc.fontSize(11).fillColor('#333').text('Bill to');
+          doc.fontSize(10).fillColor('#555').text(invoice.billingName);
+          if (invoice.billingAddress) doc.text(invoice.billingAddress);
+          if (invoice.gstin) doc.text(`GSTIN: ${invoice.gstin}`);
+          doc.moveDown(1.5);
+
+          // Line items, one label and amount per row
+          const row = (label: string, amount: number, bold: boolean = false) => {
+            const y = doc.y;
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+              .text(label, left, y, { width: width - 150 })
+              .text(formatAmount(amount, invoice.currency), left + width - 150, y, { width: 150, align: 'right' })
+              .moveDown(0.5);
+          };
+
+          doc.fontSize(10).fillColor('#333');
+          row(`${invoice.description} (SAC ${serviceAccountingCode})`, invoice.taxableAmount);
+          if (invoice.cgst) row(`CGST @ ${gstRatePercent / 2}%`, invoice.cgst);
+          if (invoice.sgst) row(`SGST @ ${gstRatePercent / 2}%`, invoice.sgst);
+          if (invoice.igst) row(`IGST @ ${gstRatePercent}%`, invoice.igst);
+
+          doc.moveTo(left, doc.y)
+            .lineTo(left + width, doc.y)
+            .stroke('#DDD')
+            .moveDown(0.5);
+          row('Total paid', invoice.total, true);
+
+          // Footer, kept inside the bottom margin so it doesn't start a new page
+          const footerY = doc.page.height - 65;
+          doc.font('Helvetica')
+            .fontSize(10)
             .fillColor('#999')
-            .text('Generated by SOLVEM8 - ' + new Date().toLocaleString(), 50, footerY, {
+            .text('This is a computer generated invoice and needs no signature.', left, footerY, {
               align: 'center',
-              width: doc.page.width - 100,
+              width,
             });
-          
-          // Finalize the PDF
+
           doc.end();
         } catch (err) {
           reject(err);
         }
       });
-      
-      // Generate file name and path
-      const fileName = `solution_${uuidv4()}.pdf`;
-      const filePath = `solutions/${userId}/${fileName}`;
-      
-      // Upload PDF to storage
-      const pdfUrl = await supabaseService.uploadFile(pdfBuffer, 'solutions', filePath);
-      
-      return pdfUrl;
     } catch (error) {
-      console.error('PDF generation error:', error);
-      throw new Error('Failed to generate PDF');
+      console.error('Invoice PDF generation error:', error);
+      throw new Error('Failed to generate invoice');
     }
   }
 }
@@ -0,0 +1,82 @@
+import { storage } from '../storage';
+import type { InsertPlan, Plan } from '@shared/schema';
+
+// Created the first time the catalogue is read, so a fresh install has something to sell
+const defaultPlans: InsertPlan[] = [
+  {
+    code: 'monthly',
+    name: 'Monthly Subscription',
+    description: 'Unlimited attempts for a full month',
+    prices: { INR: 19900 },
+    durationDays: 30,
+    features: ['Unlimited attempts', 'Refine solutions as often as you like', 'PDF downloads'],
+    sortOrder: 10,
+  },
+  {
+    code: 'pack',
+    name: '20 Attempts Pack',
+    description: 'One-time purchase, no renewal',
+    prices: { INR: 29900 },
+    credits: 20,
+    features: ['20 attempts that never expire', 'PDF downloads'],
+    sortOrder: 20,
+  },
+];
+
+class PlanService {
+  private seeding: Promise<void> | null = null;
+
+  /**
+   * List the plans in display order
+   * @param includeInactive Also return plans that are no longer on sale
+   * @returns Plans
+   */
+  async list(includeInactive: boolean = false): Promise<Plan[]> {
+    await this.ensureSeeded();
+    const allPlans = await storage.getPlans();
+    return includeInactive ? allPlans : allPlans.filter(plan => plan.active);
+  }
+
+  /**
+   * Get a plan by its code, whether or not it is still on sale
+   * @param code Plan code, e.g. 'monthly'
+   * @returns The plan, if it exists
+   */
+  async get(code: string): Promise<Plan | undefined> {
+    await this.ensureSeeded();
+    return storage.getPlanByCode(code);
+  }
+
+  /**
+   * Get the price of a plan in a currency
+   * @param plan Plan to price
+   * @param currency Currency code, e.g. 'INR'
+   * @returns Price in the smallest currency unit, or undefined if the plan is not sold in that currency
+   */
+  priceFor(plan: Plan, currency: string): number | undefined {
+    return plan.prices[currency.toUpperCase()];
+  }
+
+  /**
+   * Create the default plans if the catalogue is empty
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = (async () => {
+        const existing = await storage.getPlans();
+        if (existing.length > 0) return;
+
+        for (const plan of defaultPlans) {
+          await storage.createPlan(plan);
+        }
+      })().catch(error => {
+        // Try again on the next read
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+}
+
+export const planService = new PlanService();
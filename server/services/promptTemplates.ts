@@ -0,0 +1,190 @@
+import type { AnswerStyle, Subject } from '@shared/schema';
+
+/**
+ * Registry of subject-aware prompt templates
+ */
+
+export interface PromptTemplate {
+  id: string;
+  subject: Subject;
+  name: string;
+  persona: string;
+  guidance: string;
+  body?: string;
+}
+
+export type TemplateVariables = Record<string, string>;
+
+// Shared layout used by templates that don't provide their own body
+const defaultBody = `You are {{persona}} helping a student with their assignment.
+{{guidance}}
+
+{{styleInstructions}}
+
+Assignment: {{assignment}}`;
+
+// What each answer style asks of the AI
+export const answerStyleInstructions: Record<AnswerStyle, string> = {
+  'hints': 'Do NOT give the final answer. Give a short list of progressive hints that guide the student towards solving it themselves.',
+  'step-by-step': 'Solve the problem step by step, showing clear explanations for each step, so the student understands the concepts involved.',
+  'final-answer': 'Give the final answer directly with at most a one-line justification. Do not include a full working.',
+  'exam': 'Write the answer as a model exam answer: concise, well-structured, with the working and key points an examiner would award marks for.',
+};
+
+// Keywords used to guess the subject of an assignment
+const subjectKeywords: Partial<Record<Subject, RegExp[]>> = {
+  math: [/\b(equation|integral|derivative|differentiate|integrate|matrix|theorem|prove|polynomial|algebra|calculus|trigonometry|probability|logarithm)\b/gi, /\\(frac|int|sum|sqrt|lim)\b/g, /\b[a-z]\^\d/gi],
+  physics: [/\b(velocity|acceleration|force|momentum|newton|joule|watt|voltage|current|resistance|magnetic|wavelength|frequency|friction|gravity|kinetic|potential energy)\b/gi, /\bm\/s\b/g],
+  chemistry: [/\b(molecule|mole|molar|reaction|compound|element|acid|base|ph|oxidation|reduction|covalent|ionic|stoichiometry|titration|organic)\b/gi, /\b[A-Z][a-z]?\d*(?:\s*\+\s*[A-Z][a-z]?\d*)+\s*(?:→|->)/g],
+  biology: [/\b(cell|dna|rna|protein|enzyme|photosynthesis|mitosis|meiosis|organism|evolution|gene|chromosome|ecosystem|species)\b/gi],
+  programming: [/\b(function|algorithm|array|loop|variable|class|compile|python|java|javascript|typescript|c\+\+|recursion|complexity|pointer|sql)\b/gi, /[{};]\s*$/gm, /\bdef |\bint main\b|console\.log|System\.out/g],
+  essay: [/\b(essay|discuss|critically|evaluate|argue|analyse|analyze|compare and contrast|to what extent|words?)\b/gi],
+  accounting: [/\b(debit|credit|ledger|balance sheet|journal entry|depreciation|assets?|liabilit(?:y|ies)|equity|trial balance|cash flow|revenue|accrual)\b/gi],
+};
+
+class PromptTemplateRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  /**
+   * Add or replace a template
+   * @param template Template to register
+   */
+  register(template: PromptTemplate): void {
+    this.templates.set(template.id, template);
+  }
+
+  /**
+   * Get a template by ID
+   * @param id Template ID
+   * @returns The template, if registered
+   */
+  get(id: string): PromptTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * Get the template for a subject, falling back to the general template
+   * @param subject Subject of the assignment
+   * @returns The best matching template
+   */
+  forSubject(subject: Subject): PromptTemplate {
+    const template = Array.from(this.templates.values()).find(t => t.subject === subject)
+      || this.templates.get('general');
+
+    if (!template) {
+      throw new Error('No general prompt template registered');
+    }
+    return template;
+  }
+
+  /**
+   * List every registered template
+   * @returns All templates
+   */
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Render a template with its variables
+   * @param template Template to render
+   * @param variables Values for the {{placeholders}} in the template
+   * @returns The finished prompt
+   */
+  render(template: PromptTemplate, variables: TemplateVariables): string {
+    const values: TemplateVariables = {
+      persona: template.persona,
+      guidance: template.guidance,
+      ...variables,
+    };
+
+    return (template.body || defaultBody).replace(/\{\{(\w+)\}\}/g, (match, name) => values[name] ?? match);
+  }
+
+  /**
+   * Guess the subject of an assignment from its text
+   * @param text Assignment text
+   * @returns The subject with the most keyword matches, or 'general'
+   */
+  detectSubject(text: string): Subject {
+    let bestSubject: Subject = 'general';
+    let bestScore = 0;
+
+    for (const [subject, patterns] of Object.entries(subjectKeywords) as [Subject, RegExp[]][]) {
+      const score = patterns.reduce((total, pattern) => total + (text.match(pattern)?.length ?? 0), 0);
+      if (score > bestScore) {
+        bestSubject = subject;
+        bestScore = score;
+      }
+    }
+
+    return bestSubject;
+  }
+}
+
+export const promptTemplates = new PromptTemplateRegistry();
+
+// Built-in templates
+promptTemplates.register({
+  id: 'general',
+  subject: 'general',
+  name: 'General Tutor',
+  persona: 'an expert tutor',
+  guidance: 'Explain the concepts involved in plain language.',
+});
+
+promptTemplates.register({
+  id: 'math',
+  subject: 'math',
+  name: 'Mathematics',
+  persona: 'an experienced mathematics tutor',
+  guidance: 'State any formulas or theorems you use, show all algebraic manipulation, and write mathematics in LaTeX using $...$ for inline and $$...$$ for display equations. Check the result where possible.',
+});
+
+promptTemplates.register({
+  id: 'physics',
+  subject: 'physics',
+  name: 'Physics',
+  persona: 'an experienced physics tutor',
+  guidance: 'List the known quantities with units, name the physical principles that apply, keep units through every calculation, and write equations in LaTeX using $...$.',
+});
+
+promptTemplates.register({
+  id: 'chemistry',
+  subject: 'chemistry',
+  name: 'Chemistry',
+  persona: 'an experienced chemistry tutor',
+  guidance: 'Write balanced chemical equations with states where relevant, show mole and concentration calculations with units, and mention safety or real-world context when it helps understanding.',
+});
+
+promptTemplates.register({
+  id: 'biology',
+  subject: 'biology',
+  name: 'Biology',
+  persona: 'an experienced biology tutor',
+  guidance: 'Use correct biological terminology, describe processes in the order they happen, and relate structures to their functions.',
+});
+
+promptTemplates.register({
+  id: 'programming',
+  subject: 'programming',
+  name: 'Programming',
+  persona: 'a senior software engineer and programming instructor',
+  guidance: 'Explain the approach before the code, put all code in fenced code blocks with the language named, comment non-obvious lines, and state the time and space complexity.',
+});
+
+promptTemplates.register({
+  id: 'essay',
+  subject: 'essay',
+  name: 'Essay Writing',
+  persona: 'an experienced writing tutor',
+  guidance: 'Help the student build a clear thesis, a logical paragraph structure and well-supported arguments. Respect any word limit given in the assignment.',
+});
+
+promptTemplates.register({
+  id: 'accounting',
+  subject: 'accounting',
+  name: 'Accounting',
+  persona: 'a chartered accountant and accounting tutor',
+  guidance: 'Present journal entries, ledgers and statements as markdown tables, show every calculation, and name the accounting principle or standard that applies.',
+});
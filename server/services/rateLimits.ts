@@ -0,0 +1,146 @@
+import { storage } from '../storage';
+import { planService } from './plans';
+import { subscriptionService } from './subscriptions';
+import type { User } from '@shared/schema';
+
+/**
+ * Outcome of counting a request against a bucket
+ */
+export type RateLimitResult =
+  | { allowed: true; limit: number; remaining: number; resetAt: Date }
+  | { allowed: false; limit: number; retryAfter: number }; // seconds until the bucket refills
+
+// Failed logins tolerated before an account is locked
+const freeLoginFailures = 5;
+const loginFailureWindowMs = 24 * 60 * 60 * 1000;
+// The first lockout lasts a minute and doubles with each further failure, up to an hour
+const baseLockoutMs = 60 * 1000;
+const maxLockoutMs = 60 * 60 * 1000;
+
+// AI requests per hour when the plan does not set its own quota
+const freeHourlyAiQuota = 10;
+const defaultSubscriberHourlyAiQuota = 60;
+const aiQuotaWindowMs = 60 * 60 * 1000;
+
+const pruneIntervalMs = 60 * 60 * 1000;
+
+const secondsUntil = (time: Date): number => Math.max(1, Math.ceil((time.getTime() - Date.now()) / 1000));
+
+class RateLimitService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Count a request against a bucket
+   * @param key Bucket name, including what it is keyed by, e.g. 'signup:ip:203.0.113.7'
+   * @param limit Requests allowed per window
+   * @param windowMs Window length
+   * @returns Whether the request may go ahead
+   */
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const counter = await storage.incrementRateLimit(key, windowMs);
+    if (counter.count > limit) {
+      return { allowed: false, limit, retryAfter: secondsUntil(counter.resetAt) };
+    }
+    return { allowed: true, limit, remaining: limit - counter.count, resetAt: counter.resetAt };
+  }
+
+  /**
+   * Check whether an account is locked after too many failed logins
+   * @param email Email being logged in to
+   * @returns Seconds until the lock lifts, or 0 if the account is not locked
+   */
+  async loginLockedFor(email: string): Promise<number> {
+    const lock = await storage.getRateLimit(`login-lock:${email.toLowerCase()}`);
+    if (!lock || lock.resetAt.getTime() <= Date.now()) return 0;
+    return secondsUntil(lock.resetAt);
+  }
+
+  /**
+   * Count a failed login, locking the account once there have been too many
+   * @param email Email that was tried
+   * @returns Seconds the account is now locked for, or 0
+   */
+  async recordLoginFailure(email: string): Promise<number> {
+    const normalized = email.toLowerCase();
+    const failures = await storage.incrementRateLimit(`login-failures:${normalized}`, loginFailureWindowMs);
+    if (failures.count < freeLoginFailures) return 0;
+
+    const lockoutMs = Math.min(maxLockoutMs, baseLockoutMs * 2 ** (failures.count - freeLoginFailures));
+    await storage.setRateLimit(`login-lock:${normalized}`, failures.count, new Date(Date.now() + lockoutMs));
+    return Math.ceil(lockoutMs / 1000);
+  }
+
+  /**
+   * Forget failed logins once the right password is given
+   * @param email Email that logged in
+   */
+  async recordLoginSuccess(email: string): Promise<void> {
+    const normalized = email.toLowerCase();
+    await storage.clearRateLimit(`login-failures:${normalized}`);
+    await storage.clearRateLimit(`login-lock:${normalized}`);
+  }
+
+  /**
+   * Count an AI request against the user's hourly quota
+   * @param user User making the request
+   * @returns Whether the request may go ahead
+   */
+  async hitAiQuota(user: User): Promise<RateLimitResult> {
+    const quota = await this.hourlyAiQuota(user);
+    return this.hit(`ai:user:${user.id}`, quota, aiQuotaWindowMs);
+  }
+
+  /**
+   * Work out how many AI requests per hour a user's plan allows
+   * @param user User
+   * @returns Requests per hour
+   */
+  async hourlyAiQuota(user: User): Promise<number> {
+    if (!subscriptionService.isActive(user)) {
+      return freeHourlyAiQuota;
+    }
+
+    // The most recent subscription the user paid for decides their quota
+    const payments = await storage.getUserPayments(user.id);
+    const completed = payments
+      .filter(payment => payment.status === 'completed')
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    for (const payment of completed) {
+      const plan = await planService.get(payment.planType);
+      if (plan?.durationDays) {
+        return plan.hourlyAiQuota ?? defaultSubscriberHourlyAiQuota;
+      }
+    }
+    return defaultSubscriberHourlyAiQuota;
+  }
+
+  /**
+   * Start deleting counters whose window has ended
+   * @param intervalMs Time between sweeps
+   */
+  start(intervalMs: number = pruneIntervalMs): void {
+    if (this.timer) return;
+
+    const sweep = () => {
+      storage.deleteExpiredRateLimits(new Date()).catch(error => {
+        console.error('Rate limit prune error:', error);
+      });
+    };
+
+    this.timer = setInterval(sweep, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import type { User } from '@shared/schema';
+
+export interface ReferralSummary {
+  code: string;
+  referred: number;
+  rewarded: number;
+  bonusAttempts: number;
+}
+
+// Attempts given to both the referrer and the referee
+const referralBonusAttempts = 5;
+
+// Letters and digits that can't be mistaken for each other when read aloud
+const codeAlphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const codeLength = 8;
+
+class ReferralService {
+  /**
+   * Create a new random referral code
+   * @returns Referral code
+   */
+  generateCode(): string {
+    const bytes = crypto.randomBytes(codeLength);
+    return Array.from(bytes, byte => codeAlphabet[byte % codeAlphabet.length]).join('');
+  }
+
+  /**
+   * Get a user's referral code, creating one for accounts made before referrals existed
+   * @param user User
+   * @returns Referral code
+   */
+  async codeFor(user: User): Promise<string> {
+    if (user.referralCode) return user.referralCode;
+
+    const referralCode = this.generateCode();
+    await storage.updateUser(user.id, { referralCode });
+    return referralCode;
+  }
+
+  /**
+   * Find the user a referral code belongs to
+   * @param code Referral code as typed by the user
+   * @returns The referrer, if the code exists
+   */
+  async findReferrer(code: string): Promise<User | undefined> {
+    return storage.getUserByReferralCode(code.trim().toUpperCase());
+  }
+
+  /**
+   * Remember who invited a new user
+   * @param referrer User who shared the code
+   * @param referee Newly registered user
+   */
+  async recordSignup(referrer: User, referee: User): Promise<void> {
+    if (referrer.id === referee.id) return;
+
+    await storage.createReferral({
+      referrerId: referrer.id,
+      refereeId: referee.id
+    });
+  }
+
+  /**
+   * Reward both sides of a referral once the referee has paid; later payments, and retries, do nothing
+   * @param refereeId User who just completed a payment
+   */
+  async rewardFirstPayment(refereeId: number): Promise<void> {
+    // The claim and both bonuses are stored together, so a failure leaves the referral to be rewarded again
+    await storage.markReferralRewarded(refereeId, referral => {
+      const reference = `referral:${referral.id}`;
+      return [
+        {
+          userId: referral.referrerId,
+          type: 'referral_bonus',
+          amount: referralBonusAttempts,
+          reference,
+          description: 'A friend you invited made their first purchase'
+        },
+        {
+          userId: referral.refereeId,
+          type: 'referral_bonus',
+          amount: referralBonusAttempts,
+          reference,
+          description: 'Bonus for joining with a referral code'
+        }
+      ];
+    });
+  }
+
+  /**
+   * Summarise a user's referrals
+   * @param user User
+   * @returns Their code and how many invites have paid off
+   */
+  async summary(user: User): Promise<ReferralSummary> {
+    const code = await this.codeFor(user);
+    const referrals = await storage.getReferralsByReferrer(user.id);
+    const rewarded = referrals.filter(referral => referral.status === 'rewarded').length;
+
+    return {
+      code,
+      referred: referrals.length,
+      rewarded,
+      bonusAttempts: rewarded * referralBonusAttempts
+    };
+  }
+}
+
+export const referralService = new ReferralService();
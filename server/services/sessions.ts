@@ -0,0 +1,200 @@
+import type { Request } from 'express';
+import session from 'express-session';
+import MemoryStore from 'memorystore';
+import connectPgSimple from 'connect-pg-simple';
+import { storage } from '../storage';
+import type { User, UserSession } from '@shared/schema';
+
+// How long a session lasts without activity
+export const sessionMaxAgeMs = 24 * 60 * 60 * 1000;
+
+// Write last-seen times at most this often, rather than on every request
+const touchIntervalMs = 5 * 60 * 1000;
+
+const developmentSecret = 'dev-secret-solvem8';
+
+/**
+ * A signed-in device as shown to its owner
+ */
+export interface DeviceSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+/**
+ * Read the secret that signs session cookies
+ *
+ * Production refuses to start without SESSION_SECRET, so cookies can never be
+ * signed with the development secret that is public in this repository.
+ * @param env Environment to read the configuration from
+ * @returns The session secret
+ */
+export function sessionSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.SESSION_SECRET;
+  if (env.NODE_ENV === 'production' && (!secret || secret === developmentSecret)) {
+    throw new Error('SESSION_SECRET must be set to a private value in production');
+  }
+  return secret || developmentSecret;
+}
+
+/**
+ * Create the store sessions are kept in
+ *
+ * Sessions live in Postgres when DATABASE_URL is configured, so they survive
+ * restarts and deploys, and in memory otherwise.
+ * @param env Environment to read the configuration from
+ * @returns The session store
+ */
+export function createSessionStore(env: NodeJS.ProcessEnv = process.env): session.Store {
+  if (env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: env.DATABASE_URL,
+      tableName: 'session', // created by db:push from the shared schema
+      pruneSessionInterval: 15 * 60, // seconds
+    });
+  }
+
+  const MemorySessionStore = MemoryStore(session);
+  return new MemorySessionStore({
+    checkPeriod: sessionMaxAgeMs, // Clear expired sessions every 24h
+  });
+}
+
+class SessionService {
+  constructor(readonly store: session.Store = createSessionStore()) {}
+
+  /**
+   * Sign a user in on this request's device
+   *
+   * The session ID is replaced first, so an ID planted before login cannot be
+   * used to ride on the signed-in session.
+   * @param req Request being signed in
+   * @param user User who proved who they are
+   */
+  async start(req: Request, user: User): Promise<void> {
+    const previousId = req.session.userId ? req.sessionID : undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      req.session.regenerate(error => error ? reject(error) : resolve());
+    });
+    if (previousId) {
+      await storage.deleteUserSession(previousId);
+    }
+
+    req.session.userId = user.id;
+    req.session.seenAt = Date.now();
+    req.session.signedInAt = req.session.seenAt;
+    await storage.createUserSession({
+      userId: user.id,
+      sessionId: req.sessionID,
+      userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+      ipAddress: req.ip ?? null,
+    });
+  }
+
+  /**
+   * Record that the signed-in device is still in use
+   * @param req Authenticated request
+   */
+  async touch(req: Request): Promise<void> {
+    const now = Date.now();
+    if (req.session.seenAt && now - req.session.seenAt < touchIntervalMs) return;
+
+    // Changing the session also pushes its cookie expiry forward
+    req.session.seenAt = now;
+    await storage.touchUserSession(req.sessionID, new Date(now));
+  }
+
+  /**
+   * Sign out the device making this request
+   * @param req Authenticated request
+   */
+  async end(req: Request): Promise<void> {
+    await storage.deleteUserSession(req.sessionID);
+    await new Promise<void>((resolve, reject) => {
+      req.session.destroy(error => error ? reject(error) : resolve());
+    });
+  }
+
+  /**
+   * List the devices a user is signed in on, dropping ones that have expired
+   * @param userId Owner of the sessions
+   * @param currentSessionId Session ID of the request asking
+   * @returns Active sessions, most recently used first
+   */
+  async list(userId: number, currentSessionId: string): Promise<DeviceSession[]> {
+    const cutoff = Date.now() - sessionMaxAgeMs;
+    const userSessions = await storage.getUserSessions(userId);
+
+    const expired = userSessions.filter(userSession => userSession.lastSeenAt.getTime() < cutoff);
+    await Promise.all(expired.map(userSession => storage.deleteUserSession(userSession.sessionId)));
+
+    return userSessions
+      .filter(userSession => userSession.lastSeenAt.getTime() >= cutoff)
+      .map(userSession => ({
+        id: userSession.id,
+        userAgent: userSession.userAgent,
+        ipAddress: userSession.ipAddress,
+        createdAt: userSession.createdAt,
+        lastSeenAt: userSession.lastSeenAt,
+        current: userSession.sessionId === currentSessionId
+      }));
+  }
+
+  /**
+   * Sign out one of a user's devices
+   * @param userId Owner of the session
+   * @param id ID of the device entry
+   * @returns The revoked session, or undefined if the user has no such session
+   */
+  async revoke(userId: number, id: number): Promise<UserSession | undefined> {
+    const userSessions = await storage.getUserSessions(userId);
+    const target = userSessions.find(userSession => userSession.id === id);
+    if (!target) return undefined;
+
+    await storage.deleteUserSession(target.sessionId);
+    await this.destroy(target.sessionId);
+    return target;
+  }
+
+  /**
+   * Sign out every device a user is signed in on
+   * @param userId Owner of the sessions
+   * @returns Number of sessions ended
+   */
+  async revokeAll(userId: number): Promise<number> {
+    const removed = await storage.deleteUserSessions(userId);
+    await Promise.all(removed.map(userSession => this.destroy(userSession.sessionId)));
+    return removed.length;
+  }
+
+  /**
+   * Sign out every device but the one making the request
+   * @param userId Owner of the sessions
+   * @param currentSessionId Session ID to keep
+   * @returns Number of sessions ended
+   */
+  async revokeOthers(userId: number, currentSessionId: string): Promise<number> {
+    const others = (await storage.getUserSessions(userId))
+      .filter(userSession => userSession.sessionId !== currentSessionId);
+
+    await Promise.all(others.map(async userSession => {
+      await storage.deleteUserSession(userSession.sessionId);
+      await this.destroy(userSession.sessionId);
+    }));
+    return others.length;
+  }
+
+  private destroy(sessionId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.store.destroy(sessionId, error => error ? reject(error) : resolve());
+    });
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { mailer, MemoryMailer } from './mailer';
+import { emailSubscriptionChange, SubscriptionService, type Clock } from './subscriptions';
+
+const day = 24 * 60 * 60 * 1000;
+
+// A clock that only moves when the test says so
+class TestClock implements Clock {
+  private current = new Date('2025-01-01T00:00:00Z');
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+const outbox = mailer as MemoryMailer;
+
+describe('SubscriptionService', () => {
+  let clock: TestClock;
+  let subscriptions: SubscriptionService;
+  let userCount = 0;
+
+  beforeEach(() => {
+    clock = new TestClock();
+    subscriptions = new SubscriptionService(clock);
+    subscriptions.onChange(emailSubscriptionChange);
+    outbox.clear();
+  });
+
+  const createUser = () => {
+    userCount++;
+    return storage.createUser({ username: `student${userCount}`, email: `student${userCount}@example.com`, password: 'password1' });
+  };
+
+  // Subscribe a user from the test clock's today, as a completed payment would
+  const subscribe = async (userId: number, days: number) =>
+    (await storage.updateUser(userId, {
+      subscriptionStatus: 'active',
+      subscriptionExpiresAt: new Date(clock.now().getTime() + days * day)
+    }))!;
+
+  it('downgrades a lapsed subscription when it is next checked', async () => {
+    const user = await createUser();
+    const subscribed = await subscribe(user.id, 30);
+
+    clock.advance(30 * day - 1);
+    expect(await subscriptions.refresh(subscribed)).toMatchObject({ subscriptionStatus: 'active' });
+
+    clock.advance(1);
+    expect(subscriptions.isActive(subscribed)).toBe(false);
+    expect(await subscriptions.refresh(subscribed)).toMatchObject({ subscriptionStatus: 'expired' });
+    expect(outbox.lastTo(user.email)?.subject).toBe('Your SolveM8 subscription has ended');
+  });
+
+  it('expires every lapsed subscription in a sweep and notifies each user once', async () => {
+    const lapsing = await createUser();
+    const running = await createUser();
+    await subscribe(lapsing.id, 7);
+    await subscribe(running.id, 30);
+    outbox.clear();
+
+    clock.advance(8 * day);
+    const expired = await subscriptions.expireDue();
+
+    expect(expired).toBeGreaterThanOrEqual(1);
+    expect((await storage.getUser(lapsing.id))?.subscriptionStatus).toBe('expired');
+    expect((await storage.getUser(running.id))?.subscriptionStatus).toBe('active');
+    expect(outbox.outbox.filter(message => message.to === lapsing.email)).toHaveLength(1);
+    expect(outbox.lastTo(running.email)).toBeUndefined();
+
+    await subscriptions.expireDue();
+    expect(outbox.outbox.filter(message => message.to === lapsing.email)).toHaveLength(1);
+  });
+
+  it('expires a subscription shortened past today', async () => {
+    const user = await createUser();
+    await subscribe(user.id, 30);
+    clock.advance(20 * day);
+
+    const shortened = await subscriptions.shorten(user.id, 15);
+
+    expect(shortened?.subscriptionStatus).toBe('expired');
+  });
+
+  it('does not email deleted accounts', async () => {
+    const user = await createUser();
+    await subscribe(user.id, 30);
+    await storage.updateUser(user.id, { deletedAt: clock.now() });
+    outbox.clear();
+
+    clock.advance(31 * day);
+    await subscriptions.expireDue();
+
+    expect((await storage.getUser(user.id))?.subscriptionStatus).toBe('expired');
+    expect(outbox.lastTo(user.email)).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+import { storage } from '../storage';
+import { mailer, type MailMessage } from './mailer';
+import type { User } from '@shared/schema';
+
+/**
+ * Source of the current time, replaceable so expiry can be exercised without waiting
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export type SubscriptionEvent = 'activated' | 'renewed' | 'expired';
+
+export type SubscriptionListener = (user: User, event: SubscriptionEvent) => void | Promise<void>;
+
+// Length of one paid subscription period
+const subscriptionPeriodDays = 30;
+
+// How often lapsed subscriptions are swept
+const expirySweepIntervalMs = 60 * 60 * 1000; // 1 hour
+
+export class SubscriptionService {
+  private listeners: SubscriptionListener[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  /**
+   * Listen for subscriptions being activated, renewed or expired
+   * @param listener Called with the updated user and what happened
+   * @returns Function that removes the listener
+   */
+  onChange(listener: SubscriptionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(current => current !== listener);
+    };
+  }
+
+  /**
+   * Check whether a user's subscription currently covers their attempts
+   * @param user User to check
+   * @returns True if the subscription is active and has not passed its expiry
+   */
+  isActive(user: User): boolean {
+    return user.subscriptionStatus === 'active'
+      && !!user.subscriptionExpiresAt
+      && new Date(user.subscriptionExpiresAt).getTime() > this.clock.now().getTime();
+  }
+
+  /**
+   * Downgrade a user whose subscription has lapsed since it was last checked
+   * @param user User to check
+   * @returns The user with an up-to-date subscription status
+   */
+  async refresh(user: User): Promise<User> {
+    if (user.subscriptionStatus !== 'active' || this.isActive(user)) {
+      return user;
+    }
+
+    return this.expire(user);
+  }
+
+  /**
+   * Work out when a subscription would end if a period were added to it now
+   * @param user User as currently stored
+   * @param days Length of the period to add
+   * @returns The new expiry, and whether this renews a running subscription
+   */
+  periodAfter(user: User, days: number = subscriptionPeriodDays): { expiresAt: Date; renewing: boolean } {
+    // Renewing early must not lose the days that are left
+    const renewing = this.isActive(user);
+    const expiresAt = renewing ? new Date(user.subscriptionExpiresAt!) : this.clock.now();
+    expiresAt.setDate(expiresAt.getDate() + days);
+    return { expiresAt, renewing };
+  }
+
+  /**
+   * Take days off a subscription, e.g. after the payment for them was refunded
+   * @param userId User ID
+   * @param days Number of days to remove
+   * @returns The updated user, if found
+   */
+  async shorten(userId: number, days: number): Promise<User | undefined> {
+    const user = await storage.getUser(userId);
+    if (!user || !user.subscriptionExpiresAt || days <= 0) return user;
+
+    const expiresAt = new Date(user.subscriptionExpiresAt);
+    expiresAt.setDate(expiresAt.getDate() - days);
+
+    const updatedUser = await storage.updateUser(userId, { subscriptionExpiresAt: expiresAt });
+    return updatedUser ? this.refresh(updatedUser) : undefined;
+  }
+
+  /**
+   * Downgrade every subscription that has passed its expiry
+   * @returns Number of subscriptions expired
+   */
+  async expireDue(): Promise<number> {
+    const lapsed = await storage.getExpiredSubscriptions(this.clock.now());
+
+    for (const user of lapsed) {
+      await this.expire(user);
+    }
+    return lapsed.length;
+  }
+
+  /**
+   * Start sweeping lapsed subscriptions in the background
+   * @param intervalMs Time between sweeps
+   */
+  start(intervalMs: number = expirySweepIntervalMs): void {
+    if (this.timer) return;
+
+    const sweep = () => {
+      this.expireDue().catch(error => {
+        console.error('Subscription expiry sweep error:', error);
+      });
+    };
+
+    sweep();
+    this.timer = setInterval(sweep, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mark a subscription as expired and notify listeners
+   * @param user User whose subscription lapsed
+   * @returns The updated user
+   */
+  private async expire(user: User): Promise<User> {
+    const updatedUser = await storage.updateUser(user.id, { subscriptionStatus: 'expired' }) ?? user;
+    await this.notify(updatedUser, 'expired');
+    return updatedUser;
+  }
+
+  /**
+   * Tell every listener about a subscription change; a failing listener does not stop the others
+   * @param user Updated user
+   * @param event What happened
+   */
+  async notify(user: User, event: SubscriptionEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(user, event);
+      } catch (error) {
+        console.error(`Subscription ${event} listener error:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Write the email telling a user their subscription started, renewed or lapsed
+ * @param user Updated user
+ * @param event What happened
+ */
+function subscriptionEmail(user: User, event: SubscriptionEvent): MailMessage {
+  const expiry = user.subscriptionExpiresAt
+    ? new Date(user.subscriptionExpiresAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+    : null;
+
+  switch (event) {
+    case 'activated':
+      return {
+        to: user.email,
+        subject: 'Your SolveM8 subscription is active',
+        text: `Hi ${user.username},\n\nThanks for subscribing. You have unlimited attempts until ${expiry}.`,
+      };
+    case 'renewed':
+      return {
+        to: user.email,
+        subject: 'Your SolveM8 subscription has been renewed',
+        text: `Hi ${user.username},\n\nThanks for renewing. Your subscription now runs until ${expiry}.`,
+      };
+    case 'expired':
+      return {
+        to: user.email,
+        subject: 'Your SolveM8 subscription has ended',
+        text: `Hi ${user.username},\n\nYour subscription has ended, so solving an assignment uses your free attempts again. You can renew from your dashboard at any time.`,
+      };
+  }
+}
+
+/**
+ * Email the user about a subscription change
+ * @param user Updated user
+ * @param event What happened
+ */
+export const emailSubscriptionChange: SubscriptionListener = async (user, event) => {
+  // Deleted accounts have no address left to write to
+  if (user.deletedAt) return;
+
+  await mailer.send(subscriptionEmail(user, event));
+};
+
+export const subscriptionService = new SubscriptionService();
+
+subscriptionService.onChange(emailSubscriptionChange);
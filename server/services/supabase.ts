@@ -104,6 +104,20 @@ export const supabaseService = {
       console.error('Supabase storage error:', error);
       throw error;
     }
+  },
+  
+  /**
+   * Work out where a file is stored from the URL returned when it was uploaded
+   * @param url Public URL of the file
+   * @returns Bucket and path, or undefined if the URL is not one of ours
+   */
+  locateFile(url: string): { bucket: string; path: string } | undefined {
+    const match = url.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/) ?? url.match(/^mock-url\/([^/]+)\/(.+)$/);
+    if (!match) {
+      return undefined;
+    }
+    
+    return { bucket: decodeURIComponent(match[1]), path: decodeURIComponent(match[2].split('?')[0]) };
   }
 };
 
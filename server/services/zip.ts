@@ -0,0 +1,115 @@
+import zlib from 'zlib';
+
+/**
+ * A file to put in a ZIP archive
+ */
+export interface ZipEntry {
+  name: string; // path inside the archive, using forward slashes
+  data: Buffer | string;
+  modifiedAt?: Date;
+}
+
+// Version 2.0 of the format: deflate and folders
+const zipVersion = 20;
+// Bit 11 marks names as UTF-8
+const utf8Flag = 0x0800;
+const methodStored = 0;
+const methodDeflated = 8;
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 checksum, as stored for every file in the archive
+ * @param data File contents
+ */
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Pack a date into the MS-DOS time and date fields the format uses
+ * @param date Modification time, in local time as archive tools expect
+ */
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Build a ZIP archive in memory
+ *
+ * Files are deflated unless that does not make them smaller, as with PDFs and
+ * images. Archives over 4 GB would need ZIP64 and are not supported.
+ * @param entries Files to include
+ * @returns Archive contents
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name.replace(/^\/+/, ''), 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    const deflated = zlib.deflateRawSync(data);
+    const method = deflated.length < data.length ? methodDeflated : methodStored;
+    const body = method === methodDeflated ? deflated : data;
+    const checksum = crc32(data);
+    const modified = dosDateTime(entry.modifiedAt ?? new Date());
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(zipVersion, 4);
+    header.writeUInt16LE(utf8Flag, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(modified.time, 10);
+    header.writeUInt16LE(modified.date, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28); // no extra field
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(zipVersion, 4); // made by
+    record.writeUInt16LE(zipVersion, 6); // needed to extract
+    record.writeUInt16LE(utf8Flag, 8);
+    record.writeUInt16LE(method, 10);
+    record.writeUInt16LE(modified.time, 12);
+    record.writeUInt16LE(modified.date, 14);
+    record.writeUInt32LE(checksum, 16);
+    record.writeUInt32LE(body.length, 20);
+    record.writeUInt32LE(data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes stay zero
+    record.writeUInt32LE(offset, 42);
+
+    parts.push(header, name, body);
+    directory.push(record, name);
+    offset += header.length + name.length + body.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8); // entries on this disk
+  end.writeUInt16LE(entries.length, 10); // entries in total
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...directory, end]);
+}
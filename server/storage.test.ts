@@ -0,0 +1,478 @@
+import { createRequire } from 'module';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as bcrypt from 'bcrypt';
+import * as schema from '@shared/schema';
+import { DatabaseStorage, MemStorage, type IStorage, type PaymentGrant } from './storage';
+
+// drizzle-kit's ESM build cannot load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+
+interface StorageFixture {
+  setUp(): Promise<void>;
+  create(): Promise<IStorage>;
+  tearDown(): Promise<void>;
+}
+
+const memoryFixture = (): StorageFixture => ({
+  setUp: async () => {},
+  create: async () => new MemStorage(),
+  tearDown: async () => {},
+});
+
+// An embedded Postgres with the schema applied, emptied before every test
+const databaseFixture = (): StorageFixture => {
+  let client: PGlite;
+
+  return {
+    setUp: async () => {
+      client = new PGlite();
+      const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+      for (const statement of statements) {
+        await client.exec(statement);
+      }
+    },
+    create: async () => {
+      const { rows } = await client.query<{ tablename: string }>(
+        `select tablename from pg_tables where schemaname = 'public'`
+      );
+      const tables = rows.map(row => `"${row.tablename}"`).join(', ');
+      await client.exec(`truncate ${tables} restart identity cascade`);
+      return new DatabaseStorage(drizzle({ client, schema }));
+    },
+    tearDown: async () => {
+      await client.close();
+    },
+  };
+};
+
+const minutes = (count: number) => count * 60 * 1000;
+
+describe.each([
+  ['MemStorage', memoryFixture],
+  ['DatabaseStorage', databaseFixture],
+])('%s', (_name, fixture) => {
+  const storageFixture = fixture();
+  let storage: IStorage;
+
+  beforeAll(() => storageFixture.setUp());
+  afterAll(() => storageFixture.tearDown());
+  beforeEach(async () => {
+    storage = await storageFixture.create();
+  });
+
+  const createUser = (name: string) =>
+    storage.createUser({ username: name, email: `${name}@example.com`, password: 'password1' });
+
+  const createPayment = (userId: number, orderId: string) =>
+    storage.createPayment({ userId, amount: 19900, planType: 'monthly', orderId });
+
+  describe('users', () => {
+    it('hashes the password and grants the signup attempts through the ledger', async () => {
+      const user = await createUser('asha');
+
+      expect(await bcrypt.compare('password1', user.password)).toBe(true);
+      expect(user.freeAttempts).toBe(3);
+      expect(user.subscriptionStatus).toBe('free');
+      expect(user.role).toBe('user');
+
+      const ledger = await storage.getCreditLedger(user.id);
+      expect(ledger).toHaveLength(1);
+      expect(ledger[0]).toMatchObject({ type: 'signup_grant', amount: 3, balanceAfter: 3 });
+    });
+
+    it('finds users by username and email regardless of case', async () => {
+      const user = await createUser('Asha');
+
+      expect((await storage.getUserByUsername('asha'))?.id).toBe(user.id);
+      expect((await storage.getUserByEmail('ASHA@example.com'))?.id).toBe(user.id);
+      expect(await storage.getUserByEmail('nobody@example.com')).toBeUndefined();
+    });
+
+    it('hashes passwords set later', async () => {
+      const user = await createUser('asha');
+      const updated = await storage.updateUserPassword(user.id, 'new-password');
+
+      expect(await bcrypt.compare('new-password', updated!.password)).toBe(true);
+    });
+
+    it('searches usernames and emails, newest first', async () => {
+      await createUser('asha');
+      const second = await createUser('ashok');
+      await createUser('bilal');
+
+      const { users, total } = await storage.searchUsers('ASH', 0, 1);
+      expect(total).toBe(2);
+      expect(users.map(user => user.id)).toEqual([second.id]);
+    });
+
+    it('lists active subscriptions that have run out', async () => {
+      const lapsed = await createUser('asha');
+      const current = await createUser('bilal');
+      const asOf = new Date();
+      await storage.updateUser(lapsed.id, { subscriptionStatus: 'active', subscriptionExpiresAt: new Date(asOf.getTime() - minutes(1)) });
+      await storage.updateUser(current.id, { subscriptionStatus: 'active', subscriptionExpiresAt: new Date(asOf.getTime() + minutes(1)) });
+
+      const expired = await storage.getExpiredSubscriptions(asOf);
+      expect(expired.map(user => user.id)).toEqual([lapsed.id]);
+    });
+
+    it('erases personal data but keeps payments, with invoices scrubbed', async () => {
+      const user = await createUser('asha');
+      const assignment = await storage.createAssignment({ userId: user.id, fileName: 'hw.pdf', fileUrl: 'mock-url/assignments/hw.pdf' });
+      await storage.createAssignmentRevision({ assignmentId: assignment.id, feedback: 'shorter', solution: 'S' });
+      await storage.createUserSession({ userId: user.id, sessionId: 'session-1' });
+      const payment = await createPayment(user.id, 'order_1');
+      await storage.createInvoice({
+        paymentId: payment.id,
+        userId: user.id,
+        description: 'Monthly plan',
+        billingName: 'Asha Rao',
+        billingAddress: '1 Main Road',
+        currency: 'INR',
+        taxableAmount: 19900,
+        total: 19900,
+      }, sequence => `INV-${sequence}`);
+      await storage.createAuditEntry({
+        actorId: user.id,
+        action: 'user.update_profile',
+        targetType: 'user',
+        targetId: String(user.id),
+        details: { email: { from: 'asha@example.com', to: 'asha.rao@example.com' }, reason: 'kept' },
+      });
+
+      const erased = await storage.eraseUser(user.id, { username: 'deleted-1', email: 'deleted-1@invalid', deletedAt: new Date() });
+
+      expect(erased?.username).toBe('deleted-1');
+      expect(await storage.getAssignmentHistory(user.id)).toEqual([]);
+      expect(await storage.getAssignmentRevisions(assignment.id)).toEqual([]);
+      expect(await storage.getCreditLedger(user.id)).toEqual([]);
+      expect(await storage.getUserSessions(user.id)).toEqual([]);
+      expect(await storage.getUserPayments(user.id)).toHaveLength(1);
+
+      const [invoice] = await storage.getUserInvoices(user.id);
+      expect(invoice).toMatchObject({ billingName: 'Deleted account', billingAddress: null });
+
+      const [entry] = (await storage.getAuditLog(10)).filter(logged => logged.targetId === String(user.id));
+      expect(entry.details).toEqual({ reason: 'kept' });
+    });
+  });
+
+  describe('assignments', () => {
+    it('fills in defaults and applies updates', async () => {
+      const user = await createUser('asha');
+      const assignment = await storage.createAssignment({ userId: user.id, fileName: 'hw.pdf', fileUrl: 'mock-url/assignments/hw.pdf' });
+
+      expect(assignment).toMatchObject({ title: null, tags: [], attemptCount: 1, processedOutputUrl: null, questions: null });
+
+      const updated = await storage.updateAssignment(assignment.id, { title: 'Calculus', tags: ['math'] });
+      expect(updated).toMatchObject({ title: 'Calculus', tags: ['math'] });
+      expect(await storage.getAssignment(assignment.id)).toMatchObject({ title: 'Calculus', tags: ['math'] });
+      expect(await storage.updateAssignment(assignment.id + 100, { title: 'x' })).toBeUndefined();
+    });
+
+    it('finds assignments by their upload or generated output', async () => {
+      const user = await createUser('asha');
+      const upload = await storage.createAssignment({ userId: user.id, fileName: 'a.pdf', fileUrl: 'mock-url/assignments/a.pdf' });
+      const output = await storage.createAssignment({
+        userId: user.id,
+        fileName: 'b.pdf',
+        fileUrl: 'mock-url/assignments/b.pdf',
+        processedOutputUrl: 'mock-url/solutions/a.pdf',
+      });
+
+      expect((await storage.getAssignmentsByFileUrl('mock-url/assignments/a.pdf')).map(item => item.id)).toEqual([upload.id]);
+      expect((await storage.getAssignmentsByFileUrl('mock-url/solutions/a.pdf')).map(item => item.id)).toEqual([output.id]);
+    });
+
+    it('deletes revisions along with the assignment', async () => {
+      const user = await createUser('asha');
+      const assignment = await storage.createAssignment({ userId: user.id, fileName: 'hw.pdf', fileUrl: 'mock-url/assignments/hw.pdf' });
+      const first = await storage.createAssignmentRevision({ assignmentId: assignment.id, feedback: '', solution: 'One' });
+      const second = await storage.createAssignmentRevision({ assignmentId: assignment.id, feedback: 'shorter', solution: 'Two' });
+
+      expect((await storage.getAssignmentRevisions(assignment.id)).map(revision => revision.id)).toEqual([first.id, second.id]);
+
+      expect((await storage.deleteAssignment(assignment.id))?.id).toBe(assignment.id);
+      expect(await storage.getAssignment(assignment.id)).toBeUndefined();
+      expect(await storage.getAssignmentRevisions(assignment.id)).toEqual([]);
+      expect(await storage.deleteAssignment(assignment.id)).toBeUndefined();
+    });
+  });
+
+  describe('credit ledger', () => {
+    it('tracks the balance and refuses to go negative', async () => {
+      const user = await createUser('asha');
+
+      const spent = await storage.recordCreditEntry({ userId: user.id, type: 'consumption', amount: -3, description: 'Solved' });
+      expect(spent?.balanceAfter).toBe(0);
+
+      expect(await storage.recordCreditEntry({ userId: user.id, type: 'consumption', amount: -1, description: 'Solved' })).toBeUndefined();
+      expect((await storage.getUser(user.id))?.freeAttempts).toBe(0);
+      expect(await storage.getCreditLedger(user.id)).toHaveLength(2);
+    });
+  });
+
+  describe('payments', () => {
+    it('only moves a payment out of the given states', async () => {
+      const user = await createUser('asha');
+      const payment = await createPayment(user.id, 'order_1');
+
+      expect(payment).toMatchObject({ status: 'pending', currency: 'INR', provider: 'razorpay', discount: 0, refundedAmount: 0 });
+
+      const completed = await storage.transitionPayment(payment.id, ['pending'], { status: 'completed', paymentId: 'pay_1' });
+      expect(completed?.status).toBe('completed');
+      expect(await storage.transitionPayment(payment.id, ['pending'], { status: 'failed' })).toBeUndefined();
+      expect((await storage.getPaymentByProviderPaymentId('pay_1'))?.id).toBe(payment.id);
+      expect((await storage.getPaymentByOrderId('order_1'))?.status).toBe('completed');
+    });
+
+    it('completes a payment and applies its grant together, once', async () => {
+      const user = await createUser('asha');
+      const payment = await createPayment(user.id, 'order_1');
+      const expiresAt = new Date(Date.now() + minutes(60));
+      const grantFor = (): PaymentGrant => ({
+        subscription: { subscriptionStatus: 'active', subscriptionExpiresAt: expiresAt },
+        credits: { type: 'pack_purchase', amount: 20, reference: `payment:${payment.id}`, description: 'Pack purchase' },
+      });
+
+      const completed = await storage.completePayment(payment.id, ['pending'], { status: 'completed', paymentId: 'pay_1' }, grantFor);
+      expect(completed?.payment).toMatchObject({ status: 'completed', paymentId: 'pay_1', settledAt: null });
+      expect(completed?.user).toMatchObject({ subscriptionStatus: 'active', subscriptionExpiresAt: expiresAt, freeAttempts: 23 });
+      expect((await storage.getCreditLedger(user.id))[0]).toMatchObject({ type: 'pack_purchase', amount: 20, balanceAfter: 23 });
+
+      expect(await storage.completePayment(payment.id, ['pending'], { status: 'completed' }, grantFor)).toBeUndefined();
+      expect((await storage.getUser(user.id))?.freeAttempts).toBe(23);
+    });
+
+    it('leaves the payment pending when working out the grant fails', async () => {
+      const user = await createUser('asha');
+      const payment = await createPayment(user.id, 'order_1');
+
+      await expect(storage.completePayment(payment.id, ['pending'], { status: 'completed' }, () => {
+        throw new Error('no grant');
+      })).rejects.toThrow('no grant');
+      expect((await storage.getPayment(payment.id))?.status).toBe('pending');
+    });
+
+    it('lists completed payments that are not settled yet', async () => {
+      const user = await createUser('asha');
+      const unsettled = await createPayment(user.id, 'order_1');
+      const settled = await createPayment(user.id, 'order_2');
+      await createPayment(user.id, 'order_3');
+      await storage.transitionPayment(unsettled.id, ['pending'], { status: 'completed' });
+      await storage.transitionPayment(settled.id, ['pending'], { status: 'completed', settledAt: new Date() });
+
+      const due = await storage.getUnsettledPayments(new Date(Date.now() + minutes(1)));
+      expect(due.map(payment => payment.id)).toEqual([unsettled.id]);
+    });
+
+    it('caps refunds at the amount paid', async () => {
+      const user = await createUser('asha');
+      const payment = await createPayment(user.id, 'order_1');
+
+      expect(await storage.recordPaymentRefund(payment.id, 100)).toBeUndefined();
+
+      await storage.transitionPayment(payment.id, ['pending'], { status: 'completed' });
+      expect((await storage.recordPaymentRefund(payment.id, 9900))?.refundedAmount).toBe(9900);
+      expect(await storage.recordPaymentRefund(payment.id, 10001)).toBeUndefined();
+      expect((await storage.recordPaymentRefund(payment.id, 10000))?.refundedAmount).toBe(19900);
+    });
+
+    it('lists pending payments created before a time', async () => {
+      const user = await createUser('asha');
+      const stale = await createPayment(user.id, 'order_1');
+      const done = await createPayment(user.id, 'order_2');
+      await storage.transitionPayment(done.id, ['pending'], { status: 'completed' });
+
+      const pending = await storage.getPendingPayments(new Date(Date.now() + minutes(1)));
+      expect(pending.map(payment => payment.id)).toEqual([stale.id]);
+      expect(await storage.getPendingPayments(new Date(Date.now() - minutes(1)))).toEqual([]);
+    });
+
+    it('lets one delivery of a webhook event claim it, until it is released', async () => {
+      const event = { eventId: 'evt_1', type: 'payment.captured', orderId: 'order_1' };
+      const claims = await Promise.all([storage.claimPaymentEvent(event), storage.claimPaymentEvent(event)]);
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+      expect((await storage.getPaymentEvent('evt_1'))?.type).toBe('payment.captured');
+
+      await storage.releasePaymentEvent('evt_1');
+      expect(await storage.claimPaymentEvent(event)).toBe(true);
+    });
+
+    it('numbers invoices in sequence and issues one per payment', async () => {
+      const user = await createUser('asha');
+      const invoiceFor = (paymentId: number) => ({
+        paymentId,
+        userId: user.id,
+        description: 'Monthly plan',
+        billingName: 'asha',
+        currency: 'INR',
+        taxableAmount: 19900,
+        total: 19900,
+      });
+      const first = await createPayment(user.id, 'order_1');
+      const second = await createPayment(user.id, 'order_2');
+
+      const firstInvoice = await storage.createInvoice(invoiceFor(first.id), sequence => `INV-${sequence}`);
+      const secondInvoice = await storage.createInvoice(invoiceFor(second.id), sequence => `INV-${sequence}`);
+      const repeated = await storage.createInvoice(invoiceFor(first.id), sequence => `INV-${sequence}`);
+
+      expect([firstInvoice.invoiceNumber, secondInvoice.invoiceNumber]).toEqual(['INV-1', 'INV-2']);
+      expect(repeated.id).toBe(firstInvoice.id);
+      expect((await storage.getUserInvoices(user.id)).map(invoice => invoice.id)).toEqual([secondInvoice.id, firstInvoice.id]);
+    });
+  });
+
+  describe('coupons and referrals', () => {
+    it('counts coupon redemptions', async () => {
+      const coupon = await storage.createCoupon({ code: 'WELCOME', discountType: 'percentage', discountValue: 10 });
+
+      expect(coupon).toMatchObject({ redemptionCount: 0, perUserLimit: 1, maxRedemptions: null, active: true });
+
+      expect(await storage.redeemCoupon(coupon.id)).toBe(true);
+      expect((await storage.getCouponByCode('WELCOME'))?.redemptionCount).toBe(1);
+    });
+
+    it('stops redeeming a coupon at its limit and takes back released uses', async () => {
+      const coupon = await storage.createCoupon({
+        code: 'LAUNCH',
+        discountType: 'flat',
+        discountValue: 5000,
+        maxRedemptions: 2
+      });
+
+      const claims = await Promise.all([1, 2, 3].map(() => storage.redeemCoupon(coupon.id)));
+      expect(claims.filter(Boolean)).toHaveLength(2);
+      expect((await storage.getCoupon(coupon.id))?.redemptionCount).toBe(2);
+
+      await storage.releaseCoupon(coupon.id);
+      expect(await storage.redeemCoupon(coupon.id)).toBe(true);
+      expect(await storage.redeemCoupon(coupon.id)).toBe(false);
+    });
+
+    it('lists coupons newest first and updates them', async () => {
+      const first = await storage.createCoupon({ code: 'FIRST', discountType: 'percentage', discountValue: 10 });
+      const second = await storage.createCoupon({ code: 'SECOND', discountType: 'percentage', discountValue: 20 });
+
+      expect((await storage.getCoupons()).map(coupon => coupon.id)).toEqual([second.id, first.id]);
+      expect(await storage.updateCoupon(first.id, { active: false })).toMatchObject({ id: first.id, active: false });
+    });
+
+    it('rewards a referral only once', async () => {
+      const referrer = await createUser('asha');
+      const referee = await createUser('bilal');
+      await storage.createReferral({ referrerId: referrer.id, refereeId: referee.id });
+
+      const bonusesFor = (referral: schema.Referral): schema.InsertCreditLedgerEntry[] => [
+        { userId: referral.referrerId, type: 'referral_bonus', amount: 5, reference: `referral:${referral.id}`, description: 'Referrer bonus' },
+        { userId: referral.refereeId, type: 'referral_bonus', amount: 5, reference: `referral:${referral.id}`, description: 'Referee bonus' },
+      ];
+
+      expect((await storage.markReferralRewarded(referee.id, bonusesFor))?.status).toBe('rewarded');
+      expect(await storage.markReferralRewarded(referee.id, bonusesFor)).toBeUndefined();
+      expect(await storage.getReferralsByReferrer(referrer.id)).toHaveLength(1);
+      expect((await storage.getUser(referrer.id))?.freeAttempts).toBe(8);
+      expect((await storage.getUser(referee.id))?.freeAttempts).toBe(8);
+    });
+  });
+
+  describe('auth tokens', () => {
+    it('redeems a token once, for its own purpose, before it expires', async () => {
+      const user = await createUser('asha');
+      const expiresAt = new Date(Date.now() + minutes(30));
+      await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: 'hash-1', expiresAt });
+      await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: 'hash-2', expiresAt: new Date(Date.now() - 1000) });
+
+      expect(await storage.redeemAuthToken('hash-1', 'email_verification')).toBeUndefined();
+      expect((await storage.redeemAuthToken('hash-1', 'password_reset'))?.usedAt).not.toBeNull();
+      expect(await storage.redeemAuthToken('hash-1', 'password_reset')).toBeUndefined();
+      expect(await storage.redeemAuthToken('hash-2', 'password_reset')).toBeUndefined();
+    });
+
+    it('revokes every unused token of a purpose', async () => {
+      const user = await createUser('asha');
+      const expiresAt = new Date(Date.now() + minutes(30));
+      await storage.createAuthToken({ userId: user.id, purpose: 'email_verification', tokenHash: 'hash-1', expiresAt });
+      await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: 'hash-2', expiresAt });
+
+      await storage.revokeAuthTokens(user.id, 'email_verification');
+
+      expect(await storage.redeemAuthToken('hash-1', 'email_verification')).toBeUndefined();
+      expect(await storage.redeemAuthToken('hash-2', 'password_reset')).toBeDefined();
+      expect(await storage.getRecentAuthTokens(user.id, 'email_verification', new Date(Date.now() - minutes(1)))).toHaveLength(1);
+    });
+  });
+
+  describe('user sessions', () => {
+    it('lists devices by last activity and removes them together', async () => {
+      const user = await createUser('asha');
+      await storage.createUserSession({ userId: user.id, sessionId: 'laptop' });
+      await storage.createUserSession({ userId: user.id, sessionId: 'phone' });
+      await storage.touchUserSession('laptop', new Date(Date.now() + minutes(1)));
+
+      expect((await storage.getUserSessions(user.id)).map(device => device.sessionId)).toEqual(['laptop', 'phone']);
+
+      await storage.deleteUserSession('phone');
+      const removed = await storage.deleteUserSessions(user.id);
+      expect(removed.map(device => device.sessionId)).toEqual(['laptop']);
+      expect(await storage.getUserSessions(user.id)).toEqual([]);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('counts hits within a window and starts a new one after it ends', async () => {
+      expect((await storage.incrementRateLimit('login:ip:1', minutes(15))).count).toBe(1);
+      expect((await storage.incrementRateLimit('login:ip:1', minutes(15))).count).toBe(2);
+
+      await storage.setRateLimit('login:ip:1', 5, new Date(Date.now() - 1000));
+      expect((await storage.incrementRateLimit('login:ip:1', minutes(15))).count).toBe(1);
+    });
+
+    it('sweeps counters whose window has ended', async () => {
+      await storage.setRateLimit('old', 3, new Date(Date.now() - 1000));
+      await storage.setRateLimit('current', 3, new Date(Date.now() + minutes(1)));
+
+      expect(await storage.deleteExpiredRateLimits(new Date())).toBe(1);
+      expect(await storage.getRateLimit('old')).toBeUndefined();
+      expect((await storage.getRateLimit('current'))?.count).toBe(3);
+
+      await storage.clearRateLimit('current');
+      expect(await storage.getRateLimit('current')).toBeUndefined();
+    });
+  });
+
+  describe('data exports', () => {
+    it('finds exports whose link has expired until they are deleted', async () => {
+      const user = await createUser('asha');
+      await storage.saveDataExport({ id: 'expired', userId: user.id, expiresAt: new Date(Date.now() - 1000) });
+      await storage.saveDataExport({ id: 'current', userId: user.id, expiresAt: new Date(Date.now() + minutes(60)) });
+
+      expect((await storage.getExpiredDataExports(new Date())).map(dataExport => dataExport.id)).toEqual(['expired']);
+
+      await storage.deleteDataExport('expired');
+      expect(await storage.getExpiredDataExports(new Date())).toEqual([]);
+      expect((await storage.getDataExport('current'))?.userId).toBe(user.id);
+    });
+
+    it('saves a retried export again instead of failing on its ID', async () => {
+      const user = await createUser('asha');
+      const expiresAt = new Date(Date.now() + minutes(60));
+      await storage.saveDataExport({ id: 'retried', userId: user.id, expiresAt: new Date(Date.now() + minutes(30)) });
+      await storage.saveDataExport({ id: 'retried', userId: user.id, expiresAt });
+
+      expect(await storage.getUserDataExports(user.id)).toEqual([expect.objectContaining({ id: 'retried', expiresAt })]);
+    });
+
+    it('removes the exports of an erased user', async () => {
+      const user = await createUser('asha');
+      await storage.saveDataExport({ id: 'erased', userId: user.id, expiresAt: new Date(Date.now() + minutes(60)) });
+
+      await storage.eraseUser(user.id, { email: 'erased@deleted.invalid' });
+
+      expect(await storage.getDataExport('erased')).toBeUndefined();
+    });
+  });
+});
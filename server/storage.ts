@@ -5,11 +5,69 @@ import {
   assignmentHistory, 
   AssignmentHistory, 
   InsertAssignmentHistory,
+  assignmentRevisions,
+  AssignmentRevision,
+  InsertAssignmentRevision,
+  creditLedger,
+  CreditLedgerEntry,
+  InsertCreditLedgerEntry,
+  plans,
+  Plan,
+  InsertPlan,
   subscriptionPayments,
   SubscriptionPayment,
-  InsertSubscriptionPayment
+  InsertSubscriptionPayment,
+  paymentEvents,
+  PaymentEvent,
+  InsertPaymentEvent,
+  PaymentStatus,
+  coupons,
+  Coupon,
+  InsertCoupon,
+  referrals,
+  Referral,
+  InsertReferral,
+  invoices,
+  Invoice,
+  InsertInvoice,
+  auditLog,
+  AuditLogEntry,
+  InsertAuditLogEntry,
+  DailyUsage,
+  DailyRevenue,
+  authTokens,
+  AuthToken,
+  InsertAuthToken,
+  AuthTokenPurpose,
+  userSessions,
+  UserSession,
+  InsertUserSession,
+  rateLimits,
+  RateLimitCounter,
+  dataExports,
+  DataExportRecord,
+  InsertDataExportRecord
 } from "@shared/schema";
 import * as bcrypt from 'bcrypt';
+import { and, or, eq, asc, desc, gt, gte, lte, lt, ilike, inArray, isNull, sql } from 'drizzle-orm';
+import { db, type Database } from './db';
+
+// Attempts every new account starts with
+const signupCredits = 3;
+
+// Printed on kept invoices in place of the name of someone who deleted their account
+const erasedBillingName = "Deleted account";
+
+// Audit details about a user that identify them, dropped when the user is erased
+const personalAuditDetails = ["username", "email"];
+
+/**
+ * What a completed payment gives its buyer, worked out from the user as read inside the same transaction
+ */
+export interface PaymentGrant {
+  subscription?: Pick<User, 'subscriptionStatus' | 'subscriptionExpiresAt'>;
+  credits?: Omit<InsertCreditLedgerEntry, 'userId'>;
+}
 
 // Interface for all storage operations
 export interface IStorage {
@@ -17,37 +75,203 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByReferralCode(referralCode: string): Promise<User | undefined>;
+  getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
+  // Hashes the new password before storing it
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
+  getExpiredSubscriptions(asOf: Date): Promise<User[]>;
+  // Matches the query against username and email, case-insensitively; newest accounts first
+  searchUsers(query: string, offset: number, limit: number): Promise<{ users: User[]; total: number }>;
+  // Deletes the user's assignments, credits, tokens, sessions and exports and overwrites the user row with
+  // the tombstone; payments stay for the accounts, with invoices stripped of the buyer's name and address,
+  // and audit entries about the user lose the usernames and emails in their details
+  eraseUser(id: number, tombstone: Partial<User>): Promise<User | undefined>;
   
   // Assignment history operations
   getAssignmentHistory(userId: number): Promise<AssignmentHistory[]>;
   getAssignment(id: number): Promise<AssignmentHistory | undefined>;
+  // Assignments whose upload or generated output is stored at the URL
+  getAssignmentsByFileUrl(url: string): Promise<AssignmentHistory[]>;
   createAssignment(assignment: InsertAssignmentHistory): Promise<AssignmentHistory>;
   updateAssignment(id: number, updates: Partial<AssignmentHistory>): Promise<AssignmentHistory | undefined>;
+  // Removes its revisions too
+  deleteAssignment(id: number): Promise<AssignmentHistory | undefined>;
+  
+  // Assignment revision operations
+  getAssignmentRevisions(assignmentId: number): Promise<AssignmentRevision[]>;
+  createAssignmentRevision(revision: InsertAssignmentRevision): Promise<AssignmentRevision>;
+  
+  // Credit ledger operations
+  getCreditLedger(userId: number): Promise<CreditLedgerEntry[]>;
+  // Applies the entry to the user's balance atomically; undefined if it would go negative
+  recordCreditEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined>;
+  
+  // Plan catalogue operations
+  getPlans(): Promise<Plan[]>;
+  getPlanByCode(code: string): Promise<Plan | undefined>;
+  createPlan(plan: InsertPlan): Promise<Plan>;
+  updatePlan(id: number, updates: Partial<Plan>): Promise<Plan | undefined>;
+  
+  // Coupon operations
+  // Newest first
+  getCoupons(): Promise<Coupon[]>;
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: number, updates: Partial<Coupon>): Promise<Coupon | undefined>;
+  // Counts one redemption in a single conditional update; false if the coupon is fully redeemed
+  redeemCoupon(id: number): Promise<boolean>;
+  // Gives back a redemption held by an order that was never paid
+  releaseCoupon(id: number): Promise<void>;
+  
+  // Referral operations
+  createReferral(referral: InsertReferral): Promise<Referral>;
+  getReferralByReferee(refereeId: number): Promise<Referral | undefined>;
+  getReferralsByReferrer(referrerId: number): Promise<Referral[]>;
+  // Marks a pending referral rewarded and records its bonuses in one transaction; undefined if it was already rewarded
+  markReferralRewarded(refereeId: number, bonusesFor: (referral: Referral) => InsertCreditLedgerEntry[]): Promise<Referral | undefined>;
   
   // Subscription payment operations
   createPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment>;
+  getPayment(id: number): Promise<SubscriptionPayment | undefined>;
+  getUserPayments(userId: number): Promise<SubscriptionPayment[]>;
   getPaymentByOrderId(orderId: string): Promise<SubscriptionPayment | undefined>;
+  getPaymentByProviderPaymentId(paymentId: string): Promise<SubscriptionPayment | undefined>;
   updatePayment(id: number, updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined>;
+  // Updates only while the payment is in one of the given states; undefined if it has moved on
+  transitionPayment(id: number, from: PaymentStatus[], updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined>;
+  // Transitions the payment and applies its grant to the locked buyer in one transaction; undefined if it has moved on
+  completePayment(
+    id: number,
+    from: PaymentStatus[],
+    updates: Partial<SubscriptionPayment>,
+    grantFor: (user: User) => PaymentGrant
+  ): Promise<{ payment: SubscriptionPayment; user: User } | undefined>;
+  getPendingPayments(createdBefore: Date): Promise<SubscriptionPayment[]>;
+  // Completed payments whose referral reward or invoice has not gone through yet
+  getUnsettledPayments(createdBefore: Date): Promise<SubscriptionPayment[]>;
+  // Adds to the refunded amount of a completed payment; undefined if that would exceed what was paid
+  recordPaymentRefund(id: number, amount: number): Promise<SubscriptionPayment | undefined>;
+  
+  // Payment webhook event operations
+  getPaymentEvent(eventId: string): Promise<PaymentEvent | undefined>;
+  // Records the event unless it already is; false means another delivery claimed it first
+  claimPaymentEvent(event: InsertPaymentEvent): Promise<boolean>;
+  // Forgets an event whose handling failed, so the provider's retry is applied
+  releasePaymentEvent(eventId: string): Promise<void>;
+  
+  // Invoice operations
+  getInvoiceByPaymentId(paymentId: number): Promise<Invoice | undefined>;
+  getUserInvoices(userId: number): Promise<Invoice[]>;
+  // Takes the next sequence number; returns the existing invoice if the payment already has one
+  createInvoice(invoice: InsertInvoice, numberFor: (sequence: number) => string): Promise<Invoice>;
+  
+  // Audit log operations
+  createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(limit: number): Promise<AuditLogEntry[]>;
+  
+  // Auth token operations
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  // Tokens of one purpose issued to the user since a time, oldest first
+  getRecentAuthTokens(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<AuthToken[]>;
+  // Marks an unused, unexpired token used; undefined if there is no such token
+  redeemAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  // Marks every unused token of one purpose used, so older links stop working
+  revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void>;
+  
+  // User session (device) operations
+  createUserSession(userSession: InsertUserSession): Promise<UserSession>;
+  // Most recently active first
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  touchUserSession(sessionId: string, seenAt: Date): Promise<void>;
+  deleteUserSession(sessionId: string): Promise<void>;
+  // Returns the removed rows so their sessions can be destroyed too
+  deleteUserSessions(userId: number): Promise<UserSession[]>;
+  
+  // Rate limit operations
+  // Counts a hit, starting a new window if the last one has ended
+  incrementRateLimit(key: string, windowMs: number): Promise<RateLimitCounter>;
+  getRateLimit(key: string): Promise<RateLimitCounter | undefined>;
+  setRateLimit(key: string, count: number, resetAt: Date): Promise<void>;
+  clearRateLimit(key: string): Promise<void>;
+  deleteExpiredRateLimits(asOf: Date): Promise<number>;
+  
+  // Data export operations
+  // Replaces the record of an export whose job is retried
+  saveDataExport(dataExport: InsertDataExportRecord): Promise<DataExportRecord>;
+  getDataExport(id: string): Promise<DataExportRecord | undefined>;
+  getUserDataExports(userId: number): Promise<DataExportRecord[]>;
+  // Exports whose download link has expired, oldest first
+  getExpiredDataExports(asOf: Date): Promise<DataExportRecord[]>;
+  deleteDataExport(id: string): Promise<void>;
+  
+  // Admin statistics operations
+  getDailyUsage(since: Date): Promise<DailyUsage[]>;
+  getDailyRevenue(since: Date): Promise<DailyRevenue[]>;
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private usersData: Map<number, User>;
   private assignmentsData: Map<number, AssignmentHistory>;
+  private revisionsData: Map<number, AssignmentRevision>;
+  private creditLedgerData: Map<number, CreditLedgerEntry>;
+  private plansData: Map<number, Plan>;
+  private couponsData: Map<number, Coupon>;
+  private referralsData: Map<number, Referral>;
   private paymentsData: Map<number, SubscriptionPayment>;
+  private paymentEventsData: Map<string, PaymentEvent>;
+  private invoicesData: Map<number, Invoice>;
+  private auditLogData: Map<number, AuditLogEntry>;
+  private authTokensData: Map<number, AuthToken>;
+  private userSessionsData: Map<string, UserSession>;
+  private rateLimitsData: Map<string, RateLimitCounter>;
+  private dataExportsData: Map<string, DataExportRecord>;
   private currentUserId: number;
   private currentAssignmentId: number;
+  private currentRevisionId: number;
+  private currentCreditEntryId: number;
+  private currentPlanId: number;
+  private currentCouponId: number;
+  private currentReferralId: number;
   private currentPaymentId: number;
+  private currentPaymentEventId: number;
+  private currentInvoiceId: number;
+  private currentAuditEntryId: number;
+  private currentAuthTokenId: number;
+  private currentUserSessionId: number;
 
   constructor() {
     this.usersData = new Map();
     this.assignmentsData = new Map();
+    this.revisionsData = new Map();
+    this.creditLedgerData = new Map();
+    this.plansData = new Map();
+    this.couponsData = new Map();
+    this.referralsData = new Map();
     this.paymentsData = new Map();
+    this.paymentEventsData = new Map();
+    this.invoicesData = new Map();
+    this.auditLogData = new Map();
+    this.authTokensData = new Map();
+    this.userSessionsData = new Map();
+    this.rateLimitsData = new Map();
+    this.dataExportsData = new Map();
     this.currentUserId = 1;
     this.currentAssignmentId = 1;
+    this.currentRevisionId = 1;
+    this.currentCreditEntryId = 1;
+    this.currentPlanId = 1;
+    this.currentCouponId = 1;
+    this.currentReferralId = 1;
     this.currentPaymentId = 1;
+    this.currentPaymentEventId = 1;
+    this.currentInvoiceId = 1;
+    this.currentAuditEntryId = 1;
+    this.currentAuthTokenId = 1;
+    this.currentUserSessionId = 1;
   }
 
   // User related methods
@@ -67,6 +291,18 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByReferralCode(referralCode: string): Promise<User | undefined> {
+    return Array.from(this.usersData.values()).find(
+      (user) => user.referralCode === referralCode,
+    );
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return Array.from(this.usersData.values()).find(
+      (user) => user.googleId === googleId,
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     
@@ -77,12 +313,27 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id,
       password: hashedPassword,
-      freeAttempts: 3,
+      subscriptionExpiresAt: insertUser.subscriptionExpiresAt ?? null,
+      referralCode: insertUser.referralCode ?? null,
+      billingName: null,
+      billingAddress: null,
+      gstin: null,
+      role: "user",
+      emailVerifiedAt: null,
+      googleId: null,
+      deletedAt: null,
+      freeAttempts: 0,
       subscriptionStatus: "free"
     };
     
     this.usersData.set(id, user);
-    return user;
+    await this.recordCreditEntry({
+      userId: id,
+      type: "signup_grant",
+      amount: signupCredits,
+      description: "Free attempts for new accounts"
+    });
+    return this.usersData.get(id)!;
   }
 
   async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
@@ -94,6 +345,63 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    return this.updateUser(id, { password: hashedPassword });
+  }
+
+  async getExpiredSubscriptions(asOf: Date): Promise<User[]> {
+    return Array.from(this.usersData.values()).filter(user =>
+      user.subscriptionStatus === "active" &&
+      (!user.subscriptionExpiresAt || user.subscriptionExpiresAt.getTime() <= asOf.getTime())
+    );
+  }
+
+  async searchUsers(query: string, offset: number, limit: number): Promise<{ users: User[]; total: number }> {
+    const needle = query.toLowerCase();
+    const matches = Array.from(this.usersData.values())
+      .filter(user =>
+        user.username.toLowerCase().includes(needle) ||
+        user.email.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => b.id - a.id);
+    
+    return { users: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async eraseUser(id: number, tombstone: Partial<User>): Promise<User | undefined> {
+    if (!this.usersData.has(id)) return undefined;
+    
+    for (const assignment of await this.getAssignmentHistory(id)) {
+      await this.deleteAssignment(assignment.id);
+    }
+    for (const [entryId, entry] of Array.from(this.creditLedgerData.entries())) {
+      if (entry.userId === id) this.creditLedgerData.delete(entryId);
+    }
+    for (const [tokenId, token] of Array.from(this.authTokensData.entries())) {
+      if (token.userId === id) this.authTokensData.delete(tokenId);
+    }
+    await this.deleteUserSessions(id);
+    for (const dataExport of await this.getUserDataExports(id)) {
+      this.dataExportsData.delete(dataExport.id);
+    }
+    for (const invoice of Array.from(this.invoicesData.values())) {
+      if (invoice.userId === id) {
+        this.invoicesData.set(invoice.id, { ...invoice, billingName: erasedBillingName, billingAddress: null });
+      }
+    }
+    for (const entry of Array.from(this.auditLogData.values())) {
+      if (entry.targetType === 'user' && entry.targetId === String(id)) {
+        const details = Object.fromEntries(
+          Object.entries(entry.details).filter(([key]) => !personalAuditDetails.includes(key))
+        );
+        this.auditLogData.set(entry.id, { ...entry, details });
+      }
+    }
+    
+    return this.updateUser(id, tombstone);
+  }
+
   // Assignment history related methods
   async getAssignmentHistory(userId: number): Promise<AssignmentHistory[]> {
     return Array.from(this.assignmentsData.values())
@@ -105,6 +413,11 @@ export class MemStorage implements IStorage {
     return this.assignmentsData.get(id);
   }
 
+  async getAssignmentsByFileUrl(url: string): Promise<AssignmentHistory[]> {
+    return Array.from(this.assignmentsData.values())
+      .filter(assignment => assignment.fileUrl === url || assignment.processedOutputUrl === url);
+  }
+
   async createAssignment(assignment: InsertAssignmentHistory): Promise<AssignmentHistory> {
     const id = this.currentAssignmentId++;
     const now = new Date();
@@ -112,6 +425,16 @@ export class MemStorage implements IStorage {
     const newAssignment: AssignmentHistory = {
       ...assignment,
       id,
+      subject: assignment.subject ?? null,
+      promptTemplate: assignment.promptTemplate ?? null,
+      answerStyle: assignment.answerStyle ?? null,
+      processedOutputUrl: assignment.processedOutputUrl ?? null,
+      attemptCount: assignment.attemptCount ?? 1,
+      extractedText: assignment.extractedText ?? null,
+      solution: assignment.solution ?? null,
+      questions: assignment.questions ?? null,
+      title: null,
+      tags: [],
       timestamp: now,
     };
     
@@ -128,6 +451,202 @@ export class MemStorage implements IStorage {
     return updatedAssignment;
   }
 
+  async deleteAssignment(id: number): Promise<AssignmentHistory | undefined> {
+    const assignment = this.assignmentsData.get(id);
+    if (!assignment) return undefined;
+    
+    for (const revision of await this.getAssignmentRevisions(id)) {
+      this.revisionsData.delete(revision.id);
+    }
+    this.assignmentsData.delete(id);
+    return assignment;
+  }
+
+  // Assignment revision related methods
+  async getAssignmentRevisions(assignmentId: number): Promise<AssignmentRevision[]> {
+    return Array.from(this.revisionsData.values())
+      .filter(revision => revision.assignmentId === assignmentId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createAssignmentRevision(revision: InsertAssignmentRevision): Promise<AssignmentRevision> {
+    const id = this.currentRevisionId++;
+    
+    const newRevision: AssignmentRevision = {
+      ...revision,
+      id,
+      timestamp: new Date(),
+    };
+    
+    this.revisionsData.set(id, newRevision);
+    return newRevision;
+  }
+
+  // Credit ledger related methods
+  async getCreditLedger(userId: number): Promise<CreditLedgerEntry[]> {
+    return Array.from(this.creditLedgerData.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async recordCreditEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined> {
+    // No awaits between the balance check and the write, so this cannot interleave
+    const user = this.usersData.get(entry.userId);
+    if (!user) return undefined;
+    
+    const balanceAfter = user.freeAttempts + entry.amount;
+    if (balanceAfter < 0) return undefined;
+    
+    this.usersData.set(user.id, { ...user, freeAttempts: balanceAfter });
+    
+    const id = this.currentCreditEntryId++;
+    const newEntry: CreditLedgerEntry = {
+      ...entry,
+      id,
+      reference: entry.reference ?? null,
+      balanceAfter,
+      timestamp: new Date(),
+    };
+    
+    this.creditLedgerData.set(id, newEntry);
+    return newEntry;
+  }
+
+  // Plan related methods
+  async getPlans(): Promise<Plan[]> {
+    return Array.from(this.plansData.values())
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+
+  async getPlanByCode(code: string): Promise<Plan | undefined> {
+    return Array.from(this.plansData.values()).find(plan => plan.code === code);
+  }
+
+  async createPlan(plan: InsertPlan): Promise<Plan> {
+    const id = this.currentPlanId++;
+    
+    const newPlan: Plan = {
+      ...plan,
+      id,
+      durationDays: plan.durationDays ?? null,
+      credits: plan.credits ?? null,
+      features: plan.features ?? [],
+      active: plan.active ?? true,
+      sortOrder: plan.sortOrder ?? 0,
+      hourlyAiQuota: plan.hourlyAiQuota ?? null,
+    };
+    
+    this.plansData.set(id, newPlan);
+    return newPlan;
+  }
+
+  async updatePlan(id: number, updates: Partial<Plan>): Promise<Plan | undefined> {
+    const plan = this.plansData.get(id);
+    if (!plan) return undefined;
+    
+    const updatedPlan = { ...plan, ...updates };
+    this.plansData.set(id, updatedPlan);
+    return updatedPlan;
+  }
+
+  // Coupon related methods
+  async getCoupons(): Promise<Coupon[]> {
+    return Array.from(this.couponsData.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    return this.couponsData.get(id);
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    return Array.from(this.couponsData.values()).find(coupon => coupon.code === code);
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    const id = this.currentCouponId++;
+    
+    const newCoupon: Coupon = {
+      ...coupon,
+      id,
+      currency: coupon.currency ?? "INR",
+      planCodes: coupon.planCodes ?? null,
+      expiresAt: coupon.expiresAt ?? null,
+      maxRedemptions: coupon.maxRedemptions ?? null,
+      perUserLimit: coupon.perUserLimit ?? 1,
+      redemptionCount: 0,
+      active: coupon.active ?? true,
+      createdAt: new Date(),
+    };
+    
+    this.couponsData.set(id, newCoupon);
+    return newCoupon;
+  }
+
+  async updateCoupon(id: number, updates: Partial<Coupon>): Promise<Coupon | undefined> {
+    const coupon = this.couponsData.get(id);
+    if (!coupon) return undefined;
+    
+    const updatedCoupon = { ...coupon, ...updates };
+    this.couponsData.set(id, updatedCoupon);
+    return updatedCoupon;
+  }
+
+  async redeemCoupon(id: number): Promise<boolean> {
+    const coupon = this.couponsData.get(id);
+    if (!coupon || (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions)) {
+      return false;
+    }
+    
+    this.couponsData.set(id, { ...coupon, redemptionCount: coupon.redemptionCount + 1 });
+    return true;
+  }
+
+  async releaseCoupon(id: number): Promise<void> {
+    const coupon = this.couponsData.get(id);
+    if (coupon && coupon.redemptionCount > 0) {
+      this.couponsData.set(id, { ...coupon, redemptionCount: coupon.redemptionCount - 1 });
+    }
+  }
+
+  // Referral related methods
+  async createReferral(referral: InsertReferral): Promise<Referral> {
+    const id = this.currentReferralId++;
+    
+    const newReferral: Referral = {
+      ...referral,
+      id,
+      status: "pending",
+      createdAt: new Date(),
+      rewardedAt: null,
+    };
+    
+    this.referralsData.set(id, newReferral);
+    return newReferral;
+  }
+
+  async getReferralByReferee(refereeId: number): Promise<Referral | undefined> {
+    return Array.from(this.referralsData.values()).find(referral => referral.refereeId === refereeId);
+  }
+
+  async getReferralsByReferrer(referrerId: number): Promise<Referral[]> {
+    return Array.from(this.referralsData.values())
+      .filter(referral => referral.referrerId === referrerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async markReferralRewarded(refereeId: number, bonusesFor: (referral: Referral) => InsertCreditLedgerEntry[]): Promise<Referral | undefined> {
+    const referral = await this.getReferralByReferee(refereeId);
+    if (!referral || referral.status !== "pending") return undefined;
+    
+    const updatedReferral: Referral = { ...referral, status: "rewarded", rewardedAt: new Date() };
+    this.referralsData.set(referral.id, updatedReferral);
+    
+    for (const bonus of bonusesFor(updatedReferral)) {
+      await this.recordCreditEntry(bonus);
+    }
+    return updatedReferral;
+  }
+
   // Payment related methods
   async createPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment> {
     const id = this.currentPaymentId++;
@@ -136,6 +655,15 @@ export class MemStorage implements IStorage {
     const newPayment: SubscriptionPayment = {
       ...payment,
       id,
+      currency: payment.currency ?? "INR",
+      paymentId: payment.paymentId ?? null,
+      orderId: payment.orderId ?? null,
+      status: payment.status ?? "pending",
+      provider: payment.provider ?? "razorpay",
+      couponCode: payment.couponCode ?? null,
+      discount: payment.discount ?? 0,
+      refundedAmount: 0,
+      settledAt: null,
       timestamp: now,
     };
     
@@ -143,12 +671,28 @@ export class MemStorage implements IStorage {
     return newPayment;
   }
 
+  async getPayment(id: number): Promise<SubscriptionPayment | undefined> {
+    return this.paymentsData.get(id);
+  }
+
   async getPaymentByOrderId(orderId: string): Promise<SubscriptionPayment | undefined> {
     return Array.from(this.paymentsData.values()).find(
       payment => payment.orderId === orderId
     );
   }
 
+  async getPaymentByProviderPaymentId(paymentId: string): Promise<SubscriptionPayment | undefined> {
+    return Array.from(this.paymentsData.values()).find(
+      payment => payment.paymentId === paymentId
+    );
+  }
+
+  async getUserPayments(userId: number): Promise<SubscriptionPayment[]> {
+    return Array.from(this.paymentsData.values())
+      .filter(payment => payment.userId === userId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
   async updatePayment(id: number, updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined> {
     const payment = this.paymentsData.get(id);
     if (!payment) return undefined;
@@ -157,7 +701,1139 @@ export class MemStorage implements IStorage {
     this.paymentsData.set(id, updatedPayment);
     return updatedPayment;
   }
+
+  async transitionPayment(id: number, from: PaymentStatus[], updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined> {
+    const payment = this.paymentsData.get(id);
+    if (!payment || !from.includes(payment.status)) return undefined;
+    
+    const updatedPayment = { ...payment, ...updates };
+    this.paymentsData.set(id, updatedPayment);
+    return updatedPayment;
+  }
+
+  async completePayment(
+    id: number,
+    from: PaymentStatus[],
+    updates: Partial<SubscriptionPayment>,
+    grantFor: (user: User) => PaymentGrant
+  ): Promise<{ payment: SubscriptionPayment; user: User } | undefined> {
+    // No awaits until both are written, so this cannot interleave
+    const payment = this.paymentsData.get(id);
+    const buyer = payment && this.usersData.get(payment.userId);
+    if (!payment || !buyer || !from.includes(payment.status)) return undefined;
+    
+    const grant = grantFor(buyer);
+    const user = { ...buyer, ...grant.subscription };
+    
+    if (grant.credits) {
+      user.freeAttempts += grant.credits.amount;
+      const entryId = this.currentCreditEntryId++;
+      this.creditLedgerData.set(entryId, {
+        ...grant.credits,
+        id: entryId,
+        userId: user.id,
+        reference: grant.credits.reference ?? null,
+        balanceAfter: user.freeAttempts,
+        timestamp: new Date(),
+      });
+    }
+    
+    const updatedPayment = { ...payment, ...updates };
+    this.paymentsData.set(id, updatedPayment);
+    this.usersData.set(user.id, user);
+    return { payment: updatedPayment, user };
+  }
+
+  async getPendingPayments(createdBefore: Date): Promise<SubscriptionPayment[]> {
+    return Array.from(this.paymentsData.values()).filter(payment =>
+      payment.status === "pending" && payment.timestamp.getTime() < createdBefore.getTime()
+    );
+  }
+
+  async getUnsettledPayments(createdBefore: Date): Promise<SubscriptionPayment[]> {
+    return Array.from(this.paymentsData.values()).filter(payment =>
+      payment.status === "completed" && !payment.settledAt && payment.timestamp.getTime() < createdBefore.getTime()
+    );
+  }
+
+  async recordPaymentRefund(id: number, amount: number): Promise<SubscriptionPayment | undefined> {
+    const payment = this.paymentsData.get(id);
+    if (!payment || payment.status !== "completed") return undefined;
+    
+    const refundedAmount = payment.refundedAmount + amount;
+    if (refundedAmount < 0 || refundedAmount > payment.amount) return undefined;
+    
+    const updatedPayment = { ...payment, refundedAmount };
+    this.paymentsData.set(id, updatedPayment);
+    return updatedPayment;
+  }
+
+  // Payment webhook event related methods
+  async getPaymentEvent(eventId: string): Promise<PaymentEvent | undefined> {
+    return this.paymentEventsData.get(eventId);
+  }
+
+  async claimPaymentEvent(event: InsertPaymentEvent): Promise<boolean> {
+    if (this.paymentEventsData.has(event.eventId)) return false;
+    
+    const newEvent: PaymentEvent = {
+      ...event,
+      id: this.currentPaymentEventId++,
+      orderId: event.orderId ?? null,
+      timestamp: new Date(),
+    };
+    
+    this.paymentEventsData.set(event.eventId, newEvent);
+    return true;
+  }
+
+  async releasePaymentEvent(eventId: string): Promise<void> {
+    this.paymentEventsData.delete(eventId);
+  }
+
+  // Invoice related methods
+  async getInvoiceByPaymentId(paymentId: number): Promise<Invoice | undefined> {
+    return Array.from(this.invoicesData.values()).find(invoice => invoice.paymentId === paymentId);
+  }
+
+  async getUserInvoices(userId: number): Promise<Invoice[]> {
+    return Array.from(this.invoicesData.values())
+      .filter(invoice => invoice.userId === userId)
+      .sort((a, b) => b.sequence - a.sequence);
+  }
+
+  async createInvoice(invoice: InsertInvoice, numberFor: (sequence: number) => string): Promise<Invoice> {
+    const existing = await this.getInvoiceByPaymentId(invoice.paymentId);
+    if (existing) return existing;
+    
+    const id = this.currentInvoiceId++;
+    const newInvoice: Invoice = {
+      ...invoice,
+      id,
+      sequence: id,
+      invoiceNumber: numberFor(id),
+      billingAddress: invoice.billingAddress ?? null,
+      gstin: invoice.gstin ?? null,
+      sellerGstin: invoice.sellerGstin ?? null,
+      placeOfSupply: invoice.placeOfSupply ?? null,
+      cgst: invoice.cgst ?? 0,
+      sgst: invoice.sgst ?? 0,
+      igst: invoice.igst ?? 0,
+      issuedAt: new Date(),
+    };
+    
+    this.invoicesData.set(id, newInvoice);
+    return newInvoice;
+  }
+
+  // Audit log related methods
+  async createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.currentAuditEntryId++;
+    const newEntry: AuditLogEntry = {
+      ...entry,
+      id,
+      actorId: entry.actorId ?? null,
+      details: entry.details ?? {},
+      timestamp: new Date(),
+    };
+    
+    this.auditLogData.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getAuditLog(limit: number): Promise<AuditLogEntry[]> {
+    return Array.from(this.auditLogData.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Auth token related methods
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const id = this.currentAuthTokenId++;
+    const newToken: AuthToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    
+    this.authTokensData.set(id, newToken);
+    return newToken;
+  }
+
+  async getRecentAuthTokens(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<AuthToken[]> {
+    return Array.from(this.authTokensData.values())
+      .filter(token =>
+        token.userId === userId &&
+        token.purpose === purpose &&
+        token.createdAt.getTime() >= since.getTime()
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async redeemAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const token = Array.from(this.authTokensData.values()).find(item => item.tokenHash === tokenHash);
+    if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    
+    const redeemed = { ...token, usedAt: new Date() };
+    this.authTokensData.set(token.id, redeemed);
+    return redeemed;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    const now = new Date();
+    for (const token of Array.from(this.authTokensData.values())) {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.authTokensData.set(token.id, { ...token, usedAt: now });
+      }
+    }
+  }
+
+  // User session related methods
+  async createUserSession(userSession: InsertUserSession): Promise<UserSession> {
+    const now = new Date();
+    const newSession: UserSession = {
+      ...userSession,
+      id: this.currentUserSessionId++,
+      userAgent: userSession.userAgent ?? null,
+      ipAddress: userSession.ipAddress ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    
+    this.userSessionsData.set(newSession.sessionId, newSession);
+    return newSession;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return Array.from(this.userSessionsData.values())
+      .filter(userSession => userSession.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async touchUserSession(sessionId: string, seenAt: Date): Promise<void> {
+    const userSession = this.userSessionsData.get(sessionId);
+    if (userSession) {
+      this.userSessionsData.set(sessionId, { ...userSession, lastSeenAt: seenAt });
+    }
+  }
+
+  async deleteUserSession(sessionId: string): Promise<void> {
+    this.userSessionsData.delete(sessionId);
+  }
+
+  async deleteUserSessions(userId: number): Promise<UserSession[]> {
+    const removed = await this.getUserSessions(userId);
+    for (const userSession of removed) {
+      this.userSessionsData.delete(userSession.sessionId);
+    }
+    return removed;
+  }
+
+  // Rate limit related methods
+  async incrementRateLimit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const existing = this.rateLimitsData.get(key);
+    
+    const counter: RateLimitCounter = existing && existing.resetAt.getTime() > now
+      ? { ...existing, count: existing.count + 1 }
+      : { key, count: 1, resetAt: new Date(now + windowMs) };
+    
+    this.rateLimitsData.set(key, counter);
+    return counter;
+  }
+
+  async getRateLimit(key: string): Promise<RateLimitCounter | undefined> {
+    return this.rateLimitsData.get(key);
+  }
+
+  async setRateLimit(key: string, count: number, resetAt: Date): Promise<void> {
+    this.rateLimitsData.set(key, { key, count, resetAt });
+  }
+
+  async clearRateLimit(key: string): Promise<void> {
+    this.rateLimitsData.delete(key);
+  }
+
+  async deleteExpiredRateLimits(asOf: Date): Promise<number> {
+    let deleted = 0;
+    for (const counter of Array.from(this.rateLimitsData.values())) {
+      if (counter.resetAt.getTime() <= asOf.getTime()) {
+        this.rateLimitsData.delete(counter.key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Data export related methods
+  async saveDataExport(dataExport: InsertDataExportRecord): Promise<DataExportRecord> {
+    const record: DataExportRecord = { ...dataExport, createdAt: new Date() };
+    this.dataExportsData.set(record.id, record);
+    return record;
+  }
+
+  async getDataExport(id: string): Promise<DataExportRecord | undefined> {
+    return this.dataExportsData.get(id);
+  }
+
+  async getUserDataExports(userId: number): Promise<DataExportRecord[]> {
+    return Array.from(this.dataExportsData.values()).filter(dataExport => dataExport.userId === userId);
+  }
+
+  async getExpiredDataExports(asOf: Date): Promise<DataExportRecord[]> {
+    return Array.from(this.dataExportsData.values())
+      .filter(dataExport => dataExport.expiresAt.getTime() <= asOf.getTime())
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    this.dataExportsData.delete(id);
+  }
+
+  // Admin statistics related methods
+  async getDailyUsage(since: Date): Promise<DailyUsage[]> {
+    const counts = new Map<string, number>();
+    for (const assignment of Array.from(this.assignmentsData.values())) {
+      if (assignment.timestamp.getTime() < since.getTime()) continue;
+      const date = assignment.timestamp.toISOString().slice(0, 10);
+      counts.set(date, (counts.get(date) ?? 0) + 1);
+    }
+    
+    return Array.from(counts, ([date, assignments]) => ({ date, assignments }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getDailyRevenue(since: Date): Promise<DailyRevenue[]> {
+    const totals = new Map<string, DailyRevenue>();
+    for (const payment of Array.from(this.paymentsData.values())) {
+      if (payment.timestamp.getTime() < since.getTime()) continue;
+      if (payment.status !== "completed" && payment.status !== "refunded") continue;
+      
+      const date = payment.timestamp.toISOString().slice(0, 10);
+      const key = `${date}:${payment.currency}`;
+      const row = totals.get(key) ?? { date, currency: payment.currency, amount: 0 };
+      row.amount += payment.amount - payment.refundedAmount;
+      totals.set(key, row);
+    }
+    
+    return Array.from(totals.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+// Postgres storage implementation backed by the Drizzle schema
+/**
+ * Apply a credit ledger entry to the user's balance as part of a larger transaction
+ * @param tx Open transaction
+ * @param entry Entry to record
+ * @returns The recorded entry, or undefined if it would take the balance below zero
+ */
+async function applyCreditEntry(tx: Database, entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined> {
+  // A single conditional update, so concurrent consumers cannot overdraw the balance
+  const [user] = await tx
+    .update(users)
+    .set({ freeAttempts: sql`${users.freeAttempts} + ${entry.amount}` })
+    .where(and(
+      eq(users.id, entry.userId),
+      gte(sql`${users.freeAttempts} + ${entry.amount}`, 0)
+    ))
+    .returning({ freeAttempts: users.freeAttempts });
+  if (!user) return undefined;
+
+  const [newEntry] = await tx
+    .insert(creditLedger)
+    .values({ ...entry, balanceAfter: user.freeAttempts })
+    .returning();
+  return newEntry;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // User related methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(sql`lower(${users.username})`, username.toLowerCase()));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(sql`lower(${users.email})`, email.toLowerCase()));
+    return user;
+  }
+
+  async getUserByReferralCode(referralCode: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.referralCode, referralCode));
+    return user;
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.googleId, googleId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Hash the password
+    const hashedPassword = await bcrypt.hash(insertUser.password, 10);
+
+    return this.db.transaction(async tx => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          ...insertUser,
+          password: hashedPassword,
+          freeAttempts: signupCredits,
+          subscriptionStatus: "free"
+        })
+        .returning();
+
+      await tx.insert(creditLedger).values({
+        userId: user.id,
+        type: "signup_grant",
+        amount: signupCredits,
+        balanceAfter: signupCredits,
+        description: "Free attempts for new accounts"
+      });
+      return user;
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getUser(id);
+
+    const [user] = await this.db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    return this.updateUser(id, { password: hashedPassword });
+  }
+
+  async getExpiredSubscriptions(asOf: Date): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(and(
+        eq(users.subscriptionStatus, "active"),
+        lte(users.subscriptionExpiresAt, asOf)
+      ));
+  }
+
+  async searchUsers(query: string, offset: number, limit: number): Promise<{ users: User[]; total: number }> {
+    const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    const matches = or(ilike(users.username, pattern), ilike(users.email, pattern));
+
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(users)
+      .where(matches);
+
+    const page = await this.db
+      .select()
+      .from(users)
+      .where(matches)
+      .orderBy(desc(users.id))
+      .offset(offset)
+      .limit(limit);
+
+    return { users: page, total };
+  }
+
+  async eraseUser(id: number, tombstone: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = tombstone;
+
+    return this.db.transaction(async tx => {
+      const owned = tx
+        .select({ id: assignmentHistory.id })
+        .from(assignmentHistory)
+        .where(eq(assignmentHistory.userId, id));
+      await tx.delete(assignmentRevisions).where(inArray(assignmentRevisions.assignmentId, owned));
+      await tx.delete(assignmentHistory).where(eq(assignmentHistory.userId, id));
+      await tx.delete(creditLedger).where(eq(creditLedger.userId, id));
+      await tx.delete(authTokens).where(eq(authTokens.userId, id));
+      await tx.delete(userSessions).where(eq(userSessions.userId, id));
+      await tx.delete(dataExports).where(eq(dataExports.userId, id));
+      await tx
+        .update(invoices)
+        .set({ billingName: erasedBillingName, billingAddress: null })
+        .where(eq(invoices.userId, id));
+      await tx
+        .update(auditLog)
+        .set({
+          details: personalAuditDetails.reduce((details, key) => sql`${details} - ${key}::text`, sql`${auditLog.details}`)
+        })
+        .where(and(eq(auditLog.targetType, 'user'), eq(auditLog.targetId, String(id))));
+
+      const [user] = await tx
+        .update(users)
+        .set(values)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    });
+  }
+
+  // Assignment history related methods
+  async getAssignmentHistory(userId: number): Promise<AssignmentHistory[]> {
+    return this.db
+      .select()
+      .from(assignmentHistory)
+      .where(eq(assignmentHistory.userId, userId))
+      .orderBy(desc(assignmentHistory.timestamp));
+  }
+
+  async getAssignment(id: number): Promise<AssignmentHistory | undefined> {
+    const [assignment] = await this.db
+      .select()
+      .from(assignmentHistory)
+      .where(eq(assignmentHistory.id, id));
+    return assignment;
+  }
+
+  async getAssignmentsByFileUrl(url: string): Promise<AssignmentHistory[]> {
+    return this.db
+      .select()
+      .from(assignmentHistory)
+      .where(or(
+        eq(assignmentHistory.fileUrl, url),
+        eq(assignmentHistory.processedOutputUrl, url)
+      ));
+  }
+
+  async createAssignment(assignment: InsertAssignmentHistory): Promise<AssignmentHistory> {
+    const [newAssignment] = await this.db
+      .insert(assignmentHistory)
+      .values(assignment)
+      .returning();
+    return newAssignment;
+  }
+
+  async updateAssignment(id: number, updates: Partial<AssignmentHistory>): Promise<AssignmentHistory | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getAssignment(id);
+
+    const [assignment] = await this.db
+      .update(assignmentHistory)
+      .set(values)
+      .where(eq(assignmentHistory.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async deleteAssignment(id: number): Promise<AssignmentHistory | undefined> {
+    return this.db.transaction(async tx => {
+      await tx.delete(assignmentRevisions).where(eq(assignmentRevisions.assignmentId, id));
+      const [assignment] = await tx
+        .delete(assignmentHistory)
+        .where(eq(assignmentHistory.id, id))
+        .returning();
+      return assignment;
+    });
+  }
+
+  // Assignment revision related methods
+  async getAssignmentRevisions(assignmentId: number): Promise<AssignmentRevision[]> {
+    return this.db
+      .select()
+      .from(assignmentRevisions)
+      .where(eq(assignmentRevisions.assignmentId, assignmentId))
+      .orderBy(asc(assignmentRevisions.id));
+  }
+
+  async createAssignmentRevision(revision: InsertAssignmentRevision): Promise<AssignmentRevision> {
+    const [newRevision] = await this.db
+      .insert(assignmentRevisions)
+      .values(revision)
+      .returning();
+    return newRevision;
+  }
+
+  // Credit ledger related methods
+  async getCreditLedger(userId: number): Promise<CreditLedgerEntry[]> {
+    return this.db
+      .select()
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId))
+      .orderBy(desc(creditLedger.id));
+  }
+
+  async recordCreditEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined> {
+    return this.db.transaction(tx => applyCreditEntry(tx, entry));
+  }
+
+  // Plan related methods
+  async getPlans(): Promise<Plan[]> {
+    return this.db
+      .select()
+      .from(plans)
+      .orderBy(asc(plans.sortOrder), asc(plans.id));
+  }
+
+  async getPlanByCode(code: string): Promise<Plan | undefined> {
+    const [plan] = await this.db.select().from(plans).where(eq(plans.code, code));
+    return plan;
+  }
+
+  async createPlan(plan: InsertPlan): Promise<Plan> {
+    const [newPlan] = await this.db
+      .insert(plans)
+      .values(plan)
+      .returning();
+    return newPlan;
+  }
+
+  async updatePlan(id: number, updates: Partial<Plan>): Promise<Plan | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      const [plan] = await this.db.select().from(plans).where(eq(plans.id, id));
+      return plan;
+    }
+
+    const [plan] = await this.db
+      .update(plans)
+      .set(values)
+      .where(eq(plans.id, id))
+      .returning();
+    return plan;
+  }
+
+  // Coupon related methods
+  async getCoupons(): Promise<Coupon[]> {
+    return this.db.select().from(coupons).orderBy(desc(coupons.id));
+  }
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const [coupon] = await this.db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const [coupon] = await this.db.select().from(coupons).where(eq(coupons.code, code));
+    return coupon;
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    const [newCoupon] = await this.db
+      .insert(coupons)
+      .values(coupon)
+      .returning();
+    return newCoupon;
+  }
+
+  async updateCoupon(id: number, updates: Partial<Coupon>): Promise<Coupon | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      const [coupon] = await this.db.select().from(coupons).where(eq(coupons.id, id));
+      return coupon;
+    }
+
+    const [coupon] = await this.db
+      .update(coupons)
+      .set(values)
+      .where(eq(coupons.id, id))
+      .returning();
+    return coupon;
+  }
+
+  async redeemCoupon(id: number): Promise<boolean> {
+    // The limit is checked by the update itself, so parallel checkouts cannot overshoot it
+    const redeemed = await this.db
+      .update(coupons)
+      .set({ redemptionCount: sql`${coupons.redemptionCount} + 1` })
+      .where(and(
+        eq(coupons.id, id),
+        or(isNull(coupons.maxRedemptions), lt(coupons.redemptionCount, coupons.maxRedemptions))
+      ))
+      .returning({ id: coupons.id });
+    return redeemed.length > 0;
+  }
+
+  async releaseCoupon(id: number): Promise<void> {
+    await this.db
+      .update(coupons)
+      .set({ redemptionCount: sql`${coupons.redemptionCount} - 1` })
+      .where(and(eq(coupons.id, id), gt(coupons.redemptionCount, 0)));
+  }
+
+  // Referral related methods
+  async createReferral(referral: InsertReferral): Promise<Referral> {
+    const [newReferral] = await this.db
+      .insert(referrals)
+      .values(referral)
+      .returning();
+    return newReferral;
+  }
+
+  async getReferralByReferee(refereeId: number): Promise<Referral | undefined> {
+    const [referral] = await this.db
+      .select()
+      .from(referrals)
+      .where(eq(referrals.refereeId, refereeId));
+    return referral;
+  }
+
+  async getReferralsByReferrer(referrerId: number): Promise<Referral[]> {
+    return this.db
+      .select()
+      .from(referrals)
+      .where(eq(referrals.referrerId, referrerId))
+      .orderBy(desc(referrals.id));
+  }
+
+  async markReferralRewarded(refereeId: number, bonusesFor: (referral: Referral) => InsertCreditLedgerEntry[]): Promise<Referral | undefined> {
+    return this.db.transaction(async tx => {
+      const [referral] = await tx
+        .update(referrals)
+        .set({ status: "rewarded", rewardedAt: new Date() })
+        .where(and(
+          eq(referrals.refereeId, refereeId),
+          eq(referrals.status, "pending")
+        ))
+        .returning();
+      if (!referral) return undefined;
+
+      for (const bonus of bonusesFor(referral)) {
+        await applyCreditEntry(tx, bonus);
+      }
+      return referral;
+    });
+  }
+
+  // Payment related methods
+  async createPayment(payment: InsertSubscriptionPayment): Promise<SubscriptionPayment> {
+    const [newPayment] = await this.db
+      .insert(subscriptionPayments)
+      .values(payment)
+      .returning();
+    return newPayment;
+  }
+
+  async getPayment(id: number): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(eq(subscriptionPayments.id, id));
+    return payment;
+  }
+
+  async getPaymentByOrderId(orderId: string): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(eq(subscriptionPayments.orderId, orderId));
+    return payment;
+  }
+
+  async getPaymentByProviderPaymentId(paymentId: string): Promise<SubscriptionPayment | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(eq(subscriptionPayments.paymentId, paymentId));
+    return payment;
+  }
+
+  async getUserPayments(userId: number): Promise<SubscriptionPayment[]> {
+    return this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(eq(subscriptionPayments.userId, userId))
+      .orderBy(desc(subscriptionPayments.timestamp));
+  }
+
+  async updatePayment(id: number, updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getPayment(id);
+
+    const [payment] = await this.db
+      .update(subscriptionPayments)
+      .set(values)
+      .where(eq(subscriptionPayments.id, id))
+      .returning();
+    return payment;
+  }
+
+  async transitionPayment(id: number, from: PaymentStatus[], updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment | undefined> {
+    const { id: _id, ...values } = updates;
+
+    const [payment] = await this.db
+      .update(subscriptionPayments)
+      .set(values)
+      .where(and(
+        eq(subscriptionPayments.id, id),
+        inArray(subscriptionPayments.status, from)
+      ))
+      .returning();
+    return payment;
+  }
+
+  async completePayment(
+    id: number,
+    from: PaymentStatus[],
+    updates: Partial<SubscriptionPayment>,
+    grantFor: (user: User) => PaymentGrant
+  ): Promise<{ payment: SubscriptionPayment; user: User } | undefined> {
+    const { id: _id, ...values } = updates;
+
+    return this.db.transaction(async tx => {
+      const [payment] = await tx
+        .update(subscriptionPayments)
+        .set(values)
+        .where(and(
+          eq(subscriptionPayments.id, id),
+          inArray(subscriptionPayments.status, from)
+        ))
+        .returning();
+      if (!payment) return undefined;
+
+      // Lock the buyer so a renewal or attempt running alongside cannot work from a stale expiry or balance
+      const [buyer] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, payment.userId))
+        .for("update");
+
+      const grant = grantFor(buyer);
+      if (grant.subscription) {
+        await tx.update(users).set(grant.subscription).where(eq(users.id, buyer.id));
+      }
+      if (grant.credits) {
+        await applyCreditEntry(tx, { ...grant.credits, userId: buyer.id });
+      }
+
+      const [user] = await tx.select().from(users).where(eq(users.id, buyer.id));
+      return { payment, user };
+    });
+  }
+
+  async getPendingPayments(createdBefore: Date): Promise<SubscriptionPayment[]> {
+    return this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(and(
+        eq(subscriptionPayments.status, "pending"),
+        lt(subscriptionPayments.timestamp, createdBefore)
+      ));
+  }
+
+  async getUnsettledPayments(createdBefore: Date): Promise<SubscriptionPayment[]> {
+    return this.db
+      .select()
+      .from(subscriptionPayments)
+      .where(and(
+        eq(subscriptionPayments.status, "completed"),
+        isNull(subscriptionPayments.settledAt),
+        lt(subscriptionPayments.timestamp, createdBefore)
+      ));
+  }
+
+  async recordPaymentRefund(id: number, amount: number): Promise<SubscriptionPayment | undefined> {
+    const refundedAmount = sql`${subscriptionPayments.refundedAmount} + ${amount}`;
+    const [payment] = await this.db
+      .update(subscriptionPayments)
+      .set({ refundedAmount })
+      .where(and(
+        eq(subscriptionPayments.id, id),
+        eq(subscriptionPayments.status, "completed"),
+        gte(refundedAmount, 0),
+        lte(refundedAmount, subscriptionPayments.amount)
+      ))
+      .returning();
+    return payment;
+  }
+
+  // Payment webhook event related methods
+  async getPaymentEvent(eventId: string): Promise<PaymentEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(paymentEvents)
+      .where(eq(paymentEvents.eventId, eventId));
+    return event;
+  }
+
+  async claimPaymentEvent(event: InsertPaymentEvent): Promise<boolean> {
+    // Of concurrent deliveries of the same event, only the one whose insert lands gets a row back
+    const claimed = await this.db
+      .insert(paymentEvents)
+      .values(event)
+      .onConflictDoNothing({ target: paymentEvents.eventId })
+      .returning({ id: paymentEvents.id });
+    return claimed.length > 0;
+  }
+
+  async releasePaymentEvent(eventId: string): Promise<void> {
+    await this.db.delete(paymentEvents).where(eq(paymentEvents.eventId, eventId));
+  }
+
+  // Invoice related methods
+  async getInvoiceByPaymentId(paymentId: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.paymentId, paymentId));
+    return invoice;
+  }
+
+  async getUserInvoices(userId: number): Promise<Invoice[]> {
+    return this.db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.sequence));
+  }
+
+  async createInvoice(invoice: InsertInvoice, numberFor: (sequence: number) => string): Promise<Invoice> {
+    return this.db.transaction(async tx => {
+      // Serialise issuing so sequence numbers have no gaps or duplicates
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('invoices'))`);
+
+      const [existing] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.paymentId, invoice.paymentId));
+      if (existing) return existing;
+
+      const [{ last }] = await tx
+        .select({ last: sql<number>`coalesce(max(${invoices.sequence}), 0)` })
+        .from(invoices);
+      const sequence = Number(last) + 1;
+
+      const [newInvoice] = await tx
+        .insert(invoices)
+        .values({ ...invoice, sequence, invoiceNumber: numberFor(sequence) })
+        .returning();
+      return newInvoice;
+    });
+  }
+
+  // Audit log related methods
+  async createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [newEntry] = await this.db
+      .insert(auditLog)
+      .values(entry)
+      .returning();
+    return newEntry;
+  }
+
+  async getAuditLog(limit: number): Promise<AuditLogEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .orderBy(desc(auditLog.id))
+      .limit(limit);
+  }
+
+  // Auth token related methods
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [newToken] = await this.db
+      .insert(authTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getRecentAuthTokens(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<AuthToken[]> {
+    return this.db
+      .select()
+      .from(authTokens)
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        gte(authTokens.createdAt, since)
+      ))
+      .orderBy(asc(authTokens.id));
+  }
+
+  async redeemAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    // A single conditional update, so two requests cannot both redeem the token
+    const [token] = await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      ));
+  }
+
+  // User session related methods
+  async createUserSession(userSession: InsertUserSession): Promise<UserSession> {
+    const [newSession] = await this.db
+      .insert(userSessions)
+      .values(userSession)
+      .returning();
+    return newSession;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return this.db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async touchUserSession(sessionId: string, seenAt: Date): Promise<void> {
+    await this.db
+      .update(userSessions)
+      .set({ lastSeenAt: seenAt })
+      .where(eq(userSessions.sessionId, sessionId));
+  }
+
+  async deleteUserSession(sessionId: string): Promise<void> {
+    await this.db
+      .delete(userSessions)
+      .where(eq(userSessions.sessionId, sessionId));
+  }
+
+  async deleteUserSessions(userId: number): Promise<UserSession[]> {
+    return this.db
+      .delete(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .returning();
+  }
+
+  // Rate limit related methods
+  async incrementRateLimit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    const windowEnded = lte(rateLimits.resetAt, now);
+
+    // One upsert, so concurrent hits from several instances are all counted
+    const [counter] = await this.db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`case when ${windowEnded} then 1 else ${rateLimits.count} + 1 end`,
+          resetAt: sql`case when ${windowEnded} then ${sql.param(resetAt, rateLimits.resetAt)} else ${rateLimits.resetAt} end`,
+        },
+      })
+      .returning();
+    return counter;
+  }
+
+  async getRateLimit(key: string): Promise<RateLimitCounter | undefined> {
+    const [counter] = await this.db.select().from(rateLimits).where(eq(rateLimits.key, key));
+    return counter;
+  }
+
+  async setRateLimit(key: string, count: number, resetAt: Date): Promise<void> {
+    await this.db
+      .insert(rateLimits)
+      .values({ key, count, resetAt })
+      .onConflictDoUpdate({ target: rateLimits.key, set: { count, resetAt } });
+  }
+
+  async clearRateLimit(key: string): Promise<void> {
+    await this.db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  async deleteExpiredRateLimits(asOf: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(rateLimits)
+      .where(lte(rateLimits.resetAt, asOf))
+      .returning({ key: rateLimits.key });
+    return deleted.length;
+  }
+
+  // Data export related methods
+  async saveDataExport(dataExport: InsertDataExportRecord): Promise<DataExportRecord> {
+    const [record] = await this.db
+      .insert(dataExports)
+      .values(dataExport)
+      .onConflictDoUpdate({ target: dataExports.id, set: { expiresAt: dataExport.expiresAt } })
+      .returning();
+    return record;
+  }
+
+  async getDataExport(id: string): Promise<DataExportRecord | undefined> {
+    const [record] = await this.db.select().from(dataExports).where(eq(dataExports.id, id));
+    return record;
+  }
+
+  async getUserDataExports(userId: number): Promise<DataExportRecord[]> {
+    return this.db.select().from(dataExports).where(eq(dataExports.userId, userId));
+  }
+
+  async getExpiredDataExports(asOf: Date): Promise<DataExportRecord[]> {
+    return this.db
+      .select()
+      .from(dataExports)
+      .where(lte(dataExports.expiresAt, asOf))
+      .orderBy(asc(dataExports.expiresAt));
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    await this.db.delete(dataExports).where(eq(dataExports.id, id));
+  }
+
+  // Admin statistics related methods
+  async getDailyUsage(since: Date): Promise<DailyUsage[]> {
+    const date = sql<string>`to_char(${assignmentHistory.timestamp}, 'YYYY-MM-DD')`;
+    return this.db
+      .select({ date, assignments: sql<number>`count(*)::int` })
+      .from(assignmentHistory)
+      .where(gte(assignmentHistory.timestamp, since))
+      .groupBy(date)
+      .orderBy(date);
+  }
+
+  async getDailyRevenue(since: Date): Promise<DailyRevenue[]> {
+    const date = sql<string>`to_char(${subscriptionPayments.timestamp}, 'YYYY-MM-DD')`;
+    return this.db
+      .select({
+        date,
+        currency: subscriptionPayments.currency,
+        amount: sql<number>`sum(${subscriptionPayments.amount} - ${subscriptionPayments.refundedAmount})::int`
+      })
+      .from(subscriptionPayments)
+      .where(and(
+        gte(subscriptionPayments.timestamp, since),
+        inArray(subscriptionPayments.status, ["completed", "refunded"])
+      ))
+      .groupBy(date, subscriptionPayments.currency)
+      .orderBy(date);
+  }
 }
 
-// Export an instance of MemStorage
-export const storage = new MemStorage();
+// Use Postgres when DATABASE_URL is configured, otherwise keep data in memory
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
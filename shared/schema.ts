@@ -1,7 +1,12 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, json, varchar, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Account roles; support staff can look things up, admins can also change them
+export const userRoles = ["user", "support", "admin"] as const;
+
+export type UserRole = typeof userRoles[number];
+
 // Users table schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -11,21 +16,95 @@ export const users = pgTable("users", {
   freeAttempts: integer("free_attempts").notNull().default(3),
   subscriptionStatus: text("subscription_status").default("free"),
   subscriptionExpiresAt: timestamp("subscription_expires_at"),
+  referralCode: text("referral_code").unique(),
+  billingName: text("billing_name"), // name printed on invoices, defaults to the username
+  billingAddress: text("billing_address"),
+  gstin: text("gstin"), // for business customers claiming input tax credit
+  role: text("role").$type<UserRole>().notNull().default("user"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  googleId: text("google_id").unique(), // subject of the linked Google account
+  deletedAt: timestamp("deleted_at"), // the row is kept, scrubbed, so payment records still have an owner
+});
+
+// A labelled sub-part or multiple-choice option of a question
+export const questionPartSchema = z.object({
+  label: z.string(),
+  text: z.string(),
+});
+
+// A single question parsed out of an assignment document
+export const parsedQuestionSchema = z.object({
+  number: z.string(),
+  text: z.string(),
+  subParts: z.array(questionPartSchema),
+  options: z.array(questionPartSchema),
+});
+
+// A parsed question together with its own answer
+export const assignmentQuestionSchema = parsedQuestionSchema.extend({
+  status: z.enum(['pending', 'solving', 'solved', 'failed']),
+  solution: z.string().nullable(),
+  error: z.string().nullable(),
 });
 
+export type QuestionPart = z.infer<typeof questionPartSchema>;
+export type ParsedQuestion = z.infer<typeof parsedQuestionSchema>;
+export type AssignmentQuestion = z.infer<typeof assignmentQuestionSchema>;
+export type QuestionStatus = AssignmentQuestion['status'];
+
 // Assignment History table schema
 export const assignmentHistory = pgTable("assignment_history", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   fileName: text("file_name").notNull(),
   fileUrl: text("file_url").notNull(),
+  subject: text("subject"),
+  promptTemplate: text("prompt_template"),
+  answerStyle: text("answer_style"),
   processedOutputUrl: text("processed_output_url"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   attemptCount: integer("attempt_count").notNull().default(1),
   extractedText: text("extracted_text"),
   solution: text("solution"),
+  questions: jsonb("questions").$type<AssignmentQuestion[]>(),
+  title: text("title"), // chosen by the user; the file name is shown when not set
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+});
+
+// Assignment Revisions table schema (refinement conversation turns)
+export const assignmentRevisions = pgTable("assignment_revisions", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull().references(() => assignmentHistory.id),
+  feedback: text("feedback").notNull(),
+  solution: text("solution").notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+// Plans table schema; the catalogue of what users can buy
+export const plans = pgTable("plans", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // stored on payments as plan_type
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  prices: jsonb("prices").$type<Record<string, number>>().notNull(), // smallest currency unit, keyed by currency code
+  durationDays: integer("duration_days"), // subscription length, for subscription plans
+  credits: integer("credits"), // attempts granted, for packs
+  features: jsonb("features").$type<string[]>().notNull().default([]),
+  active: boolean("active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  hourlyAiQuota: integer("hourly_ai_quota"), // AI requests per hour for subscribers, null for the default
 });
 
+// Lifecycle of a payment: pending -> completed | failed, completed -> refunded
+export const paymentStatuses = [
+  "pending",
+  "completed",
+  "failed",
+  "refunded",
+] as const;
+
+export type PaymentStatus = typeof paymentStatuses[number];
+
 // Subscription Payments table schema
 export const subscriptionPayments = pgTable("subscription_payments", {
   id: serial("id").primaryKey(),
@@ -35,8 +114,159 @@ export const subscriptionPayments = pgTable("subscription_payments", {
   paymentId: text("payment_id"),
   orderId: text("order_id"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-  status: text("status").notNull().default("pending"),
-  planType: text("plan_type").notNull(), // 'monthly' or 'pack'
+  status: text("status").$type<PaymentStatus>().notNull().default("pending"),
+  planType: text("plan_type").notNull(), // code of the plan that was bought
+  provider: text("provider").notNull().default("razorpay"), // payment provider that took the order
+  couponCode: text("coupon_code"),
+  discount: integer("discount").notNull().default(0), // taken off the plan price, included in amount
+  refundedAmount: integer("refunded_amount").notNull().default(0), // status becomes refunded once this reaches amount
+  settledAt: timestamp("settled_at"), // set once the referral reward and invoice for a completed payment are done
+});
+
+// Invoices table schema; billing details and tax are copied from the payment and user when issued
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  sequence: integer("sequence").notNull().unique(), // gapless, assigned in issue order
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  paymentId: integer("payment_id").notNull().references(() => subscriptionPayments.id).unique(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  description: text("description").notNull(),
+  billingName: text("billing_name").notNull(),
+  billingAddress: text("billing_address"),
+  gstin: text("gstin"),
+  sellerGstin: text("seller_gstin"),
+  placeOfSupply: text("place_of_supply"), // two-digit GST state code
+  currency: text("currency").notNull(),
+  taxableAmount: integer("taxable_amount").notNull(), // all amounts in the smallest currency unit
+  cgst: integer("cgst").notNull().default(0),
+  sgst: integer("sgst").notNull().default(0),
+  igst: integer("igst").notNull().default(0),
+  total: integer("total").notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+});
+
+// Coupons table schema
+export const couponDiscountTypes = ["percentage", "flat"] as const;
+
+export type CouponDiscountType = typeof couponDiscountTypes[number];
+
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // stored upper case
+  discountType: text("discount_type").$type<CouponDiscountType>().notNull(),
+  discountValue: integer("discount_value").notNull(), // percent, or smallest currency unit for flat coupons
+  currency: text("currency").notNull().default("INR"), // flat coupons only apply in this currency
+  planCodes: jsonb("plan_codes").$type<string[]>(), // null for every plan
+  expiresAt: timestamp("expires_at"),
+  maxRedemptions: integer("max_redemptions"), // null for unlimited
+  perUserLimit: integer("per_user_limit").notNull().default(1),
+  redemptionCount: integer("redemption_count").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Referrals table schema; who invited whom, rewarded on the referee's first payment
+export const referrals = pgTable("referrals", {
+  id: serial("id").primaryKey(),
+  referrerId: integer("referrer_id").notNull().references(() => users.id),
+  refereeId: integer("referee_id").notNull().references(() => users.id).unique(),
+  status: text("status").$type<'pending' | 'rewarded'>().notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rewardedAt: timestamp("rewarded_at"),
+});
+
+// Payment Events table schema; webhook deliveries already handled
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  orderId: text("order_id"),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+// Kinds of change recorded in the credit ledger
+export const creditEntryTypes = [
+  "signup_grant",
+  "pack_purchase",
+  "consumption",
+  "refund",
+  "admin_adjustment",
+  "referral_bonus",
+  "purchase_refund",
+] as const;
+
+export type CreditEntryType = typeof creditEntryTypes[number];
+
+// Credit Ledger table schema; every change to a user's attempts is one row
+export const creditLedger = pgTable("credit_ledger", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").$type<CreditEntryType>().notNull(),
+  amount: integer("amount").notNull(), // positive grants, negative consumes
+  balanceAfter: integer("balance_after").notNull(),
+  reference: text("reference"), // e.g. 'payment:12' or 'assignment:34'
+  description: text("description").notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+// Audit Log table schema; who did what to which record, for support and admin actions
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // null for actions taken by the system
+  action: text("action").notNull(), // e.g. 'payment.refund'
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+// What an emailed account token lets its holder do
+export const authTokenPurposes = ["email_verification", "password_reset"] as const;
+
+export type AuthTokenPurpose = typeof authTokenPurposes[number];
+
+// Auth Tokens table schema; only a hash of the emailed token is stored
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").$type<AuthTokenPurpose>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when the token is redeemed or superseded
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Session table schema; owned by connect-pg-simple, declared here so schema pushes keep it
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, table => [index("IDX_session_expire").on(table.expire)]);
+
+// User Sessions table schema; the devices a user is signed in on, keyed by session ID
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionId: text("session_id").notNull().unique(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+// Rate Limits table schema; one fixed-window counter per bucket, shared by every instance
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(), // e.g. 'login:ip:203.0.113.7'
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+// Data Exports table schema; archives in storage, so they are deleted when their link expires even across restarts
+export const dataExports = pgTable("data_exports", {
+  id: text("id").primaryKey(), // UUID in the download link and the storage path
+  userId: integer("user_id").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Insert schemas
@@ -47,19 +277,50 @@ export const insertUserSchema = createInsertSchema(users).pick({
   freeAttempts: true,
   subscriptionStatus: true,
   subscriptionExpiresAt: true,
+  referralCode: true,
 });
 
-export const insertAssignmentHistorySchema = createInsertSchema(assignmentHistory).pick({
+export const insertAssignmentHistorySchema = createInsertSchema(assignmentHistory, {
+  questions: z.array(assignmentQuestionSchema).nullable().optional(),
+}).pick({
   userId: true,
   fileName: true,
   fileUrl: true,
+  subject: true,
+  promptTemplate: true,
+  answerStyle: true,
   processedOutputUrl: true,
   attemptCount: true,
   extractedText: true,
   solution: true,
+  questions: true,
+});
+
+export const insertAssignmentRevisionSchema = createInsertSchema(assignmentRevisions).pick({
+  assignmentId: true,
+  feedback: true,
+  solution: true,
+});
+
+export const insertPlanSchema = createInsertSchema(plans, {
+  prices: z.record(z.string().length(3), z.number().int().positive()),
+  features: z.array(z.string()).optional(),
+}).pick({
+  code: true,
+  name: true,
+  description: true,
+  prices: true,
+  durationDays: true,
+  credits: true,
+  features: true,
+  active: true,
+  sortOrder: true,
+  hourlyAiQuota: true,
 });
 
-export const insertSubscriptionPaymentSchema = createInsertSchema(subscriptionPayments).pick({
+export const insertSubscriptionPaymentSchema = createInsertSchema(subscriptionPayments, {
+  status: z.enum(paymentStatuses).optional(),
+}).pick({
   userId: true,
   amount: true,
   currency: true,
@@ -67,6 +328,103 @@ export const insertSubscriptionPaymentSchema = createInsertSchema(subscriptionPa
   orderId: true,
   status: true,
   planType: true,
+  provider: true,
+  couponCode: true,
+  discount: true,
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).pick({
+  paymentId: true,
+  userId: true,
+  description: true,
+  billingName: true,
+  billingAddress: true,
+  gstin: true,
+  sellerGstin: true,
+  placeOfSupply: true,
+  currency: true,
+  taxableAmount: true,
+  cgst: true,
+  sgst: true,
+  igst: true,
+  total: true,
+});
+
+export const insertCouponSchema = createInsertSchema(coupons, {
+  code: z.string().trim().min(3).max(32).toUpperCase(),
+  discountType: z.enum(couponDiscountTypes),
+  discountValue: z.number().int().positive(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  planCodes: z.array(z.string()).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().optional(),
+}).pick({
+  code: true,
+  discountType: true,
+  discountValue: true,
+  currency: true,
+  planCodes: true,
+  expiresAt: true,
+  maxRedemptions: true,
+  perUserLimit: true,
+  active: true,
+}).refine(coupon => coupon.discountType !== "percentage" || coupon.discountValue <= 100, {
+  message: "Percentage discounts cannot exceed 100",
+  path: ["discountValue"],
+});
+
+export const insertReferralSchema = createInsertSchema(referrals).pick({
+  referrerId: true,
+  refereeId: true,
+});
+
+export const insertCreditLedgerEntrySchema = createInsertSchema(creditLedger, {
+  type: z.enum(creditEntryTypes),
+}).pick({
+  userId: true,
+  type: true,
+  amount: true,
+  reference: true,
+  description: true,
+});
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLog, {
+  details: z.record(z.unknown()).optional(),
+}).pick({
+  actorId: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  details: true,
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens, {
+  purpose: z.enum(authTokenPurposes),
+}).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).pick({
+  userId: true,
+  sessionId: true,
+  userAgent: true,
+  ipAddress: true,
+});
+
+export const insertDataExportSchema = createInsertSchema(dataExports).pick({
+  id: true,
+  userId: true,
+  expiresAt: true,
+});
+
+export const insertPaymentEventSchema = createInsertSchema(paymentEvents).pick({
+  eventId: true,
+  type: true,
+  orderId: true,
 });
 
 // Type exports
@@ -76,9 +434,56 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type AssignmentHistory = typeof assignmentHistory.$inferSelect;
 export type InsertAssignmentHistory = z.infer<typeof insertAssignmentHistorySchema>;
 
+export type AssignmentRevision = typeof assignmentRevisions.$inferSelect;
+export type InsertAssignmentRevision = z.infer<typeof insertAssignmentRevisionSchema>;
+
+export type RateLimitCounter = typeof rateLimits.$inferSelect;
+
+export type DataExportRecord = typeof dataExports.$inferSelect;
+export type InsertDataExportRecord = z.infer<typeof insertDataExportSchema>;
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
+
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerEntrySchema>;
+
+export type Plan = typeof plans.$inferSelect;
+export type InsertPlan = z.infer<typeof insertPlanSchema>;
+
 export type SubscriptionPayment = typeof subscriptionPayments.$inferSelect;
 export type InsertSubscriptionPayment = z.infer<typeof insertSubscriptionPaymentSchema>;
 
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export type Referral = typeof referrals.$inferSelect;
+export type InsertReferral = z.infer<typeof insertReferralSchema>;
+
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+
+// Admin statistics, one row per UTC day
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD
+  assignments: number;
+}
+
+export interface DailyRevenue {
+  date: string; // YYYY-MM-DD
+  currency: string;
+  amount: number; // net of refunds, in the smallest currency unit
+}
+
 // Login validation schema
 export const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -90,4 +495,166 @@ export const registrationSchema = z.object({
   username: z.string().min(2, "Username must be at least 2 characters"),
   email: z.string().email("Please enter a valid email address"),
   password: z.string().min(8, "Password must be at least 8 characters"),
+  referralCode: z.string().trim().toUpperCase().optional(),
+});
+
+// Forgot password and resend verification request validation schema
+export const emailRequestSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+// Email verification request validation schema
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid"),
+});
+
+// Password reset request validation schema
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Profile update validation schema; changing the email needs the current password
+export const profileUpdateSchema = z.object({
+  username: z.string().trim().min(2, "Username must be at least 2 characters").max(32, "Username must be at most 32 characters").optional(),
+  email: z.string().trim().email("Please enter a valid email address").optional(),
+  currentPassword: z.string().optional(),
+}).refine(update => update.username !== undefined || update.email !== undefined, {
+  message: "Nothing to update",
+});
+
+// Password change validation schema
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().optional(), // Google-linked accounts can sign in again instead
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Account deletion validation schema
+export const accountDeletionSchema = z.object({
+  password: z.string().optional(), // Google-linked accounts can sign in again instead
+});
+
+// Order creation request validation schema
+export const paymentInitiationSchema = z.object({
+  plan: z.string().min(1, "Invalid plan type"),
+  currency: z.string().length(3, "Invalid currency").toUpperCase().default("INR"),
+  couponCode: z.string().trim().toUpperCase().optional(),
+});
+
+// Coupon check request validation schema
+export const couponQuoteSchema = paymentInitiationSchema.extend({
+  couponCode: z.string().trim().min(1, "Please enter a coupon code").toUpperCase(),
+});
+
+// Checkout result posted by the browser after paying; redirect-based providers only send the order
+export const paymentVerificationSchema = z.object({
+  order_id: z.string().min(1, "Missing order ID"),
+  payment_id: z.string().min(1, "Missing payment ID").optional(),
+  signature: z.string().min(1, "Missing payment signature").optional(),
+});
+
+// GSTIN layout: state code, PAN, entity number, 'Z', checksum
+const gstinPattern = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Billing details update validation schema; blank optional fields clear the stored value
+export const billingDetailsSchema = z.object({
+  billingName: z.string().trim().min(1, "Please enter the name to bill").max(100, "Billing name must be at most 100 characters"),
+  billingAddress: z.string().trim().max(300, "Billing address must be at most 300 characters").transform(value => value || null).nullable().optional(),
+  gstin: z.string().trim().toUpperCase()
+    .refine(value => value === "" || gstinPattern.test(value), "Please enter a valid 15-character GSTIN")
+    .transform(value => value || null)
+    .nullable()
+    .optional(),
+});
+
+// Admin user search query validation schema
+export const adminUserSearchSchema = z.object({
+  q: z.string().trim().max(100).default(""),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Admin user update validation schema
+export const adminUserUpdateSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  subscriptionStatus: z.enum(["free", "active", "expired"]).optional(),
+  subscriptionExpiresAt: z.coerce.date().nullable().optional(),
+}).refine(update => update.subscriptionStatus !== "active" || !!update.subscriptionExpiresAt, {
+  message: "An active subscription needs an expiry date",
+  path: ["subscriptionExpiresAt"],
+});
+
+// Admin coupon update validation schema; the code and discount are fixed once people may have used them
+export const couponUpdateSchema = z.object({
+  active: z.boolean().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive("Redemption limit must be positive").nullable().optional(),
+  perUserLimit: z.number().int().positive("Per-user limit must be positive").optional(),
+  planCodes: z.array(z.string()).min(1, "Pick at least one plan, or none for every plan").nullable().optional(),
+}).refine(update => Object.values(update).some(value => value !== undefined), {
+  message: "Nothing to update",
+});
+
+// Refund request validation schema; without an amount the rest of the payment is refunded
+export const refundRequestSchema = z.object({
+  amount: z.number().int().positive("Refund amount must be positive").optional(),
+  reason: z.string().trim().min(1, "Please give a reason for the refund").max(500, "Reason must be at most 500 characters"),
+});
+
+// Credit adjustment request validation schema
+export const creditAdjustmentSchema = z.object({
+  amount: z.number().int().refine(amount => amount !== 0, "Adjustment cannot be zero"),
+  reason: z.string().trim().min(1, "Please give a reason for the adjustment").max(500, "Reason must be at most 500 characters"),
+});
+
+// Assignment rename and tagging validation schema; a blank title goes back to the file name
+export const assignmentUpdateSchema = z.object({
+  title: z.string().trim().max(200, "Title must be at most 200 characters").transform(value => value || null).nullable().optional(),
+  tags: z.array(
+    z.string().trim().toLowerCase().min(1, "Tags cannot be empty").max(32, "Tags must be at most 32 characters")
+  ).max(10, "An assignment can have at most 10 tags").transform(tags => Array.from(new Set(tags))).optional(),
+}).refine(update => update.title !== undefined || update.tags !== undefined, {
+  message: "Nothing to update",
+});
+
+// Refinement request validation schema
+export const refineSchema = z.object({
+  feedback: z.string().trim().min(1, "Please describe how the solution should be refined").max(2000, "Feedback must be at most 2000 characters"),
+});
+
+// Subjects a typed question can be filed under
+export const subjects = [
+  "general",
+  "math",
+  "physics",
+  "chemistry",
+  "biology",
+  "programming",
+  "essay",
+  "accounting",
+] as const;
+
+export type Subject = typeof subjects[number];
+
+// How much of the answer the AI should give away
+export const answerStyles = [
+  "hints",
+  "step-by-step",
+  "final-answer",
+  "exam",
+] as const;
+
+export type AnswerStyle = typeof answerStyles[number];
+
+// Optional solving preferences; the subject is detected from the text when omitted
+export const solveOptionsSchema = z.object({
+  subject: z.enum(subjects, { errorMap: () => ({ message: "Please select a valid subject" }) }).optional(),
+  answerStyle: z.enum(answerStyles, { errorMap: () => ({ message: "Please select a valid answer style" }) }).default("step-by-step"),
+});
+
+export type SolveOptions = z.input<typeof solveOptionsSchema>;
+
+// Typed question validation schema
+export const typedQuestionSchema = solveOptionsSchema.extend({
+  question: z.string().trim().min(5, "Please enter your question").max(20000, "Question must be at most 20000 characters"),
 });
@@ -0,0 +1,10 @@
+import 'express-session';
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: number;
+    seenAt: number; // when the device list last recorded activity, in ms
+    signedInAt: number; // when the user last proved who they are on this device, in ms
+    oauthState: string; // guards the OAuth callback against forged requests
+  }
+}